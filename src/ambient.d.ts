@@ -9,3 +9,41 @@ declare module "eol-fix-stream" {
 declare module "node-cmd";
 
 declare module "silent-spawn";
+
+declare module "tar-stream" {
+  import stream = require("stream");
+
+  interface Headers {
+    name: string;
+    size?: number;
+    mode?: number;
+    mtime?: Date;
+    type?: string;
+    linkname?: string | null;
+    uid?: number;
+    gid?: number;
+    uname?: string;
+    gname?: string;
+  }
+
+  interface Extract extends stream.Writable {
+    on(
+      event: "entry",
+      listener: (
+        header: Headers,
+        stream: stream.Readable,
+        next: (err?: Error) => void
+      ) => void
+    ): this;
+    on(event: string, listener: (...args: any[]) => void): this;
+  }
+
+  interface Pack extends stream.Readable {
+    entry(headers: Headers, content?: Buffer | string): stream.Writable;
+    finalize(): void;
+  }
+
+  function extract(): Extract;
+
+  function pack(): Pack;
+}
@@ -0,0 +1,4 @@
+export const description =
+  "list, show, refresh and purge the public keys cached by pkgsign";
+
+export const brief = "manage the public key cache";
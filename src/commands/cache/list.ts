@@ -0,0 +1,45 @@
+import { Command, command, metadata } from "clime";
+import { TrustStore } from "../../lib/trustStore";
+import {
+  describeCacheExpiry,
+  describeCachedFingerprints
+} from "../../lib/cacheDescription";
+
+@command({
+  description: "list the cached public keys, with their expiry and fingerprints"
+})
+export default class extends Command {
+  @metadata
+  public async execute(): Promise<void> {
+    const cachedPublicKeys = await new TrustStore().listCachedPublicKeys();
+    const cacheNames = Object.keys(cachedPublicKeys);
+    if (cacheNames.length == 0) {
+      console.log("no public keys are cached");
+      return;
+    }
+
+    let targetLength = 0;
+    for (let cacheName of cacheNames) {
+      if (cacheName.length > targetLength) {
+        targetLength = cacheName.length;
+      }
+    }
+    targetLength += 2;
+    const padRight = (input: string, len: number) => {
+      while (input.length < len) {
+        input = input + " ";
+      }
+      return input;
+    };
+    for (let cacheName of cacheNames) {
+      const cachedData = cachedPublicKeys[cacheName];
+      console.log(
+        padRight(cacheName, targetLength) +
+          " " +
+          padRight(describeCacheExpiry(cachedData), 33) +
+          " " +
+          (await describeCachedFingerprints(cachedData))
+      );
+    }
+  }
+}
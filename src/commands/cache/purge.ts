@@ -0,0 +1,39 @@
+import { Command, command, param } from "clime";
+import { TrustStore } from "../../lib/trustStore";
+
+@command({
+  description:
+    "remove public keys from the cache, so they are fetched again when they are next needed"
+})
+export default class extends Command {
+  public async execute(
+    @param({
+      name: "name",
+      description:
+        "name of the cache entry to purge, as shown by 'pkgsign cache list'; defaults to all of them",
+      required: false
+    })
+    cacheName: string
+  ): Promise<void> {
+    const trustStore = new TrustStore();
+    const cacheNames =
+      cacheName !== undefined
+        ? [cacheName]
+        : Object.keys(await trustStore.listCachedPublicKeys());
+
+    let purged = 0;
+    for (let name of cacheNames) {
+      if (await trustStore.purgeCachedPublicKeys(name)) {
+        purged++;
+      }
+    }
+
+    if (cacheName !== undefined && purged == 0) {
+      console.error("no public keys are cached as '" + cacheName + "'");
+      process.exitCode = 1;
+      return;
+    }
+    console.log("purged " + purged + " cached public keys");
+    process.exitCode = 0;
+  }
+}
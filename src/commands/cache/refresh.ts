@@ -0,0 +1,42 @@
+import { Command, command, param } from "clime";
+import { TrustStore } from "../../lib/trustStore";
+import { describeCachedFingerprints } from "../../lib/cacheDescription";
+
+@command({
+  description:
+    "fetch cached public keys again, even if they have not expired yet"
+})
+export default class extends Command {
+  public async execute(
+    @param({
+      name: "name",
+      description:
+        "name of the cache entry to refresh, as shown by 'pkgsign cache list'; defaults to all of them",
+      required: false
+    })
+    cacheName: string
+  ): Promise<void> {
+    const trustStore = new TrustStore();
+    const cacheNames =
+      cacheName !== undefined
+        ? [cacheName]
+        : Object.keys(await trustStore.listCachedPublicKeys());
+
+    let success = true;
+    for (let name of cacheNames) {
+      try {
+        const cachedData = await trustStore.refreshCachedPublicKeys(name);
+        console.log(
+          "refreshed " +
+            name +
+            ": " +
+            (await describeCachedFingerprints(cachedData))
+        );
+      } catch (e) {
+        console.error("unable to refresh " + name + ": " + e.message);
+        success = false;
+      }
+    }
+    process.exitCode = success ? 0 : 1;
+  }
+}
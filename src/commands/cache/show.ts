@@ -0,0 +1,57 @@
+import { Command, command, param } from "clime";
+import { TrustStore } from "../../lib/trustStore";
+import { describePgpPublicKeys } from "../../lib/identity/pgp";
+import { describeCacheExpiry } from "../../lib/cacheDescription";
+
+@command({
+  description:
+    "show the fingerprints, user IDs and expiry of the public keys in a cache entry"
+})
+export default class extends Command {
+  public async execute(
+    @param({
+      name: "name",
+      description:
+        "name of the cache entry, as shown by 'pkgsign cache list', such as 'keybase.io.someuser'",
+      required: true
+    })
+    cacheName: string
+  ): Promise<void> {
+    const cachedData = (await new TrustStore().listCachedPublicKeys())[
+      cacheName
+    ];
+    if (cachedData === undefined) {
+      console.error("no public keys are cached as '" + cacheName + "'");
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log("source:  " + (cachedData.source || "unknown"));
+    if (cachedData.fetchedUtc !== undefined) {
+      console.log(
+        "fetched: " + new Date(cachedData.fetchedUtc * 1000).toISOString()
+      );
+    }
+    console.log("cache:   " + describeCacheExpiry(cachedData));
+    if (cachedData.error !== undefined) {
+      console.log("fetching the public keys failed: " + cachedData.error);
+      if (cachedData.data === "") {
+        process.exitCode = 0;
+        return;
+      }
+    }
+
+    for (let key of await describePgpPublicKeys(cachedData.data)) {
+      console.log();
+      console.log("fingerprint: " + key.fingerprint);
+      for (let userId of key.userIds) {
+        console.log("user ID:     " + userId);
+      }
+      console.log(
+        "expires:     " +
+          (key.expires === null ? "never" : key.expires.toISOString())
+      );
+    }
+    process.exitCode = 0;
+  }
+}
@@ -0,0 +1,179 @@
+import { Command, command, param } from "clime";
+import * as path from "path";
+import { lstatSync } from "fs";
+import * as packlist from "npm-packlist";
+import {
+  SignOptions,
+  getSignerIdentityProvider,
+  createSigningContext
+} from "./sign";
+import { addCosignatureToSignatureDocument } from "../lib/signature";
+import { ModuleVerifier } from "../lib/moduleVerifier";
+import { TrustStore } from "../lib/trustStore";
+import { ModuleVerificationStatus, identityToString } from "../lib/types";
+import { describeModuleVerificationResult } from "../lib/verificationReport";
+import { readFilePromise, writeFilePromise } from "../lib/util/fsPromise";
+import { addFileToTarball } from "../lib/util/tarball";
+import { IVirtualFileSystem } from "../lib/vfs";
+import { DiskFileSystem } from "../lib/vfs/diskFileSystem";
+import { readTarball } from "../lib/vfs/tarballFileSystem";
+
+@command({
+  description:
+    "add a signature to an already signed npm/yarn package directory or tarball, keeping the existing signatures"
+})
+export default class extends Command {
+  public async execute(
+    @param({
+      name: "pkgdir|tarball",
+      description: "path to package directory or tarball",
+      required: true
+    })
+    path: string,
+    options: SignOptions
+  ): Promise<void> {
+    if (await this.executeInternal(path, options)) {
+      process.exitCode = 0;
+    } else {
+      process.exitCode = 1;
+    }
+  }
+
+  public async executeInternal(
+    packagePath: string,
+    options: SignOptions
+  ): Promise<boolean> {
+    if (options.workspaces) {
+      console.error("--workspaces is not supported when cosigning");
+      return false;
+    }
+
+    if (packagePath.endsWith(".tgz") && lstatSync(packagePath).isFile()) {
+      console.log("reading signed tarball...");
+      const tarball = await readTarball(packagePath);
+      const signatureDocumentJson = await this.cosign(
+        tarball,
+        tarball.getFilePaths(),
+        options
+      );
+      if (signatureDocumentJson === null) {
+        return false;
+      } else if (options.detached) {
+        return await this.writeDetachedSignature(
+          options.detached,
+          signatureDocumentJson
+        );
+      }
+
+      await addFileToTarball(
+        packagePath,
+        tarball,
+        "signature.json",
+        Buffer.from(signatureDocumentJson)
+      );
+
+      console.log("package tarball has been cosigned");
+      return true;
+    } else {
+      console.log("building file list...");
+      const files = await packlist({
+        path: packagePath
+      });
+      const signatureDocumentJson = await this.cosign(
+        new DiskFileSystem(packagePath),
+        files,
+        options
+      );
+      if (signatureDocumentJson === null) {
+        return false;
+      } else if (options.detached) {
+        return await this.writeDetachedSignature(
+          options.detached,
+          signatureDocumentJson
+        );
+      }
+      await writeFilePromise(
+        path.join(packagePath, "signature.json"),
+        signatureDocumentJson
+      );
+
+      console.log("signature.json in package directory has been cosigned");
+      return true;
+    }
+  }
+
+  /**
+   * Returns the signature document of a package with a cosignature added, or
+   * null if the package can't be cosigned.
+   *
+   * @param fileSystem The files of the package.
+   * @param relativeFilePaths The paths of the package's files.
+   * @param options The sign command options.
+   */
+  private async cosign(
+    fileSystem: IVirtualFileSystem,
+    relativeFilePaths: string[],
+    options: SignOptions
+  ): Promise<string | null> {
+    // Only cosign packages whose contents match the existing signature, so
+    // that a cosignature always vouches for the contents that were signed.
+    console.log("verifying existing signatures...");
+    const packageInfo = JSON.parse(await fileSystem.readFile("package.json"));
+    let detachedSignature: string | undefined = undefined;
+    if (options.detached) {
+      try {
+        detachedSignature = await readFilePromise(options.detached);
+      } catch (e) {
+        console.error("unable to read the detached signature: " + e.message);
+        return null;
+      }
+    }
+    const result = await new ModuleVerifier(new TrustStore()).verify(
+      fileSystem,
+      relativeFilePaths,
+      packageInfo.name || "",
+      detachedSignature
+    );
+    if (
+      result.status == ModuleVerificationStatus.Compromised ||
+      result.status == ModuleVerificationStatus.Unsigned
+    ) {
+      console.error(describeModuleVerificationResult(result));
+      console.error("refusing to cosign the package");
+      return null;
+    }
+
+    const identityProvider = getSignerIdentityProvider(options);
+    const identityProviderSigningContext = createSigningContext(options);
+    let signatureDocumentJson: string;
+    try {
+      signatureDocumentJson = await addCosignatureToSignatureDocument(
+        detachedSignature !== undefined
+          ? detachedSignature
+          : await fileSystem.readFile("signature.json"),
+        identityProvider,
+        identityProviderSigningContext
+      );
+    } catch (e) {
+      console.error(e.message);
+      return null;
+    }
+
+    console.log(
+      "cosigned as " +
+        identityToString(
+          await identityProvider.getIdentity(identityProviderSigningContext)
+        )
+    );
+    return signatureDocumentJson;
+  }
+
+  private async writeDetachedSignature(
+    detachedPath: string,
+    signatureDocumentJson: string
+  ): Promise<boolean> {
+    await writeFilePromise(detachedPath, signatureDocumentJson);
+    console.log("detached signature in " + detachedPath + " has been cosigned");
+    return true;
+  }
+}
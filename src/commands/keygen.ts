@@ -0,0 +1,76 @@
+import { Command, command, param, Options, option } from "clime";
+import { existsSync } from "fs";
+import { generateEd25519KeyPair } from "../lib/identity/ed25519";
+import { writeFilePromise } from "../lib/util/fsPromise";
+
+export class KeygenOptions extends Options {
+  @option({
+    name: "type",
+    description: "the type of key to create; only 'ed25519' is supported",
+    default: "ed25519"
+  })
+  type: string = "ed25519";
+  @option({
+    name: "format",
+    description: "the format of the key files, either 'pem' (default) or 'jwk'",
+    default: "pem"
+  })
+  format: string = "pem";
+}
+
+@command({
+  description:
+    "create a keypair for signing packages with 'pkgsign sign --signer ed25519'"
+})
+export default class extends Command {
+  public async execute(
+    @param({
+      name: "name",
+      description:
+        "path and name of the key files, without extension; defaults to 'pkgsign-ed25519'",
+      required: false
+    })
+    name: string,
+    options: KeygenOptions
+  ): Promise<void> {
+    if (await this.executeInternal(name || "pkgsign-ed25519", options)) {
+      process.exitCode = 0;
+    } else {
+      process.exitCode = 1;
+    }
+  }
+
+  public async executeInternal(
+    name: string,
+    options: KeygenOptions
+  ): Promise<boolean> {
+    if (options.type != "ed25519") {
+      console.error("unsupported key type '" + options.type + "'");
+      return false;
+    }
+    if (options.format != "pem" && options.format != "jwk") {
+      console.error("unsupported key format '" + options.format + "'");
+      return false;
+    }
+
+    const privateKeyPath = name + "." + options.format;
+    const publicKeyPath = name + ".pub." + options.format;
+    for (let keyPath of [privateKeyPath, publicKeyPath]) {
+      if (existsSync(keyPath)) {
+        console.error(keyPath + " already exists; not overwriting it");
+        return false;
+      }
+    }
+
+    const keyPair = generateEd25519KeyPair(options.format);
+    // Create the private key file readable only by its owner, so that it is
+    // never readable by anyone else, even briefly.
+    await writeFilePromise(privateKeyPath, keyPair.privateKey, 0o600);
+    await writeFilePromise(publicKeyPath, keyPair.publicKey);
+
+    console.log("private key written to " + privateKeyPath);
+    console.log("public key written to " + publicKeyPath);
+    console.log("fingerprint: " + keyPair.fingerprint);
+    return true;
+  }
+}
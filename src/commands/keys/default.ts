@@ -0,0 +1,4 @@
+export const description =
+  "export and import cached public keys, for verifying packages offline";
+
+export const brief = "manage cached public keys";
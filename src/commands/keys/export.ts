@@ -0,0 +1,34 @@
+import { Command, command, param } from "clime";
+import { TrustStore } from "../../lib/trustStore";
+import { exportKeyBundle } from "../../lib/keyBundle";
+import { writeFilePromise } from "../../lib/util/fsPromise";
+
+@command({
+  description:
+    "export all cached public keys to a bundle, to import on machines that verify with --offline"
+})
+export default class extends Command {
+  public async execute(
+    @param({
+      name: "bundle",
+      description: "path to write the key bundle to; defaults to stdout",
+      required: false
+    })
+    bundlePath: string
+  ): Promise<void> {
+    const bundle = await exportKeyBundle(new TrustStore());
+    const rawJson = JSON.stringify(bundle, null, 2);
+    if (bundlePath === undefined) {
+      console.log(rawJson);
+    } else {
+      await writeFilePromise(bundlePath, rawJson);
+      console.error(
+        "exported " +
+          Object.keys(bundle.keys).length +
+          " cached public keys to " +
+          bundlePath
+      );
+    }
+    process.exitCode = 0;
+  }
+}
@@ -0,0 +1,26 @@
+import { Command, command, param } from "clime";
+import { TrustStore } from "../../lib/trustStore";
+import { importKeyBundle } from "../../lib/keyBundle";
+import { readFilePromise } from "../../lib/util/fsPromise";
+
+@command({
+  description:
+    "import cached public keys from a bundle created by 'pkgsign keys export'"
+})
+export default class extends Command {
+  public async execute(
+    @param({
+      name: "bundle",
+      description: "path to the key bundle",
+      required: true
+    })
+    bundlePath: string
+  ): Promise<void> {
+    const count = await importKeyBundle(
+      new TrustStore(),
+      await readFilePromise(bundlePath)
+    );
+    console.log("imported " + count + " cached public keys");
+    process.exitCode = 0;
+  }
+}
@@ -0,0 +1,82 @@
+import { Command, command, metadata, option, Options } from "clime";
+import {
+  TrustStore,
+  TestTrustStore,
+  ITrustStore,
+  LayeredTrustStore
+} from "../lib/trustStore";
+import { PolicyTrustStore } from "../lib/trustPolicy";
+import { createVerificationServer } from "../lib/verificationServer";
+
+export class ServeOptions extends Options {
+  @option({
+    name: "port",
+    description: "the port to listen on",
+    default: 8080
+  })
+  port: number = 8080;
+  @option({
+    name: "host",
+    description:
+      "the address to listen on; by default only local clients can connect",
+    default: "127.0.0.1"
+  })
+  host: string = "127.0.0.1";
+  @option({
+    name: "policy",
+    description:
+      "path to a trust policy file, which trusts packages in addition to the user's trust store"
+  })
+  policyPath: string = "";
+  @option({
+    name: "offline",
+    toggle: true,
+    description:
+      "never fetch public keys; use the cached public keys (even if they have expired), and fail if they are not cached"
+  })
+  offline: boolean = false;
+  @option({
+    name: "allow-unsigned-packages",
+    toggle: true,
+    description: "unsigned packages pass verification"
+  })
+  allowUnsignedPackages: boolean = false;
+  @option({
+    name: "enable-test-trust-store",
+    toggle: true,
+    description: "enables the test trust store, for debugging purposes only"
+  })
+  enableTestTrustStore: boolean = false;
+}
+
+@command({
+  description:
+    "serve an HTTP API that verifies package tarballs, for registries and registry proxies"
+})
+export default class extends Command {
+  @metadata
+  public async execute(options: ServeOptions): Promise<void> {
+    // The trust store is shared by every request, so public keys are only
+    // fetched once, and untrusted packages are never prompted for.
+    let trustStore: ITrustStore = options.enableTestTrustStore
+      ? new TestTrustStore()
+      : new TrustStore(options.offline);
+    if (options.policyPath) {
+      trustStore = new LayeredTrustStore(trustStore, [
+        new PolicyTrustStore(options.policyPath)
+      ]);
+    }
+
+    const server = createVerificationServer(
+      trustStore,
+      options.allowUnsignedPackages
+    );
+    await new Promise<void>((resolve, reject) => {
+      server.on("error", reject);
+      server.listen(options.port, options.host, () => resolve());
+    });
+    console.log(
+      "listening on http://" + options.host + ":" + options.port + "/"
+    );
+  }
+}
@@ -6,38 +6,40 @@ import { createSignedSignatureDocument } from "../lib/signature";
 import { queueTelemetryPackageAction } from "../lib/telemetry";
 import { availableEntryHandlers } from "../lib/entryHandlers/registry";
 import { Entry } from "../lib/types";
-import {
-  createWorkingDirectory,
-  decompress,
-  recursivePromise,
-  unlinkPromise,
-  compress,
-  writeFilePromise
-} from "../lib/util/fsPromise";
+import { writeFilePromise } from "../lib/util/fsPromise";
+import { addFileToTarball } from "../lib/util/tarball";
 import {
   IIdentityProvider,
   IIdentityProviderSigningContext
 } from "../lib/identity";
 import { PgpIdentityProvider } from "../lib/identity/pgp";
 import { KeybaseIdentityProvider } from "../lib/identity/keybase";
+import { PgpKeyringIdentityProvider } from "../lib/identity/pgpKeyring";
+import { SshIdentityProvider } from "../lib/identity/ssh";
+import { Ed25519IdentityProvider } from "../lib/identity/ed25519";
+import { findWorkspaces } from "../lib/workspaces";
+import { IVirtualFileSystem } from "../lib/vfs";
+import { DiskFileSystem } from "../lib/vfs/diskFileSystem";
+import { readTarball } from "../lib/vfs/tarballFileSystem";
 
 export class SignOptions extends Options {
   @option({
     name: "signer",
-    description: "the signer to use, one of: 'keybase' (default) or 'pgp'",
+    description:
+      "the signer to use, one of: 'keybase' (default), 'pgp', 'pgp-keyring', 'ssh' or 'ed25519'",
     default: "keybase"
   })
   withSigner: string = "";
   @option({
     name: "pgp-private-key-path",
     description:
-      "when signing with 'pgp', this is the path to the private key file"
+      "when signing with 'pgp' or 'pgp-keyring', this is the path to the private key file"
   })
   privateKeyPath: string = "";
   @option({
     name: "pgp-private-key-passphrase",
     description:
-      "when signing with 'pgp', this is the passphrase for the private key file"
+      "when signing with 'pgp' or 'pgp-keyring', this is the passphrase for the private key file"
   })
   privateKeyPassphrase: string = "";
   @option({
@@ -46,6 +48,88 @@ export class SignOptions extends Options {
       "when signing with 'pgp', this is the HTTPS URL to the public key that pkgsign can download to verify the package"
   })
   publicKeyUrl: string = "";
+  @option({
+    name: "ssh-key-path",
+    description:
+      "when signing with 'ssh', this is the path to the private key file, or to the public key file if the private key is held by ssh-agent"
+  })
+  sshKeyPath: string = "";
+  @option({
+    name: "ssh-principal",
+    description:
+      "when signing with 'ssh', this is the principal to sign as, such as an email address listed in the allowed signers file"
+  })
+  sshPrincipal: string = "";
+  @option({
+    name: "ed25519-private-key-path",
+    description:
+      "when signing with 'ed25519', this is the path to the private key file (PEM or JWK)"
+  })
+  ed25519PrivateKeyPath: string = "";
+  @option({
+    name: "expires",
+    description:
+      "the date the signature expires (ISO 8601, such as '2021-01-01'); packages with expired signatures fail verification"
+  })
+  expires: string = "";
+  @option({
+    name: "workspaces",
+    toggle: true,
+    description:
+      "sign every workspace of the monorepo in the package directory, except for private workspaces"
+  })
+  workspaces: boolean = false;
+  @option({
+    name: "detached",
+    description:
+      "write the signature to this path (such as 'mypackage-1.0.0.tgz.pkgsig') instead of adding signature.json to the package, which leaves the package untouched; when cosigning, the signature at this path is cosigned"
+  })
+  detached: string = "";
+}
+
+/**
+ * Returns the identity provider selected by the `--signer` option.
+ *
+ * @param options The sign command options.
+ */
+export function getSignerIdentityProvider(
+  options: SignOptions
+): IIdentityProvider {
+  if (options.withSigner == "pgp") {
+    return PgpIdentityProvider;
+  } else if (options.withSigner == "pgp-keyring") {
+    return PgpKeyringIdentityProvider;
+  } else if (options.withSigner == "keybase") {
+    return KeybaseIdentityProvider;
+  } else if (options.withSigner == "ssh") {
+    return SshIdentityProvider;
+  } else if (options.withSigner == "ed25519") {
+    return Ed25519IdentityProvider;
+  } else {
+    throw new Error("Not supported signer type: " + options.withSigner);
+  }
+}
+
+/**
+ * Returns the signing context for the identity provider selected by the
+ * `--signer` option.
+ *
+ * @param options The sign command options.
+ */
+export function createSigningContext(
+  options: SignOptions
+): IIdentityProviderSigningContext {
+  return {
+    privateKeyPath:
+      options.withSigner == "ssh"
+        ? options.sshKeyPath
+        : options.withSigner == "ed25519"
+        ? options.ed25519PrivateKeyPath
+        : options.privateKeyPath,
+    privateKeyPassphrase: options.privateKeyPassphrase,
+    publicKeyHttpsUrl: options.publicKeyUrl,
+    sshPrincipal: options.sshPrincipal
+  };
 }
 
 @command({
@@ -72,32 +156,52 @@ export default class extends Command {
     path: string,
     options: SignOptions
   ): Promise<boolean> {
-    let identityProvider: IIdentityProvider;
-    if (options.withSigner == "pgp") {
-      identityProvider = PgpIdentityProvider;
-    } else if (options.withSigner == "keybase") {
-      identityProvider = KeybaseIdentityProvider;
-    } else {
-      throw new Error("Not supported signer type: " + options.withSigner);
+    const identityProvider = getSignerIdentityProvider(options);
+    const identityProviderSigningContext = createSigningContext(options);
+
+    let expires: string | undefined = undefined;
+    if (options.expires) {
+      if (isNaN(new Date(options.expires).getTime())) {
+        console.error("invalid date for --expires: " + options.expires);
+        return false;
+      }
+      if (new Date(options.expires) <= new Date()) {
+        console.error("the --expires date has already passed");
+        return false;
+      }
+      expires = new Date(options.expires).toISOString();
     }
 
-    const identityProviderSigningContext: IIdentityProviderSigningContext = {
-      privateKeyPath: options.privateKeyPath,
-      privateKeyPassphrase: options.privateKeyPassphrase,
-      publicKeyHttpsUrl: options.publicKeyUrl
-    };
+    const detachedPath = options.detached || null;
+    if (options.workspaces && detachedPath !== null) {
+      console.error(
+        "--detached can't be used with --workspaces, because a detached signature only signs one package"
+      );
+      return false;
+    }
 
-    if (path.endsWith(".tgz") && lstatSync(path).isFile()) {
+    if (options.workspaces) {
+      return await this.signWorkspaces(
+        identityProvider,
+        identityProviderSigningContext,
+        path,
+        expires
+      );
+    } else if (path.endsWith(".tgz") && lstatSync(path).isFile()) {
       return await this.signTarball(
         identityProvider,
         identityProviderSigningContext,
-        path
+        path,
+        expires,
+        detachedPath
       );
     } else {
       return await this.signDirectory(
         identityProvider,
         identityProviderSigningContext,
-        path
+        path,
+        expires,
+        detachedPath
       );
     }
   }
@@ -105,27 +209,37 @@ export default class extends Command {
   private async signTarball(
     identityProvider: IIdentityProvider,
     identityProviderSigningContext: IIdentityProviderSigningContext,
-    tarballPath: string
+    tarballPath: string,
+    expires: string | undefined,
+    detachedPath: string | null
   ): Promise<boolean> {
-    const wd = await createWorkingDirectory();
-    console.log("extracting unsigned tarball...");
-    await decompress(tarballPath, wd);
-
-    console.log("building file list...");
-    const base = path.join(wd, "package");
-    let files = await recursivePromise(base);
-    files = files.map(fullPath => fullPath.substr(base.length + 1));
+    console.log("reading unsigned tarball...");
+    const tarball = await readTarball(tarballPath);
 
-    await this.signFileList(
+    const signatureDocumentJson = await this.createSignatureDocument(
       identityProvider,
       identityProviderSigningContext,
-      base,
-      files,
+      tarball,
+      tarball.getFilePaths(),
+      expires,
+      detachedPath !== null,
       "sign-tarball"
     );
 
-    await unlinkPromise(tarballPath);
-    await compress(wd, tarballPath);
+    if (detachedPath !== null) {
+      await writeFilePromise(detachedPath, signatureDocumentJson);
+      console.log("detached signature has been written to " + detachedPath);
+      return true;
+    }
+
+    // Only signature.json is added to the tarball, so the other entries stay
+    // exactly as they were packed.
+    await addFileToTarball(
+      tarballPath,
+      tarball,
+      "signature.json",
+      Buffer.from(signatureDocumentJson)
+    );
 
     console.log("package tarball has been signed");
     return true;
@@ -134,40 +248,95 @@ export default class extends Command {
   private async signDirectory(
     identityProvider: IIdentityProvider,
     identityProviderSigningContext: IIdentityProviderSigningContext,
-    packagePath: string
+    packagePath: string,
+    expires: string | undefined,
+    detachedPath: string | null
   ): Promise<boolean> {
     console.log("building file list...");
     const files = await packlist({
       path: packagePath
     });
 
-    await this.signFileList(
+    const signatureDocumentJson = await this.createSignatureDocument(
       identityProvider,
       identityProviderSigningContext,
-      packagePath,
+      new DiskFileSystem(packagePath),
       files,
+      expires,
+      detachedPath !== null,
       "sign-directory"
     );
 
+    if (detachedPath !== null) {
+      await writeFilePromise(detachedPath, signatureDocumentJson);
+      console.log("detached signature has been written to " + detachedPath);
+      return true;
+    }
+
+    await writeFilePromise(
+      path.join(packagePath, "signature.json"),
+      signatureDocumentJson
+    );
+
     console.log("signature.json has been created in package directory");
     return true;
   }
 
-  private async signFileList(
+  private async signWorkspaces(
+    identityProvider: IIdentityProvider,
+    identityProviderSigningContext: IIdentityProviderSigningContext,
+    rootPath: string,
+    expires: string | undefined
+  ): Promise<boolean> {
+    const workspaces = await findWorkspaces(rootPath);
+    if (workspaces.length == 0) {
+      console.error(
+        "--workspaces was specified, but there are no workspaces in " + rootPath
+      );
+      return false;
+    }
+
+    for (let workspace of workspaces) {
+      if (workspace.untrustedPackageInfo.private) {
+        // private workspaces are never published, so they aren't signed.
+        console.log("skipping private workspace " + workspace.name);
+        continue;
+      }
+      console.log("signing workspace " + workspace.name + "...");
+      if (
+        !(await this.signDirectory(
+          identityProvider,
+          identityProviderSigningContext,
+          workspace.path,
+          expires,
+          null
+        ))
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private async createSignatureDocument(
     identityProvider: IIdentityProvider,
     identityProviderSigningContext: IIdentityProviderSigningContext,
-    basePath: string,
+    fileSystem: IVirtualFileSystem,
     relativeFilePaths: string[],
+    expires: string | undefined,
+    detached: boolean,
     telemetryAction: string
-  ): Promise<void> {
+  ): Promise<string> {
     const identity = await identityProvider.getIdentity(
       identityProviderSigningContext
     );
 
     const context = {
-      dir: basePath,
+      fileSystem: fileSystem,
       relFilesOnDisk: relativeFilePaths,
-      signingIdentity: identity
+      signingIdentity: identity,
+      expires: expires,
+      detached: detached
     };
 
     let entries: Entry<any>[] = [];
@@ -183,15 +352,10 @@ export default class extends Command {
 
     await queueTelemetryPackageAction(context, identity, telemetryAction);
 
-    const signatureDocumentJson = await createSignedSignatureDocument(
+    return await createSignedSignatureDocument(
       entries,
       identityProvider,
       identityProviderSigningContext
     );
-
-    await writeFilePromise(
-      path.join(basePath, "signature.json"),
-      signatureDocumentJson
-    );
   }
 }
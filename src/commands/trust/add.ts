@@ -0,0 +1,158 @@
+import { Command, command, param, Options, option } from "clime";
+import { TrustStore } from "../../lib/trustStore";
+import { TrustConstraints } from "../../lib/trustRules";
+import {
+  IdentityOptions,
+  getIdentityFromOptions
+} from "../../lib/identity/options";
+import {
+  SignatureIdentity,
+  identityToString,
+  normalizeFingerprint
+} from "../../lib/types";
+
+export class TrustAddOptions extends Options implements IdentityOptions {
+  @option({
+    name: "keybase",
+    description: "trust the specified keybase.io user to sign the package"
+  })
+  keybaseUser: string = "";
+  @option({
+    name: "pgp-url",
+    description:
+      "trust the PGP public key at the specified HTTPS URL to sign the package"
+  })
+  pgpPublicKeyUrl: string = "";
+  @option({
+    name: "pgp-fingerprint",
+    description:
+      "trust the PGP public key with the specified fingerprint in the local PGP keyring to sign the package"
+  })
+  pgpFingerprint: string = "";
+  @option({
+    name: "ssh",
+    description:
+      "trust the specified SSH principal, as listed in the allowed signers file, to sign the package"
+  })
+  sshPrincipal: string = "";
+  @option({
+    name: "ed25519",
+    description:
+      "trust the Ed25519 public key with the specified fingerprint in the configured key directories to sign the package"
+  })
+  ed25519Fingerprint: string = "";
+  @option({
+    name: "deny",
+    toggle: true,
+    description:
+      "deny trust instead of granting it; without an identity, denies every identity"
+  })
+  deny: boolean = false;
+  @option({
+    name: "valid-from",
+    description:
+      "only trust the identity for signatures verified from this date (ISO 8601)"
+  })
+  validFrom: string = "";
+  @option({
+    name: "valid-until",
+    description:
+      "only trust the identity for signatures verified until this date (ISO 8601)"
+  })
+  validUntil: string = "";
+  @option({
+    name: "fingerprint",
+    description:
+      "only trust the identity when it signs with the key with this fingerprint (comma-separated for several keys)"
+  })
+  fingerprint: string = "";
+}
+
+@command({
+  description:
+    "trust an identity to sign a package or every package matching a pattern"
+})
+export default class extends Command {
+  public async execute(
+    @param({
+      name: "package|pattern",
+      description:
+        "name of the package, such as 'lodash' or '@scope/pkg', or a pattern such as '@scope/*' or '*'",
+      required: true
+    })
+    pattern: string,
+    options: TrustAddOptions
+  ): Promise<void> {
+    if (await this.executeInternal(pattern, options)) {
+      process.exitCode = 0;
+    } else {
+      process.exitCode = 1;
+    }
+  }
+
+  public async executeInternal(
+    pattern: string,
+    options: TrustAddOptions
+  ): Promise<boolean> {
+    let identity: SignatureIdentity | undefined;
+    try {
+      identity = getIdentityFromOptions(options);
+    } catch (e) {
+      console.error(e.message);
+      return false;
+    }
+    if (identity === undefined && !options.deny) {
+      console.error(
+        "one of --keybase, --pgp-url, --pgp-fingerprint, --ssh or --ed25519 must be specified"
+      );
+      return false;
+    }
+
+    for (let date of [options.validFrom, options.validUntil]) {
+      if (date && isNaN(new Date(date).getTime())) {
+        console.error("'" + date + "' is not a valid date");
+        return false;
+      }
+    }
+    const constraints: TrustConstraints = {
+      validFrom: options.validFrom || undefined,
+      validUntil: options.validUntil || undefined,
+      fingerprints: options.fingerprint
+        ? options.fingerprint.split(",").map(normalizeFingerprint)
+        : undefined
+    };
+
+    const trustStore = new TrustStore();
+    const identityString =
+      identity === undefined ? "any identity" : identityToString(identity);
+    if (options.deny) {
+      await trustStore.addTrustRule({
+        pattern: pattern,
+        identity: identity,
+        deny: true,
+        ...constraints
+      });
+      console.log(
+        "'" + pattern + "' is now denied when signed by " + identityString
+      );
+    } else if (identity !== undefined && pattern.indexOf("*") !== -1) {
+      await trustStore.addTrustRule({
+        pattern: pattern,
+        identity: identity,
+        ...constraints
+      });
+      console.log(
+        "packages matching '" +
+          pattern +
+          "' are now trusted when signed by " +
+          identityString
+      );
+    } else if (identity !== undefined) {
+      await trustStore.addTrusted(identity, pattern, constraints);
+      console.log(
+        "'" + pattern + "' is now trusted when signed by " + identityString
+      );
+    }
+    return true;
+  }
+}
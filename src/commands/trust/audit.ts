@@ -0,0 +1,150 @@
+import { Command, command, metadata, Options, option } from "clime";
+import {
+  TrustStore,
+  CachedData,
+  ITrustStore,
+  LayeredTrustStore
+} from "../../lib/trustStore";
+import { PolicyTrustStore, findTrustPolicy } from "../../lib/trustPolicy";
+import { TrustRule, formatTrustRules } from "../../lib/trustRules";
+import { SignatureIdentity } from "../../lib/types";
+import { describePgpPublicKeys } from "../../lib/identity/pgp";
+import { getKeybasePublicKeyUrl } from "../../lib/identity/keybase";
+import {
+  SourcedRevocation,
+  loadRevocations,
+  findRevocation,
+  formatRevocation
+} from "../../lib/revocationList";
+
+/**
+ * Returns the fingerprints of the keys that an identity is known to sign with,
+ * from the identity itself and from its cached public keys.
+ *
+ * @param identity The identity.
+ * @param cachedPublicKeys The cached public keys, keyed by cache name.
+ */
+async function getKnownFingerprints(
+  identity: SignatureIdentity,
+  cachedPublicKeys: { [cacheName: string]: CachedData }
+): Promise<string[]> {
+  if (identity.pgpFingerprint !== undefined) {
+    return [identity.pgpFingerprint];
+  } else if (identity.ed25519Fingerprint !== undefined) {
+    return [identity.ed25519Fingerprint];
+  }
+
+  const url =
+    identity.keybaseUser !== undefined
+      ? getKeybasePublicKeyUrl(identity.keybaseUser)
+      : identity.pgpPublicKeyUrl;
+  let fingerprints: string[] = [];
+  for (let cacheName in cachedPublicKeys) {
+    const cachedData = cachedPublicKeys[cacheName];
+    if (url === undefined || cachedData.source != url) {
+      continue;
+    }
+    try {
+      for (let key of await describePgpPublicKeys(cachedData.data)) {
+        fingerprints.push(key.fingerprint);
+      }
+    } catch (e) {
+      // unreadable public keys can't be matched against revocations.
+    }
+  }
+  return fingerprints;
+}
+
+export class TrustAuditOptions extends Options {
+  @option({
+    name: "policy",
+    description:
+      "path to a trust policy file to audit as well; defaults to .pkgsignrc.json in the current directory if it exists"
+  })
+  policyPath: string = "";
+}
+
+@command({
+  description:
+    "list the trusted packages and patterns whose identities or keys have been revoked"
+})
+export default class extends Command {
+  @metadata
+  public async execute(options: TrustAuditOptions): Promise<void> {
+    const personalTrustStore = new TrustStore();
+
+    // Trust granted by the project's trust policy is audited together with
+    // the user's own trust store, as it is layered on top of it in verify.
+    let trustStore: ITrustStore = personalTrustStore;
+    const policyPath = options.policyPath || findTrustPolicy(process.cwd());
+    if (policyPath) {
+      trustStore = new LayeredTrustStore(personalTrustStore, [
+        new PolicyTrustStore(policyPath)
+      ]);
+    }
+
+    const revocations = await loadRevocations(trustStore);
+    const cachedPublicKeys = await personalTrustStore.listCachedPublicKeys();
+    const rules: TrustRule[] = [
+      ...(await trustStore.listTrusted()).map(trustedPackage => ({
+        pattern: trustedPackage.packageName,
+        identity: trustedPackage.identity,
+        validFrom: trustedPackage.validFrom,
+        validUntil: trustedPackage.validUntil,
+        fingerprints: trustedPackage.fingerprints
+      })),
+      ...(await trustStore.listTrustRules())
+    ];
+
+    let affected = 0;
+    for (let rule of rules) {
+      if (rule.deny || rule.identity === undefined) {
+        continue;
+      }
+
+      // If trust is pinned to specific keys, only those keys matter.
+      const fingerprints =
+        rule.fingerprints !== undefined && rule.fingerprints.length > 0
+          ? rule.fingerprints
+          : await getKnownFingerprints(rule.identity, cachedPublicKeys);
+      let ruleRevocations: SourcedRevocation[] = [];
+      for (let fingerprint of [undefined, ...fingerprints]) {
+        const revocation = findRevocation(
+          revocations,
+          rule.identity,
+          fingerprint
+        );
+        if (revocation !== null && ruleRevocations.indexOf(revocation) == -1) {
+          ruleRevocations.push(revocation);
+        }
+      }
+      if (ruleRevocations.length == 0) {
+        continue;
+      }
+
+      affected++;
+      console.log(formatTrustRules([rule]));
+      for (let revocation of ruleRevocations) {
+        console.log(
+          "  " +
+            formatRevocation(revocation) +
+            ", according to " +
+            revocation.source
+        );
+      }
+    }
+
+    if (affected == 0) {
+      console.log("no trusted packages are affected by revocations");
+      process.exitCode = 0;
+    } else {
+      console.error(
+        affected +
+          " trusted package" +
+          (affected == 1 ? " or pattern is" : "s or patterns are") +
+          " affected by revocations"
+      );
+      process.exitCode = 1;
+    }
+  }
+}
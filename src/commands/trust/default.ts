@@ -0,0 +1,4 @@
+export const description =
+  "list, add, remove, show and audit trusted identities";
+
+export const brief = "manage trusted identities";
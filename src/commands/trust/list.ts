@@ -0,0 +1,30 @@
+import { Command, command, metadata } from "clime";
+import { TrustStore } from "../../lib/trustStore";
+import { TrustRule, formatTrustRules } from "../../lib/trustRules";
+
+@command({
+  description:
+    "list all packages and patterns, and the identities trusted to sign them"
+})
+export default class extends Command {
+  @metadata
+  public async execute(): Promise<void> {
+    const trustStore = new TrustStore();
+    const rules: TrustRule[] = [
+      ...(await trustStore.listTrusted()).map(trustedPackage => ({
+        pattern: trustedPackage.packageName,
+        identity: trustedPackage.identity,
+        validFrom: trustedPackage.validFrom,
+        validUntil: trustedPackage.validUntil,
+        fingerprints: trustedPackage.fingerprints
+      })),
+      ...(await trustStore.listTrustRules())
+    ];
+    if (rules.length == 0) {
+      console.log("no packages are trusted");
+      return;
+    }
+
+    console.log(formatTrustRules(rules));
+  }
+}
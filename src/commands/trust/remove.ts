@@ -0,0 +1,92 @@
+import { Command, command, param, Options, option } from "clime";
+import { TrustStore } from "../../lib/trustStore";
+import { SignatureIdentity, identityToString } from "../../lib/types";
+import {
+  IdentityOptions,
+  getIdentityFromOptions
+} from "../../lib/identity/options";
+
+export class TrustRemoveOptions extends Options implements IdentityOptions {
+  @option({
+    name: "keybase",
+    description:
+      "only stop trusting the specified keybase.io user to sign the package"
+  })
+  keybaseUser: string = "";
+  @option({
+    name: "pgp-url",
+    description:
+      "only stop trusting the PGP public key at the specified HTTPS URL to sign the package"
+  })
+  pgpPublicKeyUrl: string = "";
+  @option({
+    name: "pgp-fingerprint",
+    description:
+      "only stop trusting the PGP public key with the specified fingerprint to sign the package"
+  })
+  pgpFingerprint: string = "";
+  @option({
+    name: "ssh",
+    description:
+      "only stop trusting the specified SSH principal to sign the package"
+  })
+  sshPrincipal: string = "";
+  @option({
+    name: "ed25519",
+    description:
+      "only stop trusting the Ed25519 public key with the specified fingerprint to sign the package"
+  })
+  ed25519Fingerprint: string = "";
+}
+
+@command({
+  description:
+    "remove trust (and deny rules) for a package or a package name pattern"
+})
+export default class extends Command {
+  public async execute(
+    @param({
+      name: "package|pattern",
+      description:
+        "name of the package, such as 'lodash' or '@scope/pkg', or a pattern such as '@scope/*'",
+      required: true
+    })
+    pattern: string,
+    options: TrustRemoveOptions
+  ): Promise<void> {
+    let identity: SignatureIdentity | undefined;
+    try {
+      identity = getIdentityFromOptions(options);
+    } catch (e) {
+      console.error(e.message);
+      process.exitCode = 1;
+      return;
+    }
+
+    // `trust add` writes patterns (and deny rules) as trust rules, and
+    // trusts identities for single packages in trust files, so look in both.
+    // If an identity is specified, only that identity is removed.
+    const trustStore = new TrustStore();
+    let removed = await trustStore.removeTrustRules(pattern, identity);
+    if (pattern.indexOf("*") === -1) {
+      removed = (await trustStore.removeTrusted(pattern, identity)) || removed;
+    }
+
+    if (removed && identity !== undefined) {
+      console.log(
+        "removed trust in " +
+          identityToString(identity) +
+          " for '" +
+          pattern +
+          "'"
+      );
+      process.exitCode = 0;
+    } else if (removed) {
+      console.log("removed trust for '" + pattern + "'");
+      process.exitCode = 0;
+    } else {
+      console.error("'" + pattern + "' does not have any matching trust");
+      process.exitCode = 1;
+    }
+  }
+}
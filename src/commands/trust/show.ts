@@ -0,0 +1,39 @@
+import { Command, command, param } from "clime";
+import { TrustStore } from "../../lib/trustStore";
+import { formatTrustRules, getPatternSpecificity } from "../../lib/trustRules";
+
+@command({
+  description: "show the trust rules that apply to a package"
+})
+export default class extends Command {
+  public async execute(
+    @param({
+      name: "package",
+      description: "name of the package, such as 'lodash' or '@scope/pkg'",
+      required: true
+    })
+    packageName: string
+  ): Promise<void> {
+    const rules = await new TrustStore().getTrustRulesForPackage(packageName);
+    if (rules.length == 0) {
+      console.error("'" + packageName + "' is not trusted");
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(
+      "trust rules that apply to '" +
+        packageName +
+        "', most specific first (deny wins over allow when equally specific):"
+    );
+    console.log(
+      formatTrustRules(
+        rules.sort(
+          (a, b) =>
+            getPatternSpecificity(b.pattern) - getPatternSpecificity(a.pattern)
+        )
+      )
+    );
+    process.exitCode = 0;
+  }
+}
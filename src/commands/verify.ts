@@ -3,16 +3,45 @@ import { lstatSync } from "fs";
 import { ModuleHierarchyVerifier } from "../lib/moduleHierarchyVerifier";
 import { ModuleVerifier } from "../lib/moduleVerifier";
 import * as inquirer from "inquirer";
-import * as path from "path";
 import { basename } from "path";
-import { TrustStore, TestTrustStore } from "../lib/trustStore";
+import {
+  TrustStore,
+  TestTrustStore,
+  ITrustStore,
+  LayeredTrustStore
+} from "../lib/trustStore";
+import { PolicyTrustStore, findTrustPolicy } from "../lib/trustPolicy";
 import { queueTelemetryFromModuleVerificationResult } from "../lib/telemetry";
+import { readTarball } from "../lib/vfs/tarballFileSystem";
+import { readFilePromise } from "../lib/util/fsPromise";
+import {
+  RegistryTarball,
+  fetchRegistryTarball,
+  loadNpmrc,
+  parsePackageSpec
+} from "../lib/npmRegistry";
+import {
+  ModuleVerificationResult,
+  ModuleVerificationStatus,
+  SignatureIdentity,
+  getPackageScope,
+  identityToString
+} from "../lib/types";
 import {
-  createWorkingDirectory,
-  decompress,
-  recursivePromise
-} from "../lib/util/fsPromise";
-import { ModuleVerificationStatus } from "../lib/types";
+  createVerificationReport,
+  formatVerificationSummary
+} from "../lib/verificationReport";
+import { IReporter } from "../lib/reporters";
+import { availableReportersByName } from "../lib/reporters/registry";
+import { logProgress, redirectProgressToStderr } from "../lib/util/progress";
+import { ILayoutResolver } from "../lib/layouts";
+import { availableLayoutResolversByName } from "../lib/layouts/registry";
+import {
+  LockfileFinding,
+  findLockfile,
+  describeLockfileFinding
+} from "../lib/lockfile";
+import { Workspace, findWorkspaces } from "../lib/workspaces";
 
 export class VerifyOptions extends Options {
   @option({
@@ -29,7 +58,8 @@ export class VerifyOptions extends Options {
   nonInteractive: boolean = false;
   @option({
     name: "package-name",
-    description: "if verifying a tarball, this is the expected package name"
+    description:
+      "if verifying a tarball, this is the expected package name (packages downloaded from a registry are expected to have the name they were requested by)"
   })
   packageName: string = "";
   @option({
@@ -44,6 +74,59 @@ export class VerifyOptions extends Options {
     description: "verify doesn't fail on unsigned packages"
   })
   allowUnsignedPackages: boolean = false;
+  @option({
+    name: "policy",
+    description:
+      "path to a trust policy file; defaults to .pkgsignrc.json in the package directory (or the current directory for tarballs) if it exists"
+  })
+  policyPath: string = "";
+  @option({
+    name: "offline",
+    toggle: true,
+    description:
+      "never fetch public keys; use the cached public keys (even if they have expired), and fail if they are not cached"
+  })
+  offline: boolean = false;
+  @option({
+    name: "lockfile",
+    toggle: true,
+    description:
+      "check that the installed packages match package-lock.json, npm-shrinkwrap.json or yarn.lock in the package directory"
+  })
+  lockfile: boolean = false;
+  @option({
+    name: "workspaces",
+    toggle: true,
+    description:
+      "verify every workspace of the monorepo in the package directory, each with its own dependencies"
+  })
+  workspaces: boolean = false;
+  @option({
+    name: "signature",
+    description:
+      "path to a detached signature (as written by 'pkgsign sign --detached') to verify the package against, instead of its signature.json"
+  })
+  signature: string = "";
+  @option({
+    name: "layout",
+    description:
+      "how the installed packages are laid out, one of: 'auto' (default), 'classic' (npm and Yarn classic), 'pnpm' or 'pnp' (Yarn Plug'n'Play)",
+    default: "auto"
+  })
+  layout: string = "auto";
+  @option({
+    name: "reporter",
+    description:
+      "the output format, one of: 'text' (default), 'json', 'sarif' or 'junit'; anything other than 'text' implies --non-interactive",
+    default: "text"
+  })
+  reporter: string = "text";
+  @option({
+    name: "format",
+    description: "alias for --reporter",
+    default: "text"
+  })
+  format: string = "text";
 }
 
 @command({
@@ -52,8 +135,9 @@ export class VerifyOptions extends Options {
 export default class extends Command {
   public async execute(
     @param({
-      name: "pkgdir|tarball",
-      description: "path to package directory or tarball",
+      name: "pkgdir|tarball|npm:name@version",
+      description:
+        "path to package directory or tarball, or a package to download from its registry",
       required: false
     })
     path: string,
@@ -75,35 +159,228 @@ export default class extends Command {
       path = ".";
     }
 
-    if (path.endsWith(".tgz") && lstatSync(path).isFile()) {
-      return await this.verifyTarball(path, options);
+    const reporterName =
+      options.reporter != "text" ? options.reporter : options.format;
+    let reporter: IReporter | null = null;
+    if (reporterName != "text") {
+      const selectedReporter = availableReportersByName.get(reporterName);
+      if (selectedReporter === undefined) {
+        throw new Error("Not supported reporter: " + reporterName);
+      }
+      reporter = selectedReporter;
+
+      // Keep stdout clean so the report can be piped to other tools.
+      redirectProgressToStderr();
+      options.nonInteractive = true;
+    }
+
+    let detachedSignature: string | undefined = undefined;
+    if (options.signature) {
+      if (options.workspaces) {
+        console.error(
+          "--signature can't be used with --workspaces, because a detached signature only signs one package"
+        );
+        return false;
+      }
+      try {
+        detachedSignature = await readFilePromise(options.signature);
+      } catch (e) {
+        console.error("unable to read the detached signature: " + e.message);
+        return false;
+      }
+    }
+
+    // Installed packages, lockfiles and workspaces are only found in package
+    // directories, so these options can't be used with tarballs.
+    const isTarball =
+      path.startsWith("npm:") ||
+      (path.endsWith(".tgz") && lstatSync(path).isFile());
+    const directoryOptions: { [name: string]: boolean } = {
+      "--lockfile": options.lockfile,
+      "--workspaces": options.workspaces,
+      "--layout": options.layout != "auto"
+    };
+    for (let name in directoryOptions) {
+      if (isTarball && directoryOptions[name]) {
+        console.error(
+          name +
+            " can't be used when verifying a tarball or a package from a registry, because it only applies to package directories"
+        );
+        return false;
+      }
+    }
+
+    // Packages can also be verified straight from their registry, such as
+    // `npm:lodash@4.17.21`.
+    if (path.startsWith("npm:")) {
+      const packageSpec = parsePackageSpec(path);
+      if (packageSpec === null) {
+        console.error(
+          "invalid package: " + path + " (expected npm:name@version)"
+        );
+        return false;
+      }
+      let registryTarball: RegistryTarball;
+      try {
+        registryTarball = await fetchRegistryTarball(
+          packageSpec,
+          await loadNpmrc(process.cwd())
+        );
+      } catch (e) {
+        console.error(e.message);
+        return false;
+      }
+      return await this.verifyTarball(
+        registryTarball.path,
+        registryTarball.name,
+        options,
+        reporter,
+        detachedSignature
+      );
+    }
+
+    if (isTarball) {
+      return await this.verifyTarball(
+        path,
+        options.packageName || "",
+        options,
+        reporter,
+        detachedSignature
+      );
+    } else {
+      return await this.verifyDirectory(
+        path,
+        options,
+        reporter,
+        detachedSignature
+      );
+    }
+  }
+
+  private createTrustStore(
+    options: VerifyOptions,
+    projectDir: string
+  ): ITrustStore {
+    const trustStore = options.enableTestTrustStore
+      ? new TestTrustStore()
+      : new TrustStore(options.offline);
+
+    // Trust granted by the project's trust policy is layered on top of the
+    // user's own trust store.
+    const policyPath = options.policyPath || findTrustPolicy(projectDir);
+    if (policyPath) {
+      return new LayeredTrustStore(trustStore, [
+        new PolicyTrustStore(policyPath)
+      ]);
+    }
+    return trustStore;
+  }
+
+  private createTrustQuestion(
+    name: string,
+    packageName: string,
+    identity: SignatureIdentity
+  ): inquirer.Question {
+    let identityString = "";
+    if (identity.keybaseUser !== undefined) {
+      identityString = identity.keybaseUser + " on keybase.io";
+    } else if (identity.pgpPublicKeyUrl !== undefined) {
+      identityString = "public key at " + identity.pgpPublicKeyUrl;
     } else {
-      return await this.verifyDirectory(path, options);
+      identityString = identityToString(identity);
+    }
+
+    const scope = getPackageScope(packageName);
+    if (scope === null) {
+      return {
+        name: name,
+        type: "confirm",
+        message:
+          "Package '" +
+          packageName +
+          "' is not trusted, but is signed by " +
+          identityString +
+          ". " +
+          "Do you want to trust this identity to sign '" +
+          packageName +
+          "' now and forever",
+        default: false
+      };
+    }
+
+    // Scoped packages are usually published by the same identity, so offer to
+    // trust the identity for the whole scope.
+    return {
+      name: name,
+      type: "list",
+      message:
+        "Package '" +
+        packageName +
+        "' is not trusted, but is signed by " +
+        identityString +
+        ". " +
+        "Do you want to trust this identity now and forever",
+      choices: [
+        { name: "No", value: "none" },
+        { name: "Yes, to sign '" + packageName + "'", value: "package" },
+        {
+          name: "Yes, to sign every package in the '" + scope + "' scope",
+          value: "scope"
+        }
+      ],
+      default: "none"
+    };
+  }
+
+  private async grantTrust(
+    answer: boolean | string,
+    packageName: string,
+    identity: SignatureIdentity,
+    keyFingerprint: string | undefined
+  ): Promise<boolean> {
+    // Pin trust to the key that made the signature, so that a different key
+    // served for the same identity later is reported as a key change.
+    const fingerprints =
+      keyFingerprint !== undefined ? [keyFingerprint] : undefined;
+    let trustStore = new TrustStore();
+    if (answer === true || answer === "package") {
+      await trustStore.addTrusted(identity, packageName, {
+        fingerprints: fingerprints
+      });
+      return true;
+    } else if (answer === "scope") {
+      await trustStore.addTrustRule({
+        pattern: getPackageScope(packageName) + "/*",
+        identity: identity,
+        fingerprints: fingerprints
+      });
+      return true;
     }
+    return false;
   }
 
   private async verifyTarball(
     tarballPath: string,
-    options: VerifyOptions
+    expectedPackageName: string,
+    options: VerifyOptions,
+    reporter: IReporter | null,
+    detachedSignature: string | undefined
   ): Promise<boolean> {
-    const wd = await createWorkingDirectory();
-    console.log("extracting unsigned tarball...");
-    await decompress(tarballPath, wd);
-
-    console.log("building file list...");
-    const base = path.join(wd, "package");
-    const files = (await recursivePromise(base)).map(fullPath =>
-      fullPath.substr(base.length + 1).replace(/\\/g, "/")
-    );
+    // The tarball is read without extracting it; the files are hashed as
+    // they are read, and only package.json and signature.json are kept.
+    logProgress("reading tarball...");
+    const tarball = await readTarball(tarballPath);
+    const files = tarball.getFilePaths();
 
-    console.log("verifying package...");
+    logProgress("verifying package...");
     const moduleVerifier = new ModuleVerifier(
-      options.enableTestTrustStore ? new TestTrustStore() : new TrustStore()
+      this.createTrustStore(options, ".")
     );
     let result = await moduleVerifier.verify(
-      base,
+      tarball,
       files,
-      options.packageName || ""
+      expectedPackageName,
+      detachedSignature
     );
 
     queueTelemetryFromModuleVerificationResult("verify-module", result);
@@ -113,37 +390,21 @@ export default class extends Command {
       result.status == ModuleVerificationStatus.Untrusted &&
       !options.nonInteractive
     ) {
-      let identityString = "";
-      if (result.untrustedIdentity.keybaseUser !== undefined) {
-        identityString =
-          result.untrustedIdentity.keybaseUser + " on keybase.io";
-      } else {
-        identityString =
-          "public key at " + result.untrustedIdentity.pgpPublicKeyUrl;
-      }
       const trustResults = await inquirer.prompt([
-        {
-          name: "pkg",
-          type: "confirm",
-          message:
-            "Package '" +
-            result.packageName +
-            "' is not trusted, but is signed by " +
-            identityString +
-            ". " +
-            "Do you want to trust this identity to sign '" +
-            result.packageName +
-            "' now and forever",
-          default: false
-        }
-      ] as inquirer.ConfirmQuestion<{ pkg: boolean }>[]);
-      let trustStore = new TrustStore();
-      if (trustResults["pkg"]) {
-        await trustStore.addTrusted(
+        this.createTrustQuestion(
+          "pkg",
+          result.packageName,
+          result.untrustedIdentity
+        )
+      ]);
+      if (
+        await this.grantTrust(
+          trustResults["pkg"],
+          result.packageName,
           result.untrustedIdentity,
-          result.packageName
-        );
-
+          result.keyFingerprint
+        )
+      ) {
         if (!result.isPrivate) {
           queueTelemetryFromModuleVerificationResult("grant-trust", result);
         }
@@ -154,12 +415,19 @@ export default class extends Command {
       }
 
       result = await moduleVerifier.verify(
-        base,
+        tarball,
         files,
-        options.packageName || ""
+        expectedPackageName,
+        detachedSignature
       );
     }
 
+    if (reporter !== null) {
+      const report = createVerificationReport({ [tarballPath]: result }, false);
+      console.log(reporter.generateReport(report));
+      return report.success;
+    }
+
     switch (result.status) {
       case ModuleVerificationStatus.Compromised:
         console.log("package is compromised: " + result.reason);
@@ -173,33 +441,35 @@ export default class extends Command {
       case ModuleVerificationStatus.Trusted:
         console.log("package is trusted");
         return true;
+      case ModuleVerificationStatus.KeyChanged:
+        console.log("package is signed with a changed key: " + result.reason);
+        return false;
+      case ModuleVerificationStatus.Expired:
+        console.log("package signature has expired: " + result.reason);
+        return false;
+      case ModuleVerificationStatus.Unverifiable:
+        console.log("package could not be verified: " + result.reason);
+        return false;
     }
   }
 
-  private async verifyDirectory(
-    path: string,
+  /**
+   * Verifies a package and its dependencies, and prompts to trust the
+   * identities that signed untrusted packages.
+   *
+   * @param moduleHierarchyVerifier The verifier for the package.
+   * @param options The verify command options.
+   */
+  private async verifyHierarchy(
+    moduleHierarchyVerifier: ModuleHierarchyVerifier,
     options: VerifyOptions
-  ): Promise<boolean> {
-    // Telemetry sending is done directly inside ModuleHierarchyVerifier, per package.
-
-    let moduleHierarchyVerifier = new ModuleHierarchyVerifier(
-      path,
-      options.enableTestTrustStore ? new TestTrustStore() : new TrustStore()
-    );
+  ): Promise<{ [path: string]: ModuleVerificationResult }> {
     let results = await moduleHierarchyVerifier.verify();
 
-    let prompts: inquirer.ConfirmQuestion<{ [id: string]: boolean }>[] = [];
+    let prompts: inquirer.Question[] = [];
     for (let path in results) {
       let result = results[path];
       if (result.status == ModuleVerificationStatus.Untrusted) {
-        let identityString = "";
-        if (result.untrustedIdentity.keybaseUser !== undefined) {
-          identityString =
-            result.untrustedIdentity.keybaseUser + " on keybase.io";
-        } else {
-          identityString =
-            "public key at " + result.untrustedIdentity.pgpPublicKeyUrl;
-        }
         if (
           prompts.filter(
             value =>
@@ -207,20 +477,13 @@ export default class extends Command {
               basename(value.name) == result.packageName
           ).length == 0
         ) {
-          prompts.push({
-            name: Buffer.from(path).toString("base64"),
-            type: "confirm",
-            message:
-              "Package '" +
-              result.packageName +
-              "' is not trusted, but is signed by " +
-              identityString +
-              ". " +
-              "Do you want to trust this identity to sign '" +
-              result.packageName +
-              "' now and forever",
-            default: false
-          } as inquirer.ConfirmQuestion<{ [id: string]: boolean }>);
+          prompts.push(
+            this.createTrustQuestion(
+              Buffer.from(path).toString("base64"),
+              result.packageName,
+              result.untrustedIdentity
+            )
+          );
         }
       }
     }
@@ -228,16 +491,18 @@ export default class extends Command {
     if (prompts.length > 0 && !options.nonInteractive) {
       let didModify = false;
       const trustResults = await inquirer.prompt(prompts);
-      let trustStore = new TrustStore();
       for (let path in trustResults) {
         let realpath = Buffer.from(path, "base64").toString("ascii");
         const result = results[realpath];
         if (result.status == ModuleVerificationStatus.Untrusted) {
-          if (trustResults[path]) {
-            await trustStore.addTrusted(
+          if (
+            await this.grantTrust(
+              trustResults[path],
+              result.packageName,
               result.untrustedIdentity,
-              result.packageName
-            );
+              result.keyFingerprint
+            )
+          ) {
             didModify = true;
 
             if (!result.isPrivate) {
@@ -260,35 +525,143 @@ export default class extends Command {
       }
     }
 
-    // Show summary of packages.
-    let compromisedCount = 0;
-    let unsignedCount = 0;
-    let untrustedCount = 0;
-    let trustedCount = 0;
+    return results;
+  }
 
-    for (let path in results) {
-      let result = results[path];
-      switch (result.status) {
-        case ModuleVerificationStatus.Compromised:
-          compromisedCount++;
-          break;
-        case ModuleVerificationStatus.Unsigned:
-          unsignedCount++;
-          break;
-        case ModuleVerificationStatus.Untrusted:
-          untrustedCount++;
-          break;
-        case ModuleVerificationStatus.Trusted:
-          trustedCount++;
-          break;
+  private async verifyDirectory(
+    path: string,
+    options: VerifyOptions,
+    reporter: IReporter | null,
+    detachedSignature: string | undefined
+  ): Promise<boolean> {
+    // Telemetry sending is done directly inside ModuleHierarchyVerifier, per package.
+
+    let layoutResolver: ILayoutResolver | null = null;
+    if (options.layout != "auto") {
+      const selectedLayoutResolver = availableLayoutResolversByName.get(
+        options.layout
+      );
+      if (selectedLayoutResolver === undefined) {
+        throw new Error("Not supported layout: " + options.layout);
+      }
+      layoutResolver = selectedLayoutResolver;
+    }
+
+    // In a monorepo, each workspace is verified as a package of its own, with
+    // its own dependencies. Workspaces that are linked into node_modules are
+    // not verified as dependencies.
+    let workspaces: Workspace[] = [];
+    if (options.workspaces) {
+      workspaces = await findWorkspaces(path);
+      if (workspaces.length == 0) {
+        console.error(
+          "--workspaces was specified, but there are no workspaces in " + path
+        );
+        return false;
+      }
+    }
+    const workspaceDirs = workspaces.map(workspace => workspace.path);
+
+    const trustStore = this.createTrustStore(options, path);
+    let moduleHierarchyVerifier = new ModuleHierarchyVerifier(
+      path,
+      trustStore,
+      layoutResolver,
+      workspaceDirs,
+      detachedSignature !== undefined ? detachedSignature : null
+    );
+    const rootResults = await this.verifyHierarchy(
+      moduleHierarchyVerifier,
+      options
+    );
+    let results = rootResults;
+
+    let workspaceResults: {
+      [workspaceName: string]: { [path: string]: ModuleVerificationResult };
+    } = {};
+    for (let workspace of workspaces) {
+      logProgress("verifying workspace " + workspace.name + "...");
+      workspaceResults[workspace.name] = await this.verifyHierarchy(
+        new ModuleHierarchyVerifier(
+          workspace.path,
+          trustStore,
+          layoutResolver,
+          workspaceDirs.filter(workspaceDir => workspaceDir != workspace.path)
+        ),
+        options
+      );
+      results = { ...results, ...workspaceResults[workspace.name] };
+    }
+
+    let lockfileFindings: LockfileFinding[] = [];
+    if (options.lockfile) {
+      const lockfilePath = findLockfile(path);
+      if (lockfilePath === null) {
+        console.error(
+          "--lockfile was specified, but there is no package-lock.json, npm-shrinkwrap.json or yarn.lock in " +
+            path
+        );
+        return false;
+      }
+      logProgress(
+        "checking installed packages against " + lockfilePath + "..."
+      );
+      lockfileFindings = await moduleHierarchyVerifier.checkLockfile(
+        lockfilePath
+      );
+    }
+
+    const report = createVerificationReport(
+      results,
+      options.allowUnsignedPackages,
+      lockfileFindings
+    );
+
+    if (reporter !== null) {
+      console.log(reporter.generateReport(report));
+      return report.success;
+    }
+
+    if (workspaces.length > 0) {
+      console.log("workspace verification summary:");
+      console.log(
+        basename(path) +
+          " (root): " +
+          formatVerificationSummary(
+            createVerificationReport(rootResults, options.allowUnsignedPackages)
+              .summary
+          )
+      );
+      for (let workspace of workspaces) {
+        console.log(
+          workspace.name +
+            ": " +
+            formatVerificationSummary(
+              createVerificationReport(
+                workspaceResults[workspace.name],
+                options.allowUnsignedPackages
+              ).summary
+            )
+        );
       }
+      console.log();
     }
 
+    // Show summary of packages.
     console.log("package verification summary:");
-    console.log(compromisedCount + " compromised");
-    console.log(unsignedCount + " unsigned");
-    console.log(untrustedCount + " untrusted");
-    console.log(trustedCount + " trusted");
+    console.log(report.summary.compromised + " compromised");
+    console.log(report.summary.unsigned + " unsigned");
+    console.log(report.summary.untrusted + " untrusted");
+    console.log(report.summary.trusted + " trusted");
+    console.log(report.summary.keyChanged + " key changed");
+    console.log(report.summary.expired + " expired");
+    console.log(report.summary.unverifiable + " unverifiable");
+    if (options.lockfile) {
+      console.log(lockfileFindings.length + " lockfile mismatches");
+      for (let finding of lockfileFindings) {
+        console.log("  " + describeLockfileFinding(finding));
+      }
+    }
 
     if (options.full) {
       let targetLength = 0;
@@ -308,6 +681,7 @@ export default class extends Command {
       for (let path in results) {
         let result = results[path];
         let status = "unknown";
+        let reason = result.reason || "";
         switch (result.status) {
           case ModuleVerificationStatus.Compromised:
             status = "compromised!";
@@ -320,6 +694,21 @@ export default class extends Command {
             break;
           case ModuleVerificationStatus.Trusted:
             status = "trusted";
+            reason =
+              (result.signingIdentities !== undefined
+                ? result.signingIdentities.map(identityToString).join(", ")
+                : identityToString(result.trustedIdentity)) +
+              " trusted by " +
+              result.trustSource;
+            break;
+          case ModuleVerificationStatus.KeyChanged:
+            status = "key changed!";
+            break;
+          case ModuleVerificationStatus.Expired:
+            status = "expired!";
+            break;
+          case ModuleVerificationStatus.Unverifiable:
+            status = "unverifiable!";
             break;
         }
         console.log(
@@ -327,19 +716,11 @@ export default class extends Command {
             " " +
             padRight(status, 25) +
             " " +
-            (result.reason || "")
+            reason
         );
       }
     }
 
-    if (
-      compromisedCount > 0 ||
-      (!options.allowUnsignedPackages && unsignedCount > 0) ||
-      untrustedCount > 0
-    ) {
-      return false;
-    } else {
-      return true;
-    }
+    return report.success;
   }
 }
@@ -0,0 +1,41 @@
+import { CachedData } from "./trustStore";
+import { describePgpPublicKeys } from "./identity/pgp";
+
+/**
+ * Returns when cached public keys expire, for display to the user.
+ *
+ * @param cachedData The cached public keys.
+ */
+export function describeCacheExpiry(cachedData: CachedData): string {
+  if (cachedData.expiryUtc === null) {
+    return "never expires";
+  }
+  const expiry = new Date(cachedData.expiryUtc * 1000);
+  return (
+    (expiry.getTime() > Date.now() ? "expires " : "expired ") +
+    expiry.toISOString()
+  );
+}
+
+/**
+ * Returns the fingerprints of cached public keys, or a description of why
+ * there are no public keys.
+ *
+ * @param cachedData The cached public keys.
+ */
+export async function describeCachedFingerprints(
+  cachedData: CachedData
+): Promise<string> {
+  if (cachedData.error !== undefined && cachedData.data === "") {
+    return "fetch failed: " + cachedData.error;
+  }
+  try {
+    const keys = await describePgpPublicKeys(cachedData.data);
+    if (keys.length == 0) {
+      return "no public keys";
+    }
+    return keys.map(key => key.fingerprint).join(", ");
+  } catch (e) {
+    return "unreadable public keys";
+  }
+}
@@ -0,0 +1,136 @@
+import * as path from "path";
+import { readFilePromise } from "./util/fsPromise";
+
+/**
+ * The name of the configuration file, which is stored in the trust store
+ * folder (`~/.pkgsign-trust-store`).
+ */
+export const configFilename = "config.json";
+
+export interface PublicKeyCacheConfig {
+  // How long fetched public keys are cached for, keyed by identity type
+  // (such as "keybase" or "pgp"). Each value is a number of seconds, or
+  // "never" if the public keys never expire. Identity types that are not
+  // listed use "default", or 24 hours if there is no default.
+  ttl?: { [identityType: string]: number | "never" };
+
+  // How long, in seconds, failed fetches are remembered for; pkgsign won't
+  // try to fetch the same public keys again until this time has passed. This
+  // also limits how often public keys are refetched when a signature doesn't
+  // verify with the cached public keys.
+  negativeTtl?: number;
+}
+
+export interface PgpKeyringConfig {
+  // Directories containing ASCII armored PGP public keys (`.asc` files).
+  // Defaults to the `keyring` folder in the trust store folder.
+  directories?: string[];
+
+  // ASCII armored PGP public key files.
+  files?: string[];
+}
+
+export interface SshConfig {
+  // Allowed signers files, in the format used by `ssh-keygen -Y verify`.
+  // Defaults to the `allowed_signers` file in the trust store folder.
+  allowedSignersFiles?: string[];
+}
+
+export interface Ed25519Config {
+  // Directories containing Ed25519 public keys (`.pem` and `.jwk` files).
+  // Defaults to the `ed25519` folder in the trust store folder.
+  directories?: string[];
+
+  // Ed25519 public key files, as PEMs or JWKs.
+  files?: string[];
+}
+
+export interface RevocationsConfig {
+  // Revocation list files, in addition to the `revocations.json` file in the
+  // trust store folder.
+  files?: string[];
+
+  // HTTPS URLs of revocation lists, which are cached like public keys.
+  urls?: string[];
+}
+
+export interface Config {
+  publicKeyCache?: PublicKeyCacheConfig;
+  pgpKeyring?: PgpKeyringConfig;
+  ssh?: SshConfig;
+  ed25519?: Ed25519Config;
+  revocations?: RevocationsConfig;
+}
+
+const defaultPublicKeyCacheTtl = 60 * 60 * 24; // 24 hours
+const defaultNegativeCacheTtl = 60 * 10; // 10 minutes
+
+/**
+ * Loads the configuration file from the trust store folder, returning an empty
+ * configuration if there is no configuration file.
+ *
+ * @param trustStoreFolder The trust store folder.
+ */
+export async function loadConfig(trustStoreFolder: string): Promise<Config> {
+  const configPath = path.join(trustStoreFolder, configFilename);
+  let rawJson: string;
+  try {
+    rawJson = await readFilePromise(configPath);
+  } catch (e) {
+    if (e && e.code == "ENOENT") {
+      return {};
+    }
+    throw e;
+  }
+
+  let config: Config;
+  try {
+    config = JSON.parse(rawJson) as Config;
+  } catch (e) {
+    throw new Error("unable to parse " + configPath + ": " + e.message);
+  }
+
+  const ttl = (config.publicKeyCache || {}).ttl || {};
+  for (let identityType in ttl) {
+    if (ttl[identityType] !== "never" && !(ttl[identityType] >= 0)) {
+      throw new Error(
+        "invalid public key cache TTL for '" +
+          identityType +
+          "' in " +
+          configPath +
+          '; expected a number of seconds or "never"'
+      );
+    }
+  }
+  return config;
+}
+
+/**
+ * Returns how long public keys for an identity type are cached for, in
+ * seconds, or null if they never expire.
+ *
+ * @param config The configuration.
+ * @param identityType The identity type, such as "keybase" or "pgp".
+ */
+export function getPublicKeyCacheTtl(
+  config: Config,
+  identityType: string
+): number | null {
+  const ttl = (config.publicKeyCache || {}).ttl || {};
+  const value =
+    ttl[identityType] !== undefined ? ttl[identityType] : ttl["default"];
+  if (value === "never") {
+    return null;
+  }
+  return value !== undefined ? value : defaultPublicKeyCacheTtl;
+}
+
+/**
+ * Returns how long failed fetches are remembered for, in seconds.
+ *
+ * @param config The configuration.
+ */
+export function getNegativeCacheTtl(config: Config): number {
+  const negativeTtl = (config.publicKeyCache || {}).negativeTtl;
+  return negativeTtl !== undefined ? negativeTtl : defaultNegativeCacheTtl;
+}
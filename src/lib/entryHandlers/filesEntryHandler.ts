@@ -1,6 +1,4 @@
 import { IEntryHandler, generateCompromisedVerificationResult } from ".";
-import { join as pathJoin } from "path";
-import { sha512OfFile, readFilePromise } from "../util/fsPromise";
 import {
   ModuleVerificationStatus,
   ModuleVerificationResult,
@@ -30,7 +28,7 @@ export const FilesEntryHandler: IEntryHandler<FilesEntry> = {
     let entries: FileEntry[] = [];
     for (let relPath of context.relFilesOnDisk) {
       const normalisedPath = relPath.replace(/\\/g, "/");
-      if (normalisedPath == "signature.json") {
+      if (normalisedPath == "signature.json" && !context.detached) {
         // This file might be included in the Git repo to sign the contents of the
         // latest commit against Keybase or PGP, but it should never be included
         // in the signature (because we're about to replace it in the signed package
@@ -40,7 +38,7 @@ export const FilesEntryHandler: IEntryHandler<FilesEntry> = {
       if (normalisedPath == "package.json") {
         // This file will be included in it's own package entry.
         try {
-          JSON.parse(await readFilePromise(pathJoin(context.dir, relPath)));
+          JSON.parse(await context.fileSystem.readFile(relPath));
 
           // Skip package.json in files entry.
           continue;
@@ -48,7 +46,7 @@ export const FilesEntryHandler: IEntryHandler<FilesEntry> = {
           console.warn("unable to parse package.json as JSON for signing");
         }
       }
-      const hash = await sha512OfFile(pathJoin(context.dir, relPath));
+      const hash = await context.fileSystem.sha512OfFile(relPath);
       entries.push({
         path: normalisedPath,
         sha512: hash
@@ -75,7 +73,7 @@ export const FilesEntryHandler: IEntryHandler<FilesEntry> = {
     // the list of files the signature is signing for.
     for (let relFileOnDisk of context.relFilesOnDisk) {
       let normalisedPath = relFileOnDisk.replace(/\\/g, "/");
-      if (normalisedPath == "signature.json") {
+      if (normalisedPath == "signature.json" && !context.detached) {
         continue;
       }
       if (
@@ -102,7 +100,7 @@ export const FilesEntryHandler: IEntryHandler<FilesEntry> = {
         );
       }
 
-      const hash = await sha512OfFile(pathJoin(context.dir, normalisedPath));
+      const hash = await context.fileSystem.sha512OfFile(normalisedPath);
       if (hash != expectedHash) {
         return generateCompromisedVerificationResult(
           context,
@@ -116,7 +114,7 @@ export const FilesEntryHandler: IEntryHandler<FilesEntry> = {
     // We don't need to hash here because if there is a match we will have already
     // checked it in the for loop above.
     for (let fileEntry of value.files) {
-      if (fileEntry.path == "signature.json") {
+      if (fileEntry.path == "signature.json" && !context.detached) {
         continue;
       }
 
@@ -38,6 +38,12 @@ export const IdentityEntryHandler: IEntryHandler<IdentityEntry> = {
       return "keybase:" + value.identity.keybaseUser;
     } else if (value.identity.pgpPublicKeyUrl !== undefined) {
       return "httpspgp:" + value.identity.pgpPublicKeyUrl;
+    } else if (value.identity.pgpFingerprint !== undefined) {
+      return "pgpfingerprint:" + value.identity.pgpFingerprint;
+    } else if (value.identity.sshPrincipal !== undefined) {
+      return "ssh:" + value.identity.sshPrincipal;
+    } else if (value.identity.ed25519Fingerprint !== undefined) {
+      return "ed25519:" + value.identity.ed25519Fingerprint;
     } else {
       return "none";
     }
@@ -46,7 +52,10 @@ export const IdentityEntryHandler: IEntryHandler<IdentityEntry> = {
   getIdentity: (value: IdentityEntry): SignatureIdentity => {
     return {
       keybaseUser: value.identity.keybaseUser,
-      pgpPublicKeyUrl: value.identity.pgpPublicKeyUrl
+      pgpPublicKeyUrl: value.identity.pgpPublicKeyUrl,
+      pgpFingerprint: value.identity.pgpFingerprint,
+      sshPrincipal: value.identity.sshPrincipal,
+      ed25519Fingerprint: value.identity.ed25519Fingerprint
     };
   }
 };
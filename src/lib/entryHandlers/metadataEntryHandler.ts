@@ -0,0 +1,93 @@
+import { IEntryHandler, generateCompromisedVerificationResult } from ".";
+import {
+  Entry,
+  SignatureIdentity,
+  ModuleVerificationResult,
+  IVerifyEntryContext,
+  IGenerateEntryContext
+} from "../types";
+import { readFileSync } from "fs";
+import * as path from "path";
+
+const pkgsignVersion = JSON.parse(
+  readFileSync(path.join(__dirname, "..", "..", "..", "package.json"), "utf8")
+).version;
+
+export interface MetadataEntry {
+  // When the package was signed (ISO 8601).
+  signedAt: string;
+
+  // The version of pkgsign that signed the package.
+  pkgsignVersion: string;
+
+  // When the signature expires (ISO 8601), if the signer set an expiry date.
+  expires?: string;
+}
+
+/**
+ * Returns the signature metadata in the entries of a signature document, or
+ * null if the package was signed by a version of pkgsign that didn't record
+ * metadata.
+ *
+ * @param entries The entries of the signature document.
+ */
+export function findSignatureMetadata(
+  entries: Entry<any>[]
+): MetadataEntry | null {
+  for (let entry of entries) {
+    if (entry.entry == MetadataEntryHandler.getEntryType()) {
+      return entry.value as MetadataEntry;
+    }
+  }
+  return null;
+}
+
+export const MetadataEntryHandler: IEntryHandler<MetadataEntry> = {
+  getEntryType: (): string => {
+    return "metadata/v1alpha2";
+  },
+
+  generateEntry: async (
+    context: IGenerateEntryContext
+  ): Promise<MetadataEntry | null> => {
+    const entry: MetadataEntry = {
+      signedAt: new Date().toISOString(),
+      pkgsignVersion: pkgsignVersion
+    };
+    if (context.expires !== undefined) {
+      entry.expires = context.expires;
+    }
+    return entry;
+  },
+
+  verifyEntry: async (
+    context: IVerifyEntryContext,
+    value: MetadataEntry
+  ): Promise<ModuleVerificationResult | null> => {
+    // Whether the signature has expired is checked after the signature is
+    // verified, since the dates can't be trusted until then.
+    for (let date of [value.signedAt, value.expires]) {
+      if (date !== undefined && isNaN(new Date(date).getTime())) {
+        return generateCompromisedVerificationResult(
+          context,
+          "signature metadata has an invalid date: " + date
+        );
+      }
+    }
+    return null;
+  },
+
+  toDeterministicString: (value: MetadataEntry): string => {
+    return (
+      "signedAt:" +
+      value.signedAt +
+      "\npkgsignVersion:" +
+      value.pkgsignVersion +
+      (value.expires !== undefined ? "\nexpires:" + value.expires : "")
+    );
+  },
+
+  getIdentity: (value: MetadataEntry): SignatureIdentity | null => {
+    return null;
+  }
+};
@@ -7,9 +7,6 @@ import {
 } from "../types";
 import { createHash } from "crypto";
 import { normalizeSync } from "../thirdparty/jsonNormalize";
-import { readFileSync } from "fs";
-import { join as pathJoin } from "path";
-import { readFilePromise } from "../util/fsPromise";
 
 interface NpmCompatiblePackageJsonEntry {
   packageJsonProperties: Array<string>;
@@ -65,9 +62,7 @@ export const NpmCompatiblePackageJsonEntryHandler: IEntryHandler<
       if (normalisedPath == "package.json") {
         // This file will be included in it's own package entry.
         try {
-          packageJson = JSON.parse(
-            await readFilePromise(pathJoin(context.dir, relPath))
-          );
+          packageJson = JSON.parse(await context.fileSystem.readFile(relPath));
         } catch (e) {
           console.warn("unable to parse package.json as JSON for signing");
           packageJson = undefined; /* do not include package json signature entry, so file validation will fallback to exact match */
@@ -114,10 +109,7 @@ export const NpmCompatiblePackageJsonEntryHandler: IEntryHandler<
       }
 
       // Try to read the contents of package.json.
-      const packageJsonRaw = readFileSync(
-        pathJoin(context.dir, "package.json"),
-        "utf8"
-      );
+      const packageJsonRaw = await context.fileSystem.readFile("package.json");
       let packageJsonActual;
       try {
         packageJsonActual = JSON.parse(packageJsonRaw);
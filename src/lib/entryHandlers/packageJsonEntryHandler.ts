@@ -6,9 +6,6 @@ import {
   IGenerateEntryContext
 } from "../types";
 import { normalizeSync } from "../thirdparty/jsonNormalize";
-import { readFileSync } from "fs";
-import { join as pathJoin } from "path";
-import { readFilePromise } from "../util/fsPromise";
 
 interface PackageJsonEntry {
   packageJson: any;
@@ -28,9 +25,7 @@ export const PackageJsonEntryHandler: IEntryHandler<PackageJsonEntry> = {
       if (normalisedPath == "package.json") {
         // This file will be included in it's own package entry.
         try {
-          packageJson = JSON.parse(
-            await readFilePromise(pathJoin(context.dir, relPath))
-          );
+          packageJson = JSON.parse(await context.fileSystem.readFile(relPath));
         } catch (e) {
           console.warn("unable to parse package.json as JSON for signing");
           packageJson = undefined; /* do not include package json signature entry, so file validation will fallback to exact match */
@@ -74,10 +69,7 @@ export const PackageJsonEntryHandler: IEntryHandler<PackageJsonEntry> = {
       }
 
       // Try to read the contents of package.json.
-      const packageJsonRaw = readFileSync(
-        pathJoin(context.dir, "package.json"),
-        "utf8"
-      );
+      const packageJsonRaw = await context.fileSystem.readFile("package.json");
       let packageJsonActual;
       try {
         packageJsonActual = JSON.parse(packageJsonRaw);
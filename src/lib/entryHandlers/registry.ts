@@ -1,5 +1,6 @@
 import { FilesEntryHandler } from "./filesEntryHandler";
 import { IdentityEntryHandler } from "./identityEntryHandler";
+import { MetadataEntryHandler } from "./metadataEntryHandler";
 import { NpmCompatiblePackageJsonEntryHandler } from "./npmCompatiblePackageJsonEntryHandler";
 import { PackageJsonEntryHandler } from "./packageJsonEntryHandler";
 import { IEntryHandler } from ".";
@@ -7,6 +8,7 @@ import { IEntryHandler } from ".";
 export const availableEntryHandlers: IEntryHandler<any>[] = [
   FilesEntryHandler,
   IdentityEntryHandler,
+  MetadataEntryHandler,
   NpmCompatiblePackageJsonEntryHandler,
   PackageJsonEntryHandler
 ];
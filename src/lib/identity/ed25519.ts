@@ -0,0 +1,282 @@
+import * as path from "path";
+import * as crypto from "crypto";
+import {
+  IIdentityProvider,
+  IIdentityProviderSigningContext,
+  IIdentityProviderVerificationContext,
+  IIdentityVerificationResult
+} from ".";
+import { SignatureIdentity, normalizeFingerprint } from "../types";
+import { readFilePromise, readdirPromise } from "../util/fsPromise";
+import { verifyWithPublicKey } from "../util/crypto";
+import { loadConfig } from "../config";
+import { getTrustStoreFolder } from "../trustStore";
+
+// The DER encodings of Ed25519 keys are a fixed prefix followed by the raw
+// 32 byte key, which lets us read and write JWKs without relying on JWK
+// support in Node's crypto module.
+const spkiPrefix = Buffer.from("302a300506032b6570032100", "hex");
+const pkcs8Prefix = Buffer.from("302e020100300506032b657004220420", "hex");
+
+interface Ed25519Jwk {
+  kty: string;
+  crv: string;
+  x: string;
+  d?: string;
+}
+
+export interface Ed25519KeyPair {
+  // The private key, as a PEM or JWK.
+  privateKey: string;
+
+  // The public key, as a PEM or JWK.
+  publicKey: string;
+
+  // The fingerprint of the public key.
+  fingerprint: string;
+}
+
+function toBase64Url(data: Buffer): string {
+  return data
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(data: string): Buffer {
+  return Buffer.from(data.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+}
+
+function parseJwk(content: string): Ed25519Jwk | null {
+  if (content.trim()[0] != "{") {
+    return null;
+  }
+  const jwk = JSON.parse(content) as Ed25519Jwk;
+  if (jwk.kty != "OKP" || jwk.crv != "Ed25519") {
+    throw new Error("the JWK is not an Ed25519 key");
+  }
+  return jwk;
+}
+
+function assertEd25519(key: crypto.KeyObject): crypto.KeyObject {
+  if ((key.asymmetricKeyType as string) != "ed25519") {
+    throw new Error("the key is not an Ed25519 key");
+  }
+  return key;
+}
+
+/**
+ * Reads an Ed25519 public key from a PEM or JWK. Private keys are also
+ * accepted, in which case their public key is returned.
+ *
+ * @param content The content of the PEM or JWK.
+ */
+export function readEd25519PublicKey(content: string): crypto.KeyObject {
+  const jwk = parseJwk(content);
+  if (jwk !== null) {
+    return crypto.createPublicKey({
+      key: Buffer.concat([spkiPrefix, fromBase64Url(jwk.x)]),
+      format: "der",
+      type: "spki"
+    });
+  }
+  return assertEd25519(crypto.createPublicKey(content));
+}
+
+/**
+ * Reads an Ed25519 private key from a PEM or JWK.
+ *
+ * @param content The content of the PEM or JWK.
+ */
+export function readEd25519PrivateKey(content: string): crypto.KeyObject {
+  const jwk = parseJwk(content);
+  if (jwk !== null) {
+    if (jwk.d === undefined) {
+      throw new Error("the JWK is a public key, not a private key");
+    }
+    return crypto.createPrivateKey({
+      key: Buffer.concat([pkcs8Prefix, fromBase64Url(jwk.d)]),
+      format: "der",
+      type: "pkcs8"
+    });
+  }
+  return assertEd25519(crypto.createPrivateKey(content));
+}
+
+function getRawPublicKey(publicKey: crypto.KeyObject): Buffer {
+  return publicKey
+    .export({ type: "spki", format: "der" })
+    .slice(spkiPrefix.length);
+}
+
+/**
+ * Returns the fingerprint of an Ed25519 public key, which is the SHA-256 hash
+ * of the raw 32 byte public key, in upper case hexadecimal.
+ *
+ * @param publicKey The public key.
+ */
+export function getEd25519Fingerprint(publicKey: crypto.KeyObject): string {
+  return normalizeFingerprint(
+    crypto
+      .createHash("sha256")
+      .update(getRawPublicKey(publicKey))
+      .digest("hex")
+  );
+}
+
+/**
+ * Generates a new Ed25519 keypair.
+ *
+ * @param format The format to encode the keys in, either "pem" or "jwk".
+ */
+export function generateEd25519KeyPair(format: string): Ed25519KeyPair {
+  const seed = crypto.randomBytes(32);
+  const privateKey = crypto.createPrivateKey({
+    key: Buffer.concat([pkcs8Prefix, seed]),
+    format: "der",
+    type: "pkcs8"
+  });
+  const publicKey = crypto.createPublicKey(privateKey);
+  const fingerprint = getEd25519Fingerprint(publicKey);
+
+  if (format == "pem") {
+    return {
+      privateKey: privateKey.export({
+        type: "pkcs8",
+        format: "pem"
+      }) as string,
+      publicKey: publicKey.export({ type: "spki", format: "pem" }) as string,
+      fingerprint
+    };
+  } else if (format == "jwk") {
+    const x = toBase64Url(getRawPublicKey(publicKey));
+    return {
+      privateKey:
+        JSON.stringify(
+          { kty: "OKP", crv: "Ed25519", x, d: toBase64Url(seed) },
+          null,
+          2
+        ) + "\n",
+      publicKey:
+        JSON.stringify({ kty: "OKP", crv: "Ed25519", x }, null, 2) + "\n",
+      fingerprint
+    };
+  } else {
+    throw new Error("unsupported key format '" + format + "'");
+  }
+}
+
+/**
+ * Returns the paths of the Ed25519 public key files (`.pem` and `.jwk` files)
+ * that are used to verify signatures, which are made up of the directories and
+ * files in the `ed25519` section of the configuration.
+ */
+export async function getEd25519KeyFiles(): Promise<string[]> {
+  const trustStoreFolder = getTrustStoreFolder();
+  const config = (await loadConfig(trustStoreFolder)).ed25519 || {};
+  const directories =
+    config.directories !== undefined
+      ? config.directories
+      : [path.join(trustStoreFolder, "ed25519")];
+
+  let files: string[] = [];
+  for (let directory of directories) {
+    let filenames: string[];
+    try {
+      filenames = await readdirPromise(directory);
+    } catch (e) {
+      if (e && e.code == "ENOENT") {
+        // the key directory doesn't exist yet.
+        continue;
+      }
+      throw e;
+    }
+    for (let filename of filenames.sort()) {
+      if (filename.endsWith(".pem") || filename.endsWith(".jwk")) {
+        files.push(path.join(directory, filename));
+      }
+    }
+  }
+  return files.concat(config.files || []);
+}
+
+/**
+ * Finds the Ed25519 public key with the specified fingerprint in the key
+ * files, or returns null if there is no such key. Key files that can't be
+ * read (or aren't Ed25519 public keys) are skipped.
+ *
+ * @param fingerprint The fingerprint of the public key.
+ */
+async function findEd25519PublicKey(
+  fingerprint: string
+): Promise<crypto.KeyObject | null> {
+  for (let file of await getEd25519KeyFiles()) {
+    let publicKey: crypto.KeyObject;
+    try {
+      publicKey = readEd25519PublicKey(await readFilePromise(file));
+    } catch (e) {
+      continue;
+    }
+    if (getEd25519Fingerprint(publicKey) == normalizeFingerprint(fingerprint)) {
+      return publicKey;
+    }
+  }
+  return null;
+}
+
+export const Ed25519IdentityProvider: IIdentityProvider = {
+  getIdentity: async (
+    context: IIdentityProviderSigningContext
+  ): Promise<SignatureIdentity> => {
+    const privateKey = readEd25519PrivateKey(
+      await readFilePromise(context.privateKeyPath)
+    );
+    return {
+      ed25519Fingerprint: getEd25519Fingerprint(
+        crypto.createPublicKey(privateKey)
+      )
+    };
+  },
+
+  signEntries: async (
+    context: IIdentityProviderSigningContext,
+    deterministicString: string
+  ): Promise<string> => {
+    const privateKey = readEd25519PrivateKey(
+      await readFilePromise(context.privateKeyPath)
+    );
+    return crypto
+      .sign(null, Buffer.from(deterministicString, "utf8"), privateKey)
+      .toString("base64");
+  },
+
+  verify: async (
+    context: IIdentityProviderVerificationContext,
+    identity: SignatureIdentity,
+    signature: string,
+    deterministicString: string
+  ): Promise<IIdentityVerificationResult> => {
+    if (identity.ed25519Fingerprint === undefined) {
+      return { valid: false };
+    }
+
+    const publicKey = await findEd25519PublicKey(identity.ed25519Fingerprint);
+    if (publicKey === null) {
+      throw new Error(
+        "the Ed25519 public key " +
+          identity.ed25519Fingerprint +
+          " is not in any of the configured key directories"
+      );
+    }
+    const valid = verifyWithPublicKey(
+      null,
+      Buffer.from(deterministicString, "utf8"),
+      publicKey,
+      Buffer.from(signature, "base64")
+    );
+    return valid
+      ? { valid: true, fingerprint: getEd25519Fingerprint(publicKey) }
+      : { valid: false };
+  }
+};
@@ -5,12 +5,30 @@ export interface IIdentityProviderSigningContext {
   privateKeyPath: string;
   privateKeyPassphrase: string;
   publicKeyHttpsUrl: string;
+  sshPrincipal: string;
 }
 
 export interface IIdentityProviderVerificationContext {
   trustStore: ITrustStore;
 }
 
+export interface IIdentityVerificationResult {
+  // Whether the signature was made by one of the identity's keys.
+  valid: boolean;
+
+  // The fingerprint of the key that made the signature, if it is valid.
+  fingerprint?: string;
+
+  // When the key that made the signature expires, if the key data says it
+  // does.
+  keyExpires?: Date;
+
+  // When the key that made the signature was revoked, if the key data says it
+  // was revoked. Signatures by revoked keys are never valid; this tells them
+  // apart from signatures that don't match.
+  keyRevoked?: Date;
+}
+
 export interface IIdentityProvider {
   getIdentity(
     context: IIdentityProviderSigningContext
@@ -26,5 +44,5 @@ export interface IIdentityProvider {
     identity: SignatureIdentity,
     signature: string,
     deterministicString: string
-  ): Promise<boolean>;
+  ): Promise<IIdentityVerificationResult>;
 }
@@ -2,7 +2,8 @@ import * as cmd from "node-cmd";
 import {
   IIdentityProvider,
   IIdentityProviderSigningContext,
-  IIdentityProviderVerificationContext
+  IIdentityProviderVerificationContext,
+  IIdentityVerificationResult
 } from ".";
 import { SignatureIdentity } from "../types";
 import stripAnsi from "strip-ansi";
@@ -12,8 +13,17 @@ import {
   unlinkPromise
 } from "../util/fsPromise";
 import { join } from "path";
-import * as openpgp from "openpgp";
-import fetch from "node-fetch";
+import { logProgress } from "../util/progress";
+import { verifyPgpSignature } from "./pgp";
+
+/**
+ * Returns the URL that the PGP public keys of a Keybase user are fetched from.
+ *
+ * @param keybaseUser The Keybase username.
+ */
+export function getKeybasePublicKeyUrl(keybaseUser: string): string {
+  return "https://keybase.io/" + keybaseUser + "/pgp_keys.asc";
+}
 
 export const KeybaseIdentityProvider: IIdentityProvider = {
   getIdentity: async (
@@ -50,8 +60,8 @@ export const KeybaseIdentityProvider: IIdentityProvider = {
     context: IIdentityProviderSigningContext,
     deterministicString: string
   ): Promise<string> => {
-    console.log("requesting keybase pgp sign deterministic signature...");
-    console.log("(you may receive an interactive prompt from keybase)");
+    logProgress("requesting keybase pgp sign deterministic signature...");
+    logProgress("(you may receive an interactive prompt from keybase)");
     const wd = await createWorkingDirectory();
     const fileToSignPath = join(wd, "signature.sig");
     await writeFilePromise(fileToSignPath, deterministicString);
@@ -76,51 +86,36 @@ export const KeybaseIdentityProvider: IIdentityProvider = {
     identity: SignatureIdentity,
     signature: string,
     deterministicString: string
-  ): Promise<boolean> => {
+  ): Promise<IIdentityVerificationResult> => {
     if (identity.keybaseUser === undefined) {
-      return false;
+      return { valid: false };
     }
 
-    let didFetch = false;
-    const fetchPub = async () => {
-      console.log(
-        "fetching public keys of user " + identity.keybaseUser + "..."
-      );
-      didFetch = true;
-      return await (await fetch(
-        "https://keybase.io/" + identity.keybaseUser + "/pgp_keys.asc"
-      )).text();
-    };
-
-    const attemptVerify = async (rawPublicKeys: string) => {
-      try {
-        const publicKeys = (await openpgp.key.readArmored(rawPublicKeys)).keys;
-        const verifyOptions = {
-          message: openpgp.message.fromText(deterministicString),
-          signature: await openpgp.signature.readArmored(signature),
-          publicKeys: publicKeys
-        };
-        const verifiedMessage = await openpgp.verify(verifyOptions);
-        return verifiedMessage.signatures.length >= 1;
-      } catch (e) {
-        return false;
-      }
-    };
+    const cacheName = "keybase.io." + identity.keybaseUser;
+    const url = getKeybasePublicKeyUrl(identity.keybaseUser);
 
     let rawPublicKeys = await context.trustStore.getOrFetchCachedPublicKeys(
-      "keybase.io." + identity.keybaseUser,
-      fetchPub
+      cacheName,
+      url
+    );
+    let firstTry = await verifyPgpSignature(
+      rawPublicKeys,
+      signature,
+      deterministicString
     );
-    let firstTry = await attemptVerify(rawPublicKeys);
-    if (didFetch || firstTry) {
+    if (firstTry.valid) {
       return firstTry;
     } else {
       // user might have updated their PGP public keys with a new signature, refetch.
       rawPublicKeys = await context.trustStore.fetchCachedPublicKeys(
-        "keybase.io." + identity.keybaseUser,
-        fetchPub
+        cacheName,
+        url
+      );
+      return await verifyPgpSignature(
+        rawPublicKeys,
+        signature,
+        deterministicString
       );
-      return await attemptVerify(rawPublicKeys);
     }
   }
 };
@@ -0,0 +1,50 @@
+import { SignatureIdentity, normalizeFingerprint } from "../types";
+
+export interface IdentityOptions {
+  keybaseUser: string;
+  pgpPublicKeyUrl: string;
+  pgpFingerprint: string;
+  sshPrincipal: string;
+  ed25519Fingerprint: string;
+}
+
+/**
+ * Returns the identity selected by the identity options of a command (such as
+ * `--keybase`), or undefined if no identity was selected.
+ *
+ * @param options The command options.
+ */
+export function getIdentityFromOptions(
+  options: IdentityOptions
+): SignatureIdentity | undefined {
+  const selected = [
+    options.keybaseUser,
+    options.pgpPublicKeyUrl,
+    options.pgpFingerprint,
+    options.sshPrincipal,
+    options.ed25519Fingerprint
+  ].filter(value => value);
+  if (selected.length > 1) {
+    throw new Error(
+      "only one of --keybase, --pgp-url, --pgp-fingerprint, --ssh or --ed25519 can be specified"
+    );
+  }
+
+  if (options.keybaseUser) {
+    return { keybaseUser: options.keybaseUser };
+  } else if (options.pgpPublicKeyUrl) {
+    if (!options.pgpPublicKeyUrl.startsWith("https://")) {
+      throw new Error("public key URLs must be HTTPS");
+    }
+    return { pgpPublicKeyUrl: options.pgpPublicKeyUrl };
+  } else if (options.pgpFingerprint) {
+    return { pgpFingerprint: normalizeFingerprint(options.pgpFingerprint) };
+  } else if (options.sshPrincipal) {
+    return { sshPrincipal: options.sshPrincipal };
+  } else if (options.ed25519Fingerprint) {
+    return {
+      ed25519Fingerprint: normalizeFingerprint(options.ed25519Fingerprint)
+    };
+  }
+  return undefined;
+}
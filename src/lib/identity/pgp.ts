@@ -1,13 +1,231 @@
 import {
   IIdentityProvider,
   IIdentityProviderSigningContext,
-  IIdentityProviderVerificationContext
+  IIdentityProviderVerificationContext,
+  IIdentityVerificationResult
 } from ".";
-import { SignatureIdentity } from "../types";
+import { SignatureIdentity, normalizeFingerprint } from "../types";
 import { readFilePromise } from "../util/fsPromise";
 import * as openpgp from "openpgp";
-import fetch from "node-fetch";
 import * as crypto from "crypto";
+import { logProgress } from "../util/progress";
+
+// The revocation signatures and subkeys of keys aren't in the openpgp typings.
+declare module "openpgp" {
+  // openpgp.js takes the arguments of `revokeKey` in an options object, unlike
+  // in its typings.
+  function revokeKey(options: {
+    key: key.Key;
+    revocationCertificate?: string;
+    reasonForRevocation?: revokeKey_reasonForRevocation;
+  }): Promise<{ publicKey: key.Key; publicKeyArmored: string }>;
+
+  namespace key {
+    interface Key {
+      revocationSignatures: { created: Date }[];
+      subKeys: { revocationSignatures: { created: Date }[] }[];
+    }
+  }
+}
+
+/**
+ * Returns when a key (or the subkey with the specified key ID) was revoked,
+ * or undefined if it hasn't been revoked.
+ *
+ * @param publicKey The public key.
+ * @param keyid The key ID of the primary key or subkey.
+ */
+function getRevocationDate(
+  publicKey: openpgp.key.Key,
+  keyid: openpgp.type.keyid.Keyid
+): Date | undefined {
+  let revocationDate: Date | undefined = undefined;
+  for (let key of [publicKey, ...publicKey.getKeys(keyid)]) {
+    for (let revocation of key.revocationSignatures) {
+      if (revocationDate === undefined || revocation.created < revocationDate) {
+        revocationDate = revocation.created;
+      }
+    }
+  }
+  return revocationDate;
+}
+
+/**
+ * Finds the public key that made a valid detached PGP signature.
+ *
+ * @param publicKeys The public keys.
+ * @param signature The ASCII armored detached signature.
+ * @param deterministicString The signed content.
+ */
+async function findPgpSigningKey(
+  publicKeys: openpgp.key.Key[],
+  signature: string,
+  deterministicString: string
+): Promise<{
+  publicKey: openpgp.key.Key;
+  keyid: openpgp.type.keyid.Keyid;
+} | null> {
+  const verifiedMessage = await openpgp.verify({
+    message: openpgp.message.fromText(deterministicString),
+    signature: await openpgp.signature.readArmored(signature),
+    publicKeys: publicKeys
+  });
+  for (let verifiedSignature of verifiedMessage.signatures) {
+    if (verifiedSignature.valid !== true) {
+      continue;
+    }
+    for (let publicKey of publicKeys) {
+      if (publicKey.getKeys(verifiedSignature.keyid).length > 0) {
+        return { publicKey, keyid: verifiedSignature.keyid };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Verifies a detached PGP signature against a set of public keys, and returns
+ * the fingerprint of the primary key that made the signature, along with when
+ * the key expires. Signatures by revoked keys are never valid, however long
+ * before the revocation they claim to have been made, but when the key was
+ * revoked is returned to tell them apart from signatures that don't match.
+ *
+ * @param rawPublicKeys The ASCII armored public keys.
+ * @param signature The ASCII armored detached signature.
+ * @param deterministicString The signed content.
+ */
+export async function verifyPgpSignature(
+  rawPublicKeys: string,
+  signature: string,
+  deterministicString: string
+): Promise<IIdentityVerificationResult> {
+  try {
+    const publicKeys = (await openpgp.key.readArmored(rawPublicKeys)).keys;
+    const signingKey = await findPgpSigningKey(
+      publicKeys,
+      signature,
+      deterministicString
+    );
+    if (signingKey === null) {
+      // Signatures by revoked keys never verify, so to tell them apart from
+      // signatures that don't match, verify again without the revocations.
+      const unrevokedPublicKeys = (await openpgp.key.readArmored(rawPublicKeys))
+        .keys;
+      for (let publicKey of unrevokedPublicKeys) {
+        for (let key of [publicKey, ...publicKey.subKeys]) {
+          key.revocationSignatures = [];
+        }
+      }
+      const revokedSigningKey = await findPgpSigningKey(
+        unrevokedPublicKeys,
+        signature,
+        deterministicString
+      );
+      if (revokedSigningKey === null) {
+        return { valid: false };
+      }
+      const fingerprint = revokedSigningKey.publicKey.getFingerprint();
+      return {
+        valid: false,
+        fingerprint: normalizeFingerprint(fingerprint),
+        keyRevoked: getRevocationDate(
+          publicKeys.filter(
+            publicKey => publicKey.getFingerprint() == fingerprint
+          )[0],
+          revokedSigningKey.keyid
+        )
+      };
+    }
+
+    const expirationTime = await signingKey.publicKey.getExpirationTime();
+    return {
+      valid: true,
+      fingerprint: normalizeFingerprint(signingKey.publicKey.getFingerprint()),
+      keyExpires: expirationTime instanceof Date ? expirationTime : undefined
+    };
+  } catch (e) {
+    return { valid: false };
+  }
+}
+
+/**
+ * Reads and decrypts the PGP private key used for signing.
+ *
+ * @param context The signing context, with the private key path and passphrase.
+ */
+export async function readPgpPrivateKey(
+  context: IIdentityProviderSigningContext
+): Promise<openpgp.key.Key> {
+  const privateKeyFileContents = await readFilePromise(context.privateKeyPath);
+  const privateKey = await openpgp.key.readArmored(privateKeyFileContents);
+  const privateKeyObject = privateKey.keys[0];
+  try {
+    await privateKeyObject.decrypt(context.privateKeyPassphrase);
+  } catch (err) {
+    if (err.message === "Key packet is already decrypted.") {
+      // allow
+    } else {
+      throw err;
+    }
+  }
+  return privateKeyObject;
+}
+
+/**
+ * Signs the deterministic string with the PGP private key, returning an
+ * ASCII armored detached signature.
+ *
+ * @param context The signing context, with the private key path and passphrase.
+ * @param deterministicString The content to sign.
+ */
+export async function signWithPgpPrivateKey(
+  context: IIdentityProviderSigningContext,
+  deterministicString: string
+): Promise<string> {
+  logProgress("signing with private pgp key...");
+  const privateKeyObject = await readPgpPrivateKey(context);
+  const text = new openpgp.cleartext.CleartextMessage(
+    deterministicString,
+    null as any /* function typedef is wrong here */
+  );
+  const options = {
+    message: text,
+    privateKeys: privateKeyObject,
+    detached: true
+  };
+  const signedResult = await openpgp.sign(options);
+  return signedResult.signature.replace(/\r\n/g, "\n");
+}
+
+export interface PgpPublicKeyDescription {
+  fingerprint: string;
+  userIds: string[];
+
+  // When the key expires, or null if it never expires.
+  expires: Date | null;
+}
+
+/**
+ * Describes each of the PGP public keys in a set of armored public keys, for
+ * display to the user.
+ *
+ * @param rawPublicKeys The ASCII armored public keys.
+ */
+export async function describePgpPublicKeys(
+  rawPublicKeys: string
+): Promise<PgpPublicKeyDescription[]> {
+  const publicKeys = (await openpgp.key.readArmored(rawPublicKeys)).keys;
+  let descriptions: PgpPublicKeyDescription[] = [];
+  for (let publicKey of publicKeys) {
+    const expirationTime = await publicKey.getExpirationTime();
+    descriptions.push({
+      fingerprint: normalizeFingerprint(publicKey.getFingerprint()),
+      userIds: publicKey.getUserIds(),
+      expires: expirationTime instanceof Date ? expirationTime : null
+    });
+  }
+  return descriptions;
+}
 
 export const PgpIdentityProvider: IIdentityProvider = {
   getIdentity: async (
@@ -22,32 +240,7 @@ export const PgpIdentityProvider: IIdentityProvider = {
     context: IIdentityProviderSigningContext,
     deterministicString: string
   ): Promise<string> => {
-    console.log("signing with private pgp key...");
-    const privateKeyFileContents = await readFilePromise(
-      context.privateKeyPath
-    );
-    const privateKey = await openpgp.key.readArmored(privateKeyFileContents);
-    const privateKeyObject = privateKey.keys[0];
-    try {
-      await privateKeyObject.decrypt(context.privateKeyPassphrase);
-    } catch (err) {
-      if (err.message === "Key packet is already decrypted.") {
-        // allow
-      } else {
-        throw err;
-      }
-    }
-    const text = new openpgp.cleartext.CleartextMessage(
-      deterministicString,
-      null as any /* function typedef is wrong here */
-    );
-    const options = {
-      message: text,
-      privateKeys: privateKeyObject,
-      detached: true
-    };
-    const signedResult = await openpgp.sign(options);
-    return signedResult.signature.replace(/\r\n/g, "\n");
+    return await signWithPgpPrivateKey(context, deterministicString);
   },
 
   verify: async (
@@ -55,58 +248,44 @@ export const PgpIdentityProvider: IIdentityProvider = {
     identity: SignatureIdentity,
     signature: string,
     deterministicString: string
-  ): Promise<boolean> => {
+  ): Promise<IIdentityVerificationResult> => {
     if (identity.pgpPublicKeyUrl === undefined) {
-      return false;
+      return { valid: false };
     }
 
     const pgpPublicKeyUrl = identity.pgpPublicKeyUrl;
 
     if (!pgpPublicKeyUrl.startsWith("https://")) {
       // public key URLs must be HTTPS.
-      return false;
+      return { valid: false };
     }
 
-    let didFetch = false;
-    const fetchPub = async () => {
-      console.log("fetching public keys at URL " + pgpPublicKeyUrl + "...");
-      didFetch = true;
-      return await (await fetch(pgpPublicKeyUrl)).text();
-    };
-
-    const attemptVerify = async (rawPublicKeys: string) => {
-      try {
-        const publicKeys = (await openpgp.key.readArmored(rawPublicKeys)).keys;
-        const verifyOptions = {
-          message: openpgp.message.fromText(deterministicString),
-          signature: await openpgp.signature.readArmored(signature),
-          publicKeys: publicKeys
-        };
-        const verifiedMessage = await openpgp.verify(verifyOptions);
-        return verifiedMessage.signatures.length >= 1;
-      } catch (e) {
-        return false;
-      }
-    };
-
     let urlHashObj = crypto.createHash("sha512");
     urlHashObj.update(pgpPublicKeyUrl);
     let urlHash = urlHashObj.digest("hex");
 
     let rawPublicKeys = await context.trustStore.getOrFetchCachedPublicKeys(
       "pgp.https." + urlHash,
-      fetchPub
+      pgpPublicKeyUrl
     );
-    let firstTry = await attemptVerify(rawPublicKeys);
-    if (didFetch || firstTry) {
+    let firstTry = await verifyPgpSignature(
+      rawPublicKeys,
+      signature,
+      deterministicString
+    );
+    if (firstTry.valid) {
       return firstTry;
     } else {
       // user might have updated their PGP public keys with a new signature, refetch.
       rawPublicKeys = await context.trustStore.fetchCachedPublicKeys(
         "pgp.https." + urlHash,
-        fetchPub
+        pgpPublicKeyUrl
+      );
+      return await verifyPgpSignature(
+        rawPublicKeys,
+        signature,
+        deterministicString
       );
-      return await attemptVerify(rawPublicKeys);
     }
   }
 };
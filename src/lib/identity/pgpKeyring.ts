@@ -0,0 +1,119 @@
+import * as path from "path";
+import * as openpgp from "openpgp";
+import {
+  IIdentityProvider,
+  IIdentityProviderSigningContext,
+  IIdentityProviderVerificationContext,
+  IIdentityVerificationResult
+} from ".";
+import { SignatureIdentity, normalizeFingerprint } from "../types";
+import { readFilePromise, readdirPromise } from "../util/fsPromise";
+import { loadConfig } from "../config";
+import { getTrustStoreFolder } from "../trustStore";
+import {
+  readPgpPrivateKey,
+  signWithPgpPrivateKey,
+  verifyPgpSignature
+} from "./pgp";
+
+/**
+ * Returns the paths of the ASCII armored public key files in the local PGP
+ * keyring, which is made up of the directories and files in the `pgpKeyring`
+ * section of the configuration.
+ */
+export async function getPgpKeyringFiles(): Promise<string[]> {
+  const trustStoreFolder = getTrustStoreFolder();
+  const config = (await loadConfig(trustStoreFolder)).pgpKeyring || {};
+  const directories =
+    config.directories !== undefined
+      ? config.directories
+      : [path.join(trustStoreFolder, "keyring")];
+
+  let files: string[] = [];
+  for (let directory of directories) {
+    let filenames: string[];
+    try {
+      filenames = await readdirPromise(directory);
+    } catch (e) {
+      if (e && e.code == "ENOENT") {
+        // the keyring directory doesn't exist yet.
+        continue;
+      }
+      throw e;
+    }
+    for (let filename of filenames.sort()) {
+      if (filename.endsWith(".asc")) {
+        files.push(path.join(directory, filename));
+      }
+    }
+  }
+  return files.concat(config.files || []);
+}
+
+/**
+ * Finds the public key with the specified fingerprint in the local PGP
+ * keyring, and returns it ASCII armored, or null if it is not in the keyring.
+ *
+ * @param fingerprint The fingerprint of the primary key.
+ */
+async function findPgpKeyringPublicKey(
+  fingerprint: string
+): Promise<string | null> {
+  for (let file of await getPgpKeyringFiles()) {
+    const publicKeys = (await openpgp.key.readArmored(
+      await readFilePromise(file)
+    )).keys;
+    for (let publicKey of publicKeys) {
+      if (
+        normalizeFingerprint(publicKey.getFingerprint()) ==
+        normalizeFingerprint(fingerprint)
+      ) {
+        return publicKey.toPublic().armor();
+      }
+    }
+  }
+  return null;
+}
+
+export const PgpKeyringIdentityProvider: IIdentityProvider = {
+  getIdentity: async (
+    context: IIdentityProviderSigningContext
+  ): Promise<SignatureIdentity> => {
+    const privateKey = await readPgpPrivateKey(context);
+    return {
+      pgpFingerprint: normalizeFingerprint(privateKey.getFingerprint())
+    };
+  },
+
+  signEntries: async (
+    context: IIdentityProviderSigningContext,
+    deterministicString: string
+  ): Promise<string> => {
+    return await signWithPgpPrivateKey(context, deterministicString);
+  },
+
+  verify: async (
+    context: IIdentityProviderVerificationContext,
+    identity: SignatureIdentity,
+    signature: string,
+    deterministicString: string
+  ): Promise<IIdentityVerificationResult> => {
+    if (identity.pgpFingerprint === undefined) {
+      return { valid: false };
+    }
+
+    const rawPublicKey = await findPgpKeyringPublicKey(identity.pgpFingerprint);
+    if (rawPublicKey === null) {
+      throw new Error(
+        "the public key " +
+          identity.pgpFingerprint +
+          " is not in the local PGP keyring"
+      );
+    }
+    return await verifyPgpSignature(
+      rawPublicKey,
+      signature,
+      deterministicString
+    );
+  }
+};
@@ -0,0 +1,136 @@
+import * as path from "path";
+import { execFile } from "child_process";
+import {
+  IIdentityProvider,
+  IIdentityProviderSigningContext,
+  IIdentityProviderVerificationContext,
+  IIdentityVerificationResult
+} from ".";
+import { SignatureIdentity } from "../types";
+import {
+  createWorkingDirectory,
+  readFilePromise,
+  writeFilePromise
+} from "../util/fsPromise";
+import { loadConfig } from "../config";
+import { getTrustStoreFolder } from "../trustStore";
+import {
+  AllowedSigner,
+  parseAllowedSigners,
+  sshSignatureNamespace,
+  verifySshSignature
+} from "./sshsig";
+
+/**
+ * Returns the paths of the allowed signers files, from the `ssh` section of
+ * the configuration.
+ */
+export async function getAllowedSignersFiles(): Promise<string[]> {
+  const trustStoreFolder = getTrustStoreFolder();
+  const config = (await loadConfig(trustStoreFolder)).ssh || {};
+  return config.allowedSignersFiles !== undefined
+    ? config.allowedSignersFiles
+    : [path.join(trustStoreFolder, "allowed_signers")];
+}
+
+/**
+ * Loads the allowed signers from all of the allowed signers files. Files that
+ * don't exist are skipped.
+ */
+async function loadAllowedSigners(): Promise<AllowedSigner[]> {
+  let signers: AllowedSigner[] = [];
+  for (let file of await getAllowedSignersFiles()) {
+    let content: string;
+    try {
+      content = await readFilePromise(file);
+    } catch (e) {
+      if (e && e.code == "ENOENT") {
+        continue;
+      }
+      throw e;
+    }
+    try {
+      signers = signers.concat(parseAllowedSigners(content));
+    } catch (e) {
+      throw new Error("unable to parse " + file + ": " + e.message);
+    }
+  }
+  return signers;
+}
+
+/**
+ * Signs a message with `ssh-keygen -Y sign`, returning the ASCII armored
+ * signature.
+ *
+ * @param keyPath The path to the private key, or to the public key if the
+ * private key is held by ssh-agent.
+ * @param message The message to sign.
+ */
+function signWithSshKeygen(keyPath: string, message: string): Promise<string> {
+  return new Promise<string>(async (resolve, reject) => {
+    try {
+      const messagePath = path.join(await createWorkingDirectory(), "message");
+      await writeFilePromise(messagePath, message);
+      execFile(
+        "ssh-keygen",
+        ["-Y", "sign", "-f", keyPath, "-n", sshSignatureNamespace, messagePath],
+        async (err, stdout, stderr) => {
+          if (err) {
+            reject(
+              new Error(
+                "unable to sign with ssh-keygen: " +
+                  (stderr.trim() || err.message)
+              )
+            );
+            return;
+          }
+          try {
+            resolve(await readFilePromise(messagePath + ".sig"));
+          } catch (e) {
+            reject(e);
+          }
+        }
+      );
+    } catch (e) {
+      reject(e);
+    }
+  });
+}
+
+export const SshIdentityProvider: IIdentityProvider = {
+  getIdentity: async (
+    context: IIdentityProviderSigningContext
+  ): Promise<SignatureIdentity> => {
+    if (!context.sshPrincipal) {
+      throw new Error("an SSH principal is required to sign with SSH");
+    }
+    return {
+      sshPrincipal: context.sshPrincipal
+    };
+  },
+
+  signEntries: async (
+    context: IIdentityProviderSigningContext,
+    deterministicString: string
+  ): Promise<string> => {
+    return await signWithSshKeygen(context.privateKeyPath, deterministicString);
+  },
+
+  verify: async (
+    context: IIdentityProviderVerificationContext,
+    identity: SignatureIdentity,
+    signature: string,
+    deterministicString: string
+  ): Promise<IIdentityVerificationResult> => {
+    if (identity.sshPrincipal === undefined) {
+      return { valid: false };
+    }
+
+    return verifySshSignature(
+      await loadAllowedSigners(),
+      identity.sshPrincipal,
+      signature,
+      deterministicString
+    );
+  }
+};
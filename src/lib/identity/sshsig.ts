@@ -0,0 +1,486 @@
+import * as crypto from "crypto";
+import { IIdentityVerificationResult } from ".";
+import { verifyWithPublicKey } from "../util/crypto";
+
+/**
+ * The namespace that pkgsign signs and verifies SSH signatures in, so that
+ * signatures made for other purposes (such as signing git commits) can't be
+ * used as package signatures.
+ */
+export const sshSignatureNamespace = "pkgsign";
+
+export interface SshSignature {
+  // The public key that made the signature, in SSH wire format.
+  publicKey: Buffer;
+
+  // The namespace the signature was made in.
+  namespace: string;
+
+  // The hash algorithm applied to the message before signing, either
+  // "sha256" or "sha512".
+  hashAlgorithm: string;
+
+  // The signature blob, in SSH wire format.
+  signature: Buffer;
+
+  // The reserved field, which is signed along with the message.
+  reserved: Buffer;
+}
+
+export interface AllowedSigner {
+  // The principals (or principal patterns) that the key is allowed to sign
+  // as, such as "alice@example.com" or "*@example.com".
+  principals: string[];
+
+  // Whether the key is a certificate authority rather than a signing key.
+  certificateAuthority: boolean;
+
+  // The namespaces (or namespace patterns) that the key is allowed to sign
+  // in, if restricted.
+  namespaces?: string[];
+
+  // The key is only allowed to sign after this date, if set.
+  validAfter?: Date;
+
+  // The key is only allowed to sign before this date, if set.
+  validBefore?: Date;
+
+  // The public key, in SSH wire format.
+  publicKey: Buffer;
+}
+
+class SshReader {
+  private offset = 0;
+
+  constructor(private buffer: Buffer) {}
+
+  public readUint32(): number {
+    if (this.offset + 4 > this.buffer.length) {
+      throw new Error("unexpected end of SSH data");
+    }
+    const value = this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  public readBytes(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error("unexpected end of SSH data");
+    }
+    const value = this.buffer.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  public readString(): Buffer {
+    return this.readBytes(this.readUint32());
+  }
+
+  public readUtf8String(): string {
+    return this.readString().toString("utf8");
+  }
+}
+
+function sshString(value: Buffer | string): Buffer {
+  const data = typeof value === "string" ? Buffer.from(value, "utf8") : value;
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  return Buffer.concat([length, data]);
+}
+
+function der(tag: number, ...contents: Buffer[]): Buffer {
+  const content = Buffer.concat(contents);
+  let length: Buffer;
+  if (content.length < 0x80) {
+    length = Buffer.from([content.length]);
+  } else {
+    const bytes: number[] = [];
+    for (let remaining = content.length; remaining > 0; remaining >>= 8) {
+      bytes.unshift(remaining & 0xff);
+    }
+    length = Buffer.from([0x80 | bytes.length, ...bytes]);
+  }
+  return Buffer.concat([Buffer.from([tag]), length, content]);
+}
+
+// SSH mpints are already minimal two's complement big endian integers, which is
+// also how DER encodes the contents of an INTEGER.
+function derInteger(mpint: Buffer): Buffer {
+  return der(0x02, mpint.length == 0 ? Buffer.from([0]) : mpint);
+}
+
+function derSubjectPublicKeyInfo(
+  algorithmIdentifier: Buffer,
+  publicKey: Buffer
+): Buffer {
+  return der(
+    0x30,
+    der(0x30, algorithmIdentifier),
+    der(0x03, Buffer.from([0]), publicKey)
+  );
+}
+
+const ed25519Oid = Buffer.from("06032b6570", "hex");
+const ecPublicKeyOid = Buffer.from("06072a8648ce3d0201", "hex");
+const ecdsaCurves: {
+  [curve: string]: { oid: Buffer; hashAlgorithm: string };
+} = {
+  nistp256: {
+    oid: Buffer.from("06082a8648ce3d030107", "hex"),
+    hashAlgorithm: "sha256"
+  },
+  nistp384: {
+    oid: Buffer.from("06052b81040022", "hex"),
+    hashAlgorithm: "sha384"
+  },
+  nistp521: {
+    oid: Buffer.from("06052b81040023", "hex"),
+    hashAlgorithm: "sha512"
+  }
+};
+
+/**
+ * Returns the fingerprint of an SSH public key in the same format as
+ * `ssh-keygen -l`, such as `SHA256:QQcCNgzHFTSMcGMbl45Vw1LEoIZyFr1qdvEO+ZxwcgA`.
+ *
+ * @param publicKey The public key, in SSH wire format.
+ */
+export function getSshPublicKeyFingerprint(publicKey: Buffer): string {
+  return (
+    "SHA256:" +
+    crypto
+      .createHash("sha256")
+      .update(publicKey)
+      .digest("base64")
+      .replace(/=+$/, "")
+  );
+}
+
+/**
+ * Parses an ASCII armored SSH signature, as created by `ssh-keygen -Y sign`.
+ *
+ * @param armoredSignature The ASCII armored signature.
+ */
+export function parseSshSignature(armoredSignature: string): SshSignature {
+  const match = /-----BEGIN SSH SIGNATURE-----([\s\S]*?)-----END SSH SIGNATURE-----/.exec(
+    armoredSignature
+  );
+  if (match === null) {
+    throw new Error("the signature is not an ASCII armored SSH signature");
+  }
+
+  const reader = new SshReader(
+    Buffer.from(match[1].replace(/\s/g, ""), "base64")
+  );
+  if (reader.readBytes(6).toString("ascii") != "SSHSIG") {
+    throw new Error("the signature is not an SSH signature");
+  }
+  const version = reader.readUint32();
+  if (version != 1) {
+    throw new Error("unsupported SSH signature version " + version);
+  }
+  return {
+    publicKey: reader.readString(),
+    namespace: reader.readUtf8String(),
+    reserved: reader.readString(),
+    hashAlgorithm: reader.readUtf8String(),
+    signature: reader.readString()
+  };
+}
+
+/**
+ * Verifies that an SSH signature was made over a message by the public key
+ * embedded in the signature. This only checks the cryptography; it does not
+ * check the namespace or whether the key is allowed to sign.
+ *
+ * @param signature The parsed SSH signature.
+ * @param message The message that was signed.
+ */
+export function isSshSignatureValid(
+  signature: SshSignature,
+  message: string
+): boolean {
+  if (
+    signature.hashAlgorithm != "sha256" &&
+    signature.hashAlgorithm != "sha512"
+  ) {
+    throw new Error(
+      "unsupported SSH signature hash algorithm " + signature.hashAlgorithm
+    );
+  }
+  const signedData = Buffer.concat([
+    Buffer.from("SSHSIG", "ascii"),
+    sshString(signature.namespace),
+    sshString(signature.reserved),
+    sshString(signature.hashAlgorithm),
+    sshString(
+      crypto
+        .createHash(signature.hashAlgorithm)
+        .update(message, "utf8")
+        .digest()
+    )
+  ]);
+
+  const keyReader = new SshReader(signature.publicKey);
+  const keyType = keyReader.readUtf8String();
+  const signatureReader = new SshReader(signature.signature);
+  const signatureType = signatureReader.readUtf8String();
+  const signatureBytes = signatureReader.readString();
+
+  let publicKeyDer: Buffer;
+  let publicKeyType: "spki" | "pkcs1";
+  let hashAlgorithm: string | null;
+  let signatureDer: Buffer;
+  if (keyType == "ssh-ed25519") {
+    if (signatureType != "ssh-ed25519") {
+      return false;
+    }
+    publicKeyDer = derSubjectPublicKeyInfo(ed25519Oid, keyReader.readString());
+    publicKeyType = "spki";
+    hashAlgorithm = null;
+    signatureDer = signatureBytes;
+  } else if (keyType == "ssh-rsa") {
+    if (signatureType == "rsa-sha2-256") {
+      hashAlgorithm = "sha256";
+    } else if (signatureType == "rsa-sha2-512") {
+      hashAlgorithm = "sha512";
+    } else {
+      // ssh-keygen never creates SHA-1 RSA signatures for SSHSIG.
+      return false;
+    }
+    const exponent = keyReader.readString();
+    const modulus = keyReader.readString();
+    publicKeyDer = der(0x30, derInteger(modulus), derInteger(exponent));
+    publicKeyType = "pkcs1";
+    signatureDer = signatureBytes;
+  } else if (keyType.startsWith("ecdsa-sha2-")) {
+    const curve = ecdsaCurves[keyReader.readUtf8String()];
+    if (curve === undefined || signatureType != keyType) {
+      return false;
+    }
+    publicKeyDer = derSubjectPublicKeyInfo(
+      Buffer.concat([ecPublicKeyOid, curve.oid]),
+      keyReader.readString()
+    );
+    publicKeyType = "spki";
+    hashAlgorithm = curve.hashAlgorithm;
+    const rsReader = new SshReader(signatureBytes);
+    const r = rsReader.readString();
+    const s = rsReader.readString();
+    signatureDer = der(0x30, derInteger(r), derInteger(s));
+  } else {
+    throw new Error("unsupported SSH key type " + keyType);
+  }
+
+  const publicKey = crypto.createPublicKey({
+    key: publicKeyDer,
+    format: "der",
+    type: publicKeyType
+  });
+  return verifyWithPublicKey(
+    hashAlgorithm,
+    signedData,
+    publicKey,
+    signatureDer
+  );
+}
+
+function splitOutsideQuotes(input: string, separator: RegExp): string[] {
+  let parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (let c of input) {
+    if (c == '"') {
+      inQuotes = !inQuotes;
+      current += c;
+    } else if (!inQuotes && separator.test(c)) {
+      if (current != "") {
+        parts.push(current);
+      }
+      current = "";
+    } else {
+      current += c;
+    }
+  }
+  if (current != "") {
+    parts.push(current);
+  }
+  return parts;
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && value[0] == '"' && value[value.length - 1] == '"') {
+    return value.substr(1, value.length - 2);
+  }
+  return value;
+}
+
+function parseSshTimestamp(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?(Z)?$/.exec(
+    value
+  );
+  if (match === null) {
+    throw new Error("invalid timestamp '" + value + "'");
+  }
+  const parts = [1, 2, 3, 4, 5, 6].map(i =>
+    match[i] !== undefined ? parseInt(match[i]) : 0
+  );
+  return match[7] !== undefined
+    ? new Date(
+        Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5])
+      )
+    : new Date(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]);
+}
+
+/**
+ * Parses an allowed signers file, in the format used by `ssh-keygen -Y verify`
+ * (see the ALLOWED SIGNERS section of `man ssh-keygen`).
+ *
+ * @param content The content of the allowed signers file.
+ */
+export function parseAllowedSigners(content: string): AllowedSigner[] {
+  let signers: AllowedSigner[] = [];
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line == "" || line[0] == "#") {
+      continue;
+    }
+
+    const fields = splitOutsideQuotes(line, /\s/);
+    const hasOptions =
+      fields.length >= 2 &&
+      !/^(ssh-|ecdsa-|sk-)/.test(fields[1]) &&
+      fields[1].indexOf("@openssh.com") === -1;
+    const keyIndex = hasOptions ? 3 : 2;
+    if (fields.length < keyIndex + 1) {
+      throw new Error("line " + (i + 1) + " of allowed signers is incomplete");
+    }
+
+    let signer: AllowedSigner = {
+      principals: unquote(fields[0]).split(","),
+      certificateAuthority: false,
+      publicKey: Buffer.from(fields[keyIndex], "base64")
+    };
+    if (hasOptions) {
+      for (let option of splitOutsideQuotes(fields[1], /,/)) {
+        const separator = option.indexOf("=");
+        const name = (separator === -1
+          ? option
+          : option.substr(0, separator)
+        ).toLowerCase();
+        const value =
+          separator === -1 ? "" : unquote(option.substr(separator + 1));
+        if (name == "cert-authority") {
+          signer.certificateAuthority = true;
+        } else if (name == "namespaces") {
+          signer.namespaces = value.split(",");
+        } else if (name == "valid-after") {
+          signer.validAfter = parseSshTimestamp(value);
+        } else if (name == "valid-before") {
+          signer.validBefore = parseSshTimestamp(value);
+        } else {
+          throw new Error(
+            "unknown option '" +
+              name +
+              "' on line " +
+              (i + 1) +
+              " of allowed signers"
+          );
+        }
+      }
+    }
+    if (
+      new SshReader(signer.publicKey).readUtf8String() != fields[keyIndex - 1]
+    ) {
+      throw new Error(
+        "the key type on line " +
+          (i + 1) +
+          " of allowed signers does not match the key"
+      );
+    }
+    signers.push(signer);
+  }
+  return signers;
+}
+
+/**
+ * Returns whether a value matches a comma-separated SSH pattern list, where `*`
+ * matches any sequence of characters, `?` matches a single character, and
+ * patterns starting with `!` exclude values.
+ *
+ * @param patterns The patterns.
+ * @param value The value to match.
+ */
+function matchesSshPatternList(patterns: string[], value: string): boolean {
+  let matched = false;
+  for (let pattern of patterns) {
+    const negated = pattern[0] == "!";
+    const regex = new RegExp(
+      "^" +
+        (negated ? pattern.substr(1) : pattern)
+          .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+          .replace(/\*/g, ".*")
+          .replace(/\?/g, ".") +
+        "$"
+    );
+    if (regex.test(value)) {
+      if (negated) {
+        return false;
+      }
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Verifies an SSH signature made in the pkgsign namespace, checking that the
+ * key that made it is allowed to sign as the principal. Returns the SSH
+ * fingerprint of the key if the signature is valid.
+ *
+ * @param allowedSigners The allowed signers.
+ * @param principal The principal that claims to have made the signature.
+ * @param armoredSignature The ASCII armored signature.
+ * @param message The message that was signed.
+ * @param at The time at which the key must be allowed to sign; defaults to now.
+ */
+export function verifySshSignature(
+  allowedSigners: AllowedSigner[],
+  principal: string,
+  armoredSignature: string,
+  message: string,
+  at: Date = new Date()
+): IIdentityVerificationResult {
+  const signature = parseSshSignature(armoredSignature);
+  if (signature.namespace != sshSignatureNamespace) {
+    return { valid: false };
+  }
+
+  const principalSigners = allowedSigners.filter(
+    signer =>
+      !signer.certificateAuthority &&
+      matchesSshPatternList(signer.principals, principal)
+  );
+  if (principalSigners.length == 0) {
+    throw new Error(
+      "the principal " + principal + " is not in the allowed signers"
+    );
+  }
+
+  const isAllowed = principalSigners.some(
+    signer =>
+      (signer.namespaces === undefined ||
+        matchesSshPatternList(signer.namespaces, sshSignatureNamespace)) &&
+      (signer.validAfter === undefined || at >= signer.validAfter) &&
+      (signer.validBefore === undefined || at <= signer.validBefore) &&
+      signer.publicKey.equals(signature.publicKey)
+  );
+  if (!isAllowed || !isSshSignatureValid(signature, message)) {
+    return { valid: false };
+  }
+  return {
+    valid: true,
+    fingerprint: getSshPublicKeyFingerprint(signature.publicKey)
+  };
+}
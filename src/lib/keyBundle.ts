@@ -0,0 +1,63 @@
+import { TrustStore, CachedData } from "./trustStore";
+
+export interface KeyBundle {
+  // The version of the bundle format.
+  version: number;
+
+  // The cached public keys, keyed by cache name.
+  keys: { [cacheName: string]: CachedData };
+}
+
+const keyBundleVersion = 1;
+
+/**
+ * Creates a portable bundle of all of the public keys cached by a trust store,
+ * so they can be imported on machines that can't fetch public keys.
+ *
+ * @param trustStore The trust store to export cached public keys from.
+ */
+export async function exportKeyBundle(
+  trustStore: TrustStore
+): Promise<KeyBundle> {
+  const cachedPublicKeys = await trustStore.listCachedPublicKeys();
+  let keys: { [cacheName: string]: CachedData } = {};
+  for (let cacheName in cachedPublicKeys) {
+    // Don't export failed fetches without public keys; they're only useful on
+    // this machine.
+    if (cachedPublicKeys[cacheName].data !== "") {
+      keys[cacheName] = cachedPublicKeys[cacheName];
+    }
+  }
+  return {
+    version: keyBundleVersion,
+    keys: keys
+  };
+}
+
+/**
+ * Imports a bundle of public keys into the cache of a trust store, and returns
+ * the number of cached public keys that were imported.
+ *
+ * @param trustStore The trust store to import cached public keys into.
+ * @param rawJson The content of the key bundle.
+ */
+export async function importKeyBundle(
+  trustStore: TrustStore,
+  rawJson: string
+): Promise<number> {
+  let bundle: KeyBundle;
+  try {
+    bundle = JSON.parse(rawJson) as KeyBundle;
+  } catch (e) {
+    throw new Error("unable to parse key bundle: " + e.message);
+  }
+  if (bundle.version !== keyBundleVersion || typeof bundle.keys !== "object") {
+    throw new Error("unsupported key bundle format");
+  }
+
+  const cacheNames = Object.keys(bundle.keys);
+  for (let cacheName of cacheNames) {
+    await trustStore.importCachedPublicKeys(cacheName, bundle.keys[cacheName]);
+  }
+  return cacheNames.length;
+}
@@ -0,0 +1,57 @@
+import * as path from "path";
+import { ILayoutResolver, ModuleInfo, readModuleInfo } from ".";
+import { readdirPromise } from "../util/fsPromise";
+
+async function findModules(dir: string): Promise<ModuleInfo[]> {
+  let resultModules: ModuleInfo[] = [];
+  let ourModules: string[] = [];
+  try {
+    ourModules = await readdirPromise(path.join(dir, "node_modules"));
+  } catch (e) {
+    if (e && e.code == "ENOENT") {
+      // this package has no child modules.
+    } else if (e && e.code == "ENOTDIR") {
+      // this is not a package (e.g. .yarn-integrity file)
+    } else {
+      throw e;
+    }
+  }
+  for (let otherModule of ourModules) {
+    if (otherModule[0] == ".") {
+      // this is not a package (e.g. .bin or .yarn-integrity).
+      continue;
+    }
+    if (otherModule[0] == "@") {
+      // this is a namespace folder, so the packages are inside it.
+      const nsModules = await readdirPromise(
+        path.join(dir, "node_modules", otherModule)
+      );
+      for (let nsModule of nsModules) {
+        const moduleDir = path.join(dir, "node_modules", otherModule, nsModule);
+        resultModules.push(...(await findModules(moduleDir)));
+        resultModules.push(
+          await readModuleInfo(moduleDir, otherModule + "/" + nsModule)
+        );
+      }
+    } else {
+      const moduleDir = path.join(dir, "node_modules", otherModule);
+      resultModules.push(...(await findModules(moduleDir)));
+      resultModules.push(await readModuleInfo(moduleDir, otherModule));
+    }
+  }
+  return resultModules;
+}
+
+export const ClassicLayoutResolver: ILayoutResolver = {
+  getName: (): string => {
+    return "classic";
+  },
+
+  isUsedBy: async (dir: string): Promise<boolean> => {
+    // npm and Yarn classic install packages into nested or hoisted
+    // node_modules folders, which is also what we fall back to.
+    return true;
+  },
+
+  findModules: findModules
+};
@@ -0,0 +1,79 @@
+import * as path from "path";
+import { readFilePromise } from "../util/fsPromise";
+
+export interface ModuleInfo {
+  // The content of the module's package.json, or null if it couldn't be read.
+  untrustedPackageInfo: any;
+  path: string;
+
+  // Why the module can't be verified, if its package.json couldn't be read.
+  error?: string;
+
+  // The package name the module is expected to have, based on where it is
+  // installed. If not set, the name of the module's directory is used.
+  expectedPackageName?: string;
+
+  // Where the module is installed, if it had to be extracted somewhere else
+  // to verify it (such as a package in a Yarn PnP zip archive).
+  location?: string;
+
+  // Whether the module was extracted to a temporary directory, which is
+  // removed once the module is no longer needed.
+  isTemporary?: boolean;
+}
+
+/**
+ * Reads the package.json of an installed module. If package.json is missing
+ * or can't be parsed, the module is still returned, with the reason it can't
+ * be verified.
+ *
+ * @param packageDir The directory of the module.
+ * @param expectedPackageName The package name the module is expected to have,
+ * based on where it is installed.
+ */
+export async function readModuleInfo(
+  packageDir: string,
+  expectedPackageName?: string
+): Promise<ModuleInfo> {
+  const packageJsonPath = path.join(packageDir, "package.json");
+  try {
+    return {
+      untrustedPackageInfo: JSON.parse(await readFilePromise(packageJsonPath)),
+      path: packageDir,
+      expectedPackageName: expectedPackageName
+    };
+  } catch (e) {
+    return {
+      untrustedPackageInfo: null,
+      path: packageDir,
+      expectedPackageName: expectedPackageName,
+      error:
+        e && e.code == "ENOENT"
+          ? "Missing package.json"
+          : "Unable to read package.json: " + e.message
+    };
+  }
+}
+
+export interface ILayoutResolver {
+  /**
+   * Returns the name of the layout, such as `pnpm`, which is how the layout
+   * is selected with `--layout` on the command line.
+   */
+  getName(): string;
+
+  /**
+   * Returns whether the packages of a project are installed with this layout.
+   *
+   * @param dir The project directory.
+   */
+  isUsedBy(dir: string): Promise<boolean>;
+
+  /**
+   * Returns the real directories of the packages installed for a project,
+   * not including the project itself.
+   *
+   * @param dir The project directory.
+   */
+  findModules(dir: string): Promise<ModuleInfo[]>;
+}
@@ -0,0 +1,127 @@
+import * as path from "path";
+import * as fs from "fs";
+import { ILayoutResolver, ModuleInfo, readModuleInfo } from ".";
+import { readFilePromise, createWorkingDirectory } from "../util/fsPromise";
+import { extractZipFolder } from "../util/zip";
+
+interface PnpPackageInformation {
+  // Where the package is installed, relative to the project directory. This
+  // can be a folder inside a zip archive in the Yarn cache.
+  packageLocation: string;
+
+  // "SOFT" for workspaces and links, which aren't installed packages.
+  linkType?: string;
+}
+
+interface PnpRuntimeState {
+  packageRegistryData: [
+    string | null,
+    [string | null, PnpPackageInformation][]
+  ][];
+}
+
+/**
+ * Reads the Yarn PnP runtime state of a project, from `.pnp.data.json` if
+ * Yarn was configured to write it, or from the state that is inlined into
+ * `.pnp.cjs` otherwise.
+ *
+ * @param dir The project directory.
+ */
+async function readPnpRuntimeState(dir: string): Promise<PnpRuntimeState> {
+  const dataPath = path.join(dir, ".pnp.data.json");
+  if (fs.existsSync(dataPath)) {
+    return JSON.parse(await readFilePromise(dataPath)) as PnpRuntimeState;
+  }
+
+  // The state is inlined as a single quoted string literal containing JSON.
+  const scriptPath = path.join(dir, ".pnp.cjs");
+  const script = await readFilePromise(scriptPath);
+  const match = /RAW_RUNTIME_STATE\s*=\s*'((?:[^'\\]|\\[\s\S])*)'/.exec(script);
+  if (match === null) {
+    throw new Error("unable to find the PnP runtime state in " + scriptPath);
+  }
+  return JSON.parse(
+    match[1].replace(/\\(\r?\n|[\s\S])/g, (escape, character) =>
+      character[0] == "\r" || character[0] == "\n" ? "\n" : character
+    )
+  ) as PnpRuntimeState;
+}
+
+/**
+ * Resolves a package location in Yarn's `__virtual__` folder (which Yarn uses
+ * for packages with peer dependencies) to where the package really is. The
+ * location is normalized, so that each package is only extracted once.
+ *
+ * @param packageLocation The package location, relative to the project.
+ */
+function resolveVirtualLocation(packageLocation: string): string {
+  const match = /^(.*)\/__virtual__\/[^\/]+\/(\d+)\/(.*)$/.exec(
+    packageLocation
+  );
+  if (match === null) {
+    return path.posix.normalize(packageLocation);
+  }
+  let base = match[1];
+  for (let i = 0; i < parseInt(match[2]); i++) {
+    base += "/..";
+  }
+  return path.posix.join(base, match[3]);
+}
+
+export const PnpLayoutResolver: ILayoutResolver = {
+  getName: (): string => {
+    return "pnp";
+  },
+
+  isUsedBy: async (dir: string): Promise<boolean> => {
+    return (
+      fs.existsSync(path.join(dir, ".pnp.cjs")) ||
+      fs.existsSync(path.join(dir, ".pnp.data.json"))
+    );
+  },
+
+  findModules: async (dir: string): Promise<ModuleInfo[]> => {
+    const state = await readPnpRuntimeState(dir);
+
+    let locations = new Map<string, string>();
+    for (let [packageName, references] of state.packageRegistryData) {
+      if (packageName === null) {
+        // this is the top-level project.
+        continue;
+      }
+      for (let [, information] of references) {
+        if (information.linkType == "SOFT") {
+          continue;
+        }
+        locations.set(
+          resolveVirtualLocation(information.packageLocation),
+          packageName
+        );
+      }
+    }
+
+    let modules: ModuleInfo[] = [];
+    for (let [packageLocation, packageName] of locations) {
+      const location = path.join(dir, packageLocation);
+      let packageDir = location;
+      const zipIndex = packageLocation.indexOf(".zip/");
+      const isTemporary = zipIndex !== -1;
+      if (isTemporary) {
+        // Packages in the Yarn cache are stored in zip archives, so extract
+        // them to verify them.
+        packageDir = await createWorkingDirectory();
+        await extractZipFolder(
+          path.join(dir, packageLocation.substr(0, zipIndex + 4)),
+          packageLocation.substr(zipIndex + 5),
+          packageDir
+        );
+      }
+      modules.push({
+        ...(await readModuleInfo(packageDir, packageName)),
+        location: location.replace(/[\/\\]$/, ""),
+        isTemporary: isTemporary
+      });
+    }
+    return modules;
+  }
+};
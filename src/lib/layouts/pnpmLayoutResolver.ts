@@ -0,0 +1,88 @@
+import * as path from "path";
+import * as fs from "fs";
+import { ILayoutResolver, ModuleInfo, readModuleInfo } from ".";
+import {
+  readdirPromise,
+  lstatPromise,
+  realpathPromise
+} from "../util/fsPromise";
+
+/**
+ * Returns the packages in a `node_modules` folder of a pnpm project that are
+ * real directories. The other packages in the folder are symlinks to packages
+ * in the virtual store, which are found through their own store entries.
+ *
+ * @param nodeModulesDir The `node_modules` folder of a store entry, or of the
+ * project itself.
+ */
+async function findPackagesInStoreEntry(
+  nodeModulesDir: string
+): Promise<ModuleInfo[]> {
+  let packageNames: string[] = [];
+  for (let name of await readdirPromise(nodeModulesDir)) {
+    if (name[0] == "@") {
+      for (let scopedName of await readdirPromise(
+        path.join(nodeModulesDir, name)
+      )) {
+        packageNames.push(name + "/" + scopedName);
+      }
+    } else if (name[0] != ".") {
+      packageNames.push(name);
+    }
+  }
+
+  let modules: ModuleInfo[] = [];
+  for (let packageName of packageNames) {
+    const packageDir = path.join(nodeModulesDir, packageName);
+    if ((await lstatPromise(packageDir)).isSymbolicLink()) {
+      continue;
+    }
+    modules.push(await readModuleInfo(packageDir, packageName));
+  }
+  return modules;
+}
+
+export const PnpmLayoutResolver: ILayoutResolver = {
+  getName: (): string => {
+    return "pnpm";
+  },
+
+  isUsedBy: async (dir: string): Promise<boolean> => {
+    return fs.existsSync(path.join(dir, "node_modules", ".pnpm"));
+  },
+
+  findModules: async (dir: string): Promise<ModuleInfo[]> => {
+    // pnpm installs every package into its own entry in the virtual store
+    // (`node_modules/.pnpm/<name>@<version>/node_modules/<name>`), and
+    // symlinks packages into the `node_modules` folders that depend on them.
+    const storeDir = path.join(dir, "node_modules", ".pnpm");
+    let modules: ModuleInfo[] = [];
+    for (let entry of (await readdirPromise(storeDir)).sort()) {
+      const nodeModulesDir = path.join(storeDir, entry, "node_modules");
+      if (entry == "node_modules" || !fs.existsSync(nodeModulesDir)) {
+        // `node_modules/.pnpm/node_modules` only contains symlinks to the
+        // hoisted packages.
+        continue;
+      }
+      modules.push(...(await findPackagesInStoreEntry(nodeModulesDir)));
+    }
+
+    // Packages can also be placed directly in the project's `node_modules`
+    // folder as real directories (e.g. with `node-linker=hoisted`, or when
+    // copied there by hand), and are loaded by Node from there.
+    let realPaths = new Set<string>();
+    for (let moduleInfo of modules) {
+      realPaths.add(await realpathPromise(moduleInfo.path));
+    }
+    for (let moduleInfo of await findPackagesInStoreEntry(
+      path.join(dir, "node_modules")
+    )) {
+      const realPath = await realpathPromise(moduleInfo.path);
+      if (!realPaths.has(realPath)) {
+        realPaths.add(realPath);
+        modules.push(moduleInfo);
+      }
+    }
+    return modules;
+  }
+};
@@ -0,0 +1,37 @@
+import { ClassicLayoutResolver } from "./classicLayoutResolver";
+import { PnpLayoutResolver } from "./pnpLayoutResolver";
+import { PnpmLayoutResolver } from "./pnpmLayoutResolver";
+import { ILayoutResolver } from ".";
+
+// Layouts are detected in this order, so the classic layout, which every
+// project can use, must be last.
+export const availableLayoutResolvers: ILayoutResolver[] = [
+  PnpLayoutResolver,
+  PnpmLayoutResolver,
+  ClassicLayoutResolver
+];
+
+export const availableLayoutResolversByName = new Map<
+  string,
+  ILayoutResolver
+>();
+for (const layoutResolver of availableLayoutResolvers) {
+  availableLayoutResolversByName.set(layoutResolver.getName(), layoutResolver);
+}
+
+/**
+ * Returns the layout resolver for the layout that a project's packages are
+ * installed with.
+ *
+ * @param dir The project directory.
+ */
+export async function detectLayoutResolver(
+  dir: string
+): Promise<ILayoutResolver> {
+  for (const layoutResolver of availableLayoutResolvers) {
+    if (await layoutResolver.isUsedBy(dir)) {
+      return layoutResolver;
+    }
+  }
+  return ClassicLayoutResolver;
+}
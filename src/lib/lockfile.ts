@@ -0,0 +1,359 @@
+import * as path from "path";
+import * as fs from "fs";
+import { readFilePromise } from "./util/fsPromise";
+
+/**
+ * The lockfiles that pkgsign can check installed modules against, in the
+ * order they are looked for.
+ */
+export const lockfileNames = [
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "yarn.lock"
+];
+
+export interface LockedPackage {
+  // The name of the package.
+  name: string;
+
+  // The locked version of the package.
+  version: string;
+
+  // Where the package is installed, relative to the project directory (such
+  // as `node_modules/a/node_modules/b`). yarn.lock doesn't record where
+  // packages are installed, so this is only set for npm lockfiles.
+  path?: string;
+
+  // Whether the package is an optional dependency, which might not be
+  // installed (for example, because it only supports other platforms).
+  optional?: boolean;
+}
+
+export interface InstalledModule {
+  // The name of the package, from where it is installed.
+  packageName: string;
+
+  // The version in the package's package.json.
+  version: string;
+
+  // Where the package is installed, relative to the project directory.
+  path: string;
+}
+
+export enum LockfileFindingKind {
+  // When a module is installed, but the lockfile doesn't expect it.
+  NotInLockfile,
+
+  // When a module is installed at a different version than the locked
+  // version.
+  VersionMismatch,
+
+  // When the lockfile expects a module that isn't installed.
+  Missing
+}
+
+export interface LockfileFinding {
+  kind: LockfileFindingKind;
+  packageName: string;
+
+  // Where the module is installed, or where the lockfile expects it to be
+  // installed, relative to the project directory.
+  path: string;
+
+  // The installed version, if the module is installed.
+  installedVersion?: string;
+
+  // The locked versions, if the lockfile knows about the module.
+  lockedVersions?: string[];
+}
+
+/**
+ * Returns the path of the lockfile in a project directory, or null if the
+ * project doesn't have a lockfile.
+ *
+ * @param dir The project directory.
+ */
+export function findLockfile(dir: string): string | null {
+  for (let lockfileName of lockfileNames) {
+    const lockfilePath = path.join(dir, lockfileName);
+    if (fs.existsSync(lockfilePath)) {
+      return lockfilePath;
+    }
+  }
+  return null;
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value[0] == '"' && value[value.length - 1] == '"'
+    ? JSON.parse(value)
+    : value;
+}
+
+/**
+ * Returns the package name of a yarn.lock dependency specifier, such as
+ * `@scope/pkg` for `@scope/pkg@^1.0.0`.
+ *
+ * @param specifier The dependency specifier.
+ */
+function getSpecifierPackageName(specifier: string): string {
+  const versionIndex = specifier.indexOf("@", 1);
+  return versionIndex == -1 ? specifier : specifier.substr(0, versionIndex);
+}
+
+/**
+ * Parses a v1 yarn.lock file.
+ *
+ * @param content The content of the yarn.lock file.
+ */
+export function parseYarnLock(content: string): LockedPackage[] {
+  let packages: LockedPackage[] = [];
+  let optionalNames: string[] = [];
+  let current: LockedPackage | null = null;
+  let inOptionalDependencies = false;
+  for (let line of content.split(/\r?\n/)) {
+    if (line.trim() == "" || line.trim()[0] == "#") {
+      continue;
+    }
+    const indent = line.length - line.replace(/^ +/, "").length;
+    const trimmed = line.trim();
+    if (indent == 0) {
+      if (trimmed.startsWith("__metadata")) {
+        throw new Error(
+          "only v1 yarn.lock files are supported; this lockfile was written by Yarn 2 or later"
+        );
+      }
+      const specifiers = trimmed
+        .replace(/:$/, "")
+        .split(",")
+        .map(specifier => unquote(specifier.trim()));
+      current = { name: getSpecifierPackageName(specifiers[0]), version: "" };
+      packages.push(current);
+      inOptionalDependencies = false;
+    } else if (indent == 2 && current !== null) {
+      inOptionalDependencies = trimmed == "optionalDependencies:";
+      const match = /^version\s+(.+)$/.exec(trimmed);
+      if (match !== null) {
+        current.version = unquote(match[1]);
+      }
+    } else if (indent == 4 && inOptionalDependencies) {
+      optionalNames.push(unquote(trimmed.split(/\s+/)[0]));
+    }
+  }
+
+  for (let lockedPackage of packages) {
+    if (lockedPackage.version == "") {
+      throw new Error(
+        "yarn.lock entry for " + lockedPackage.name + " has no version"
+      );
+    }
+    if (optionalNames.indexOf(lockedPackage.name) !== -1) {
+      lockedPackage.optional = true;
+    }
+  }
+  return packages;
+}
+
+interface PackageLockV1Dependency {
+  version: string;
+  optional?: boolean;
+  dependencies?: { [name: string]: PackageLockV1Dependency };
+}
+
+interface PackageLockPackage {
+  name?: string;
+  version?: string;
+  optional?: boolean;
+  link?: boolean;
+}
+
+interface PackageLock {
+  lockfileVersion?: number;
+  dependencies?: { [name: string]: PackageLockV1Dependency };
+  packages?: { [path: string]: PackageLockPackage };
+}
+
+function flattenPackageLockV1Dependencies(
+  dependencies: { [name: string]: PackageLockV1Dependency },
+  parentPath: string
+): LockedPackage[] {
+  let packages: LockedPackage[] = [];
+  for (let name of Object.keys(dependencies)) {
+    const dependency = dependencies[name];
+    const dependencyPath = parentPath + "node_modules/" + name;
+    packages.push({
+      name: name,
+      version: dependency.version,
+      path: dependencyPath,
+      optional: dependency.optional
+    });
+    if (dependency.dependencies !== undefined) {
+      packages.push(
+        ...flattenPackageLockV1Dependencies(
+          dependency.dependencies,
+          dependencyPath + "/"
+        )
+      );
+    }
+  }
+  return packages;
+}
+
+/**
+ * Parses a package-lock.json or npm-shrinkwrap.json file (lockfile versions 1,
+ * 2 and 3).
+ *
+ * @param content The content of the lockfile.
+ */
+export function parsePackageLock(content: string): LockedPackage[] {
+  const lock = JSON.parse(content) as PackageLock;
+  if (lock.packages !== undefined) {
+    // Lockfile versions 2 and 3 list every package by where it is installed.
+    let packages: LockedPackage[] = [];
+    for (let packagePath of Object.keys(lock.packages)) {
+      const lockedPackage = lock.packages[packagePath];
+      const nodeModulesIndex = packagePath.lastIndexOf("node_modules/");
+      if (nodeModulesIndex == -1 || lockedPackage.link) {
+        // This is the root package, a workspace, or a link to a workspace;
+        // none of these are installed from the registry.
+        continue;
+      }
+      packages.push({
+        name:
+          lockedPackage.name ||
+          packagePath.substr(nodeModulesIndex + "node_modules/".length),
+        version: lockedPackage.version || "",
+        path: packagePath,
+        optional: lockedPackage.optional
+      });
+    }
+    return packages;
+  }
+  if (lock.lockfileVersion === 1 || lock.dependencies !== undefined) {
+    return flattenPackageLockV1Dependencies(lock.dependencies || {}, "");
+  }
+  throw new Error("unsupported package-lock.json format");
+}
+
+/**
+ * Reads the packages locked by a lockfile.
+ *
+ * @param lockfilePath The path of the package-lock.json, npm-shrinkwrap.json
+ * or yarn.lock file.
+ */
+export async function readLockfile(
+  lockfilePath: string
+): Promise<LockedPackage[]> {
+  const content = await readFilePromise(lockfilePath);
+  try {
+    return path.basename(lockfilePath) == "yarn.lock"
+      ? parseYarnLock(content)
+      : parsePackageLock(content);
+  } catch (e) {
+    throw new Error("unable to parse " + lockfilePath + ": " + e.message);
+  }
+}
+
+/**
+ * Compares the installed modules with the packages in a lockfile, and returns
+ * the installed modules the lockfile doesn't expect, the modules installed at
+ * a different version, and the locked modules that aren't installed.
+ *
+ * @param lockedPackages The packages in the lockfile.
+ * @param installedModules The installed modules.
+ */
+export function compareWithLockfile(
+  lockedPackages: LockedPackage[],
+  installedModules: InstalledModule[]
+): LockfileFinding[] {
+  let findings: LockfileFinding[] = [];
+  const hasPaths = lockedPackages.every(
+    lockedPackage => lockedPackage.path !== undefined
+  );
+
+  // npm lockfiles record exactly where each package is installed, but
+  // yarn.lock only records which versions of each package are installed.
+  const findLocked = (installedModule: InstalledModule) =>
+    lockedPackages.filter(lockedPackage =>
+      hasPaths
+        ? lockedPackage.path == installedModule.path
+        : lockedPackage.name == installedModule.packageName
+    );
+  for (let installedModule of installedModules) {
+    const locked = findLocked(installedModule);
+    if (locked.length == 0) {
+      findings.push({
+        kind: LockfileFindingKind.NotInLockfile,
+        packageName: installedModule.packageName,
+        path: installedModule.path,
+        installedVersion: installedModule.version
+      });
+    } else if (
+      !locked.some(
+        lockedPackage => lockedPackage.version == installedModule.version
+      )
+    ) {
+      findings.push({
+        kind: LockfileFindingKind.VersionMismatch,
+        packageName: installedModule.packageName,
+        path: installedModule.path,
+        installedVersion: installedModule.version,
+        lockedVersions: locked.map(lockedPackage => lockedPackage.version)
+      });
+    }
+  }
+
+  for (let lockedPackage of lockedPackages) {
+    const isInstalled = installedModules.some(installedModule =>
+      hasPaths
+        ? installedModule.path == lockedPackage.path
+        : installedModule.packageName == lockedPackage.name &&
+          installedModule.version == lockedPackage.version
+    );
+    if (!isInstalled && !lockedPackage.optional) {
+      findings.push({
+        kind: LockfileFindingKind.Missing,
+        packageName: lockedPackage.name,
+        path: lockedPackage.path || "node_modules/" + lockedPackage.name,
+        lockedVersions: [lockedPackage.version]
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Returns a human readable sentence describing a lockfile finding.
+ *
+ * @param finding The lockfile finding.
+ */
+export function describeLockfileFinding(finding: LockfileFinding): string {
+  const lockedVersions = (finding.lockedVersions || []).join(", ");
+  switch (finding.kind) {
+    case LockfileFindingKind.NotInLockfile:
+      return (
+        "Package '" +
+        finding.packageName +
+        "' is installed at " +
+        finding.path +
+        ", but is not in the lockfile"
+      );
+    case LockfileFindingKind.VersionMismatch:
+      return (
+        "Package '" +
+        finding.packageName +
+        "' is installed at version " +
+        finding.installedVersion +
+        ", but the lockfile expects " +
+        lockedVersions
+      );
+    case LockfileFindingKind.Missing:
+      return (
+        "Package '" +
+        finding.packageName +
+        "' " +
+        lockedVersions +
+        " is in the lockfile, but is not installed at " +
+        finding.path
+      );
+  }
+}
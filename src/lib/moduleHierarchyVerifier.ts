@@ -3,20 +3,42 @@ import { ModuleVerifier } from "./moduleVerifier";
 import { ITrustStore } from "./trustStore";
 import * as packlist from "npm-packlist";
 import { queueTelemetryFromModuleVerificationResult } from "../lib/telemetry";
-import { ModuleVerificationResult } from "./types";
-import { readFilePromise, readdirPromise } from "./util/fsPromise";
-
-export interface ModuleInfo {
-  untrustedPackageInfo: any;
-  path: string;
-}
+import { ModuleVerificationResult, ModuleVerificationStatus } from "./types";
+import {
+  readFilePromise,
+  realpathPromise,
+  removeDirectoryPromise
+} from "./util/fsPromise";
+import { ILayoutResolver, ModuleInfo } from "./layouts";
+import { detectLayoutResolver } from "./layouts/registry";
+import {
+  LockfileFinding,
+  InstalledModule,
+  readLockfile,
+  compareWithLockfile
+} from "./lockfile";
 
 export class ModuleHierarchyVerifier {
-  constructor(private dir: string, private trustStore: ITrustStore) {}
+  /**
+   * @param layoutResolver The layout that the packages are installed with,
+   * or null to detect it.
+   * @param excludedDirs Directories whose packages aren't dependencies of
+   * this package, even if they are linked into node_modules (such as the
+   * other workspaces of a monorepo, which are verified separately).
+   * @param detachedSignature The signature document of the package itself,
+   * if its signature is detached instead of being its signature.json.
+   */
+  constructor(
+    private dir: string,
+    private trustStore: ITrustStore,
+    private layoutResolver: ILayoutResolver | null = null,
+    private excludedDirs: string[] = [],
+    private detachedSignature: string | null = null
+  ) {}
 
   public async verify(): Promise<{ [path: string]: ModuleVerificationResult }> {
     // build up a list of node modules we need to verify, based on the current directory
-    const modules = await this.findModules(this.dir);
+    const modules = await this.findModules();
     modules.push({
       untrustedPackageInfo: JSON.parse(
         await readFilePromise(path.join(this.dir, "package.json"))
@@ -30,23 +52,50 @@ export class ModuleHierarchyVerifier {
     for (let moduleInfo of modules) {
       promises.push(
         (async moduleInfo => {
-          let expectedPackageName = path.basename(moduleInfo.path);
-          if (expectedPackageName == ".") {
-            // This is the top-level module we want to verify. Because this module might be
-            // cloned by the user with Git into a directory name that doesn't match, we
-            // trust package.json for the expected package name instead.
-            expectedPackageName = moduleInfo.untrustedPackageInfo.name || "";
+          try {
+            let expectedPackageName =
+              moduleInfo.expectedPackageName || path.basename(moduleInfo.path);
+            if (moduleInfo.path == this.dir) {
+              // This is the top-level module we want to verify. Because this module might be
+              // cloned by the user with Git into a directory name that doesn't match (or be a
+              // workspace whose folder isn't named after its package), we trust package.json
+              // for the expected package name instead.
+              expectedPackageName = moduleInfo.untrustedPackageInfo.name || "";
+            }
+            const resultPath = moduleInfo.location || moduleInfo.path;
+            let files: string[];
+            try {
+              if (moduleInfo.error !== undefined) {
+                throw new Error(moduleInfo.error);
+              }
+              files = await packlist({ path: moduleInfo.path });
+            } catch (e) {
+              // The module is installed, but we can't tell what's in it.
+              results[resultPath] = {
+                status: ModuleVerificationStatus.Unverifiable,
+                reason: e.message,
+                packageName: expectedPackageName,
+                untrustedPackageVersion: "",
+                isPrivate: false
+              };
+              return;
+            }
+            let result = await moduleVerifier.verify(
+              moduleInfo.path,
+              files,
+              expectedPackageName,
+              moduleInfo.path == this.dir && this.detachedSignature !== null
+                ? this.detachedSignature
+                : undefined
+            );
+            results[resultPath] = result;
+            await queueTelemetryFromModuleVerificationResult(
+              "verify-module",
+              result
+            );
+          } finally {
+            await this.removeTemporaryModule(moduleInfo);
           }
-          let result = await moduleVerifier.verify(
-            moduleInfo.path,
-            await packlist({ path: moduleInfo.path }),
-            expectedPackageName
-          );
-          results[moduleInfo.path] = result;
-          await queueTelemetryFromModuleVerificationResult(
-            "verify-module",
-            result
-          );
         })(moduleInfo)
       );
     }
@@ -55,50 +104,91 @@ export class ModuleHierarchyVerifier {
     return results;
   }
 
-  private async findModules(dir: string): Promise<ModuleInfo[]> {
-    let resultModules: ModuleInfo[] = [];
-    let ourModules: string[] = [];
-    try {
-      ourModules = await readdirPromise(path.join(dir, "node_modules"));
-    } catch (e) {
-      if (e && e.code == "ENOENT") {
-        // this package has no child modules.
-      } else if (e && e.code == "ENOTDIR") {
-        // this is not a package (e.g. .yarn-integrity file)
-      } else {
-        throw e;
-      }
+  /**
+   * Checks that the installed modules match the packages in a lockfile.
+   *
+   * @param lockfilePath The path of the package-lock.json, npm-shrinkwrap.json
+   * or yarn.lock file.
+   */
+  public async checkLockfile(lockfilePath: string): Promise<LockfileFinding[]> {
+    // Packages installed into excluded directories (such as the node_modules
+    // folders of other workspaces) aren't expected to be installed here.
+    const excludedRelativeDirs = this.excludedDirs.map(excludedDir =>
+      path.relative(this.dir, excludedDir).replace(/\\/g, "/")
+    );
+    const lockedPackages = (await readLockfile(lockfilePath)).filter(
+      lockedPackage =>
+        !excludedRelativeDirs.some(
+          excludedRelativeDir =>
+            lockedPackage.path !== undefined &&
+            lockedPackage.path.startsWith(excludedRelativeDir + "/")
+        )
+    );
+    const modules = await this.findModules();
+    for (let moduleInfo of modules) {
+      await this.removeTemporaryModule(moduleInfo);
     }
-    for (let otherModule of ourModules) {
-      if (otherModule[0] == "@") {
-        // this is a namespace folder, iterate through it instead.
-        const nsModules = await readdirPromise(
-          path.join(dir, "node_modules", otherModule)
-        );
-        for (let nsModule of nsModules) {
-          const theirModules = await this.findModules(
-            path.join(dir, "node_modules", otherModule, nsModule)
-          );
-          resultModules.push(...theirModules);
-        }
+    const installedModules: InstalledModule[] = modules.map(moduleInfo => {
+      const relativePath = path
+        .relative(this.dir, moduleInfo.location || moduleInfo.path)
+        .replace(/\\/g, "/");
+      return {
+        packageName:
+          moduleInfo.expectedPackageName ||
+          relativePath.substr(
+            relativePath.lastIndexOf("node_modules/") + "node_modules/".length
+          ),
+        version: (moduleInfo.untrustedPackageInfo || {}).version || "",
+        path: relativePath
+      };
+    });
+    return compareWithLockfile(lockedPackages, installedModules);
+  }
+
+  private async findModules(): Promise<ModuleInfo[]> {
+    const layoutResolver =
+      this.layoutResolver || (await detectLayoutResolver(this.dir));
+
+    let excludedRealPaths: string[] = [];
+    for (let excludedDir of this.excludedDirs) {
+      excludedRealPaths.push(await realpathPromise(excludedDir));
+    }
+
+    // The same package can be reached through several symlinks, so only
+    // verify each real package directory once.
+    let realPaths: string[] = [];
+    let modules: ModuleInfo[] = [];
+    for (let moduleInfo of await layoutResolver.findModules(this.dir)) {
+      const realPath = await realpathPromise(moduleInfo.path);
+      if (
+        excludedRealPaths.some(
+          excludedRealPath =>
+            realPath == excludedRealPath ||
+            realPath.startsWith(excludedRealPath + path.sep)
+        )
+      ) {
+        await this.removeTemporaryModule(moduleInfo);
+        continue;
+      }
+      if (realPaths.indexOf(realPath) === -1) {
+        realPaths.push(realPath);
+        modules.push(moduleInfo);
       } else {
-        const theirModules = await this.findModules(
-          path.join(dir, "node_modules", otherModule)
-        );
-        resultModules.push(...theirModules);
+        await this.removeTemporaryModule(moduleInfo);
       }
+    }
+    return modules;
+  }
 
-      if (otherModule[0] != "." && otherModule[0] != "@") {
-        resultModules.push({
-          untrustedPackageInfo: JSON.parse(
-            await readFilePromise(
-              path.join(dir, "node_modules", otherModule, "package.json")
-            )
-          ),
-          path: path.join(dir, "node_modules", otherModule)
-        });
-      }
+  /**
+   * Removes the temporary directory a module was extracted to, if it was
+   * extracted to verify it.
+   *
+   * @param moduleInfo The module.
+   */
+  private async removeTemporaryModule(moduleInfo: ModuleInfo): Promise<void> {
+    if (moduleInfo.isTemporary) {
+      await removeDirectoryPromise(moduleInfo.path);
     }
-    return resultModules;
   }
 }
@@ -1,28 +1,225 @@
-import * as path from "path";
-import { ITrustStore } from "./trustStore";
+import { ITrustStore, TrustGrant } from "./trustStore";
 import {
   ModuleVerificationResult,
   ModuleVerificationStatus,
-  SignatureIdentity
+  SignatureIdentity,
+  identityToString,
+  identitiesAreEqual,
+  normalizeFingerprint
 } from "./types";
-import { readFilePromise } from "./util/fsPromise";
+import {
+  formatSignatureRequirement,
+  getRequiredSigners,
+  patternMatchesPackage
+} from "./trustRules";
+import { IVirtualFileSystem } from "./vfs";
+import { DiskFileSystem } from "./vfs/diskFileSystem";
 import {
   UnverifiedSignatureDocument,
   readUnverifiedSignatureDocument
 } from "./signature";
 import { availableEntryHandlersByName } from "./entryHandlers/registry";
-import { IIdentityProvider } from "./identity";
+import {
+  MetadataEntry,
+  findSignatureMetadata
+} from "./entryHandlers/metadataEntryHandler";
+import { IIdentityProvider, IIdentityVerificationResult } from "./identity";
 import { KeybaseIdentityProvider } from "./identity/keybase";
 import { PgpIdentityProvider } from "./identity/pgp";
+import { PgpKeyringIdentityProvider } from "./identity/pgpKeyring";
+import { SshIdentityProvider } from "./identity/ssh";
+import { Ed25519IdentityProvider } from "./identity/ed25519";
+import {
+  SourcedRevocation,
+  loadRevocations,
+  findRevocation,
+  formatRevocation
+} from "./revocationList";
+
+interface SignatureVerification extends IIdentityVerificationResult {
+  // Why the signature couldn't be verified at all (for example, because the
+  // public key that made it isn't available), if it couldn't.
+  error?: string;
+}
+
+interface VerifiedSigner extends IIdentityVerificationResult {
+  identity: SignatureIdentity;
+
+  // When the signature was made, if known. Cosignatures are made after the
+  // signature metadata is signed, so their signing time isn't known.
+  signedAt: Date | null;
+}
+
+interface KeyChange {
+  // The fingerprint of the key that made the signature.
+  keyFingerprint: string;
+
+  // The fingerprints of the keys the identity is trusted to sign with.
+  trustedFingerprints: string[];
+}
+
+/**
+ * Returns the key change if trust was pinned to specific keys, and the
+ * signer didn't sign with one of them, or null if the key is trusted.
+ *
+ * @param trustGrant The trust granted to the signer's identity.
+ * @param signer The identity that signed the package.
+ */
+function findKeyChange(
+  trustGrant: TrustGrant,
+  signer: VerifiedSigner
+): KeyChange | null {
+  if (
+    trustGrant.fingerprints === undefined ||
+    trustGrant.fingerprints.length == 0
+  ) {
+    return null;
+  }
+  const trustedFingerprints = trustGrant.fingerprints.map(normalizeFingerprint);
+  const keyFingerprint = signer.fingerprint || "unknown";
+  if (trustedFingerprints.indexOf(keyFingerprint) !== -1) {
+    return null;
+  }
+  return { keyFingerprint, trustedFingerprints };
+}
+
+/**
+ * Returns why a signature by a key that the signer isn't trusted to sign with
+ * isn't trusted.
+ *
+ * @param identity The identity that made the signature.
+ * @param keyChange The key that made the signature, and the trusted keys.
+ */
+function describeKeyChange(
+  identity: SignatureIdentity,
+  keyChange: KeyChange
+): string {
+  return (
+    "Signed with key " +
+    keyChange.keyFingerprint +
+    ", but " +
+    identityToString(identity) +
+    " is only trusted to sign with key " +
+    keyChange.trustedFingerprints.join(", ")
+  );
+}
+
+/**
+ * Returns why a package's signatures have expired, or null if they haven't.
+ * Signatures expire when the signer-declared expiry date has passed, or when
+ * they were made after the key that made them expired.
+ *
+ * @param metadata The signature metadata, if the package has any.
+ * @param signers The identities that validly signed the package.
+ */
+function getSignatureExpiredReason(
+  metadata: MetadataEntry | null,
+  signers: VerifiedSigner[]
+): string | null {
+  if (
+    metadata !== null &&
+    metadata.expires !== undefined &&
+    new Date() > new Date(metadata.expires)
+  ) {
+    return "The signature expired on " + metadata.expires;
+  }
+
+  for (let signer of signers) {
+    const signedAt =
+      signer.signedAt !== null
+        ? "Signed on " + signer.signedAt.toISOString() + ", after"
+        : "Signed after";
+    if (
+      signer.keyExpires !== undefined &&
+      signer.signedAt !== null &&
+      signer.signedAt > signer.keyExpires
+    ) {
+      return (
+        signedAt +
+        " the key of " +
+        identityToString(signer.identity) +
+        " expired on " +
+        signer.keyExpires.toISOString()
+      );
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns why a signature by a revoked key isn't valid. Signatures by revoked
+ * keys are rejected regardless of when they claim to have been made, since a
+ * stolen key can be used to backdate signatures.
+ *
+ * @param identity The identity that made the signature.
+ * @param keyRevoked When the key was revoked.
+ */
+function describeRevokedKey(identity: SignatureIdentity, keyRevoked: Date) {
+  return (
+    "The key of " +
+    identityToString(identity) +
+    " was revoked on " +
+    keyRevoked.toISOString()
+  );
+}
+
+/**
+ * Returns the identity provider that verifies signatures made by an identity,
+ * or null if the identity is of an unknown type.
+ *
+ * @param identity The identity.
+ */
+function getIdentityProvider(
+  identity: SignatureIdentity
+): IIdentityProvider | null {
+  if (identity.keybaseUser !== undefined) {
+    return KeybaseIdentityProvider;
+  } else if (identity.pgpPublicKeyUrl !== undefined) {
+    return PgpIdentityProvider;
+  } else if (identity.pgpFingerprint !== undefined) {
+    return PgpKeyringIdentityProvider;
+  } else if (identity.sshPrincipal !== undefined) {
+    return SshIdentityProvider;
+  } else if (identity.ed25519Fingerprint !== undefined) {
+    return Ed25519IdentityProvider;
+  } else {
+    return null;
+  }
+}
+
+// How long loaded revocations are used for, in seconds, before they are
+// loaded again. Revocation lists fetched from URLs are also cached by the
+// trust store, with the same expiry as public keys.
+const revocationsReloadInterval = 60;
 
 export class ModuleVerifier {
+  private revocations: Promise<SourcedRevocation[]> | null = null;
+
+  // When the loaded revocations expire, in seconds since the epoch.
+  private revocationsExpiryUtc = 0;
+
   constructor(private trustStore: ITrustStore) {}
 
+  /**
+   * Verifies a package against its signature.
+   *
+   * @param dir The package directory, or the files of the package if they
+   * aren't in a directory on disk (such as the files of a tarball).
+   * @param relFilesOnDisk The paths of the package's files, relative to the
+   * package directory.
+   * @param expectedPackageName The package name the package is expected to
+   * have.
+   * @param detachedSignature The signature document, if the signature is
+   * detached from the package instead of being its signature.json.
+   */
   public async verify(
-    dir: string,
+    dir: string | IVirtualFileSystem,
     relFilesOnDisk: string[],
-    expectedPackageName: string
+    expectedPackageName: string,
+    detachedSignature?: string
   ): Promise<ModuleVerificationResult> {
+    const fileSystem = typeof dir == "string" ? new DiskFileSystem(dir) : dir;
+
     // Try to read whether or not the module is private early so we
     // can return the information to the caller. This field is untrusted, and
     // is only used by telemetry when determining the amount of data to send.
@@ -30,9 +227,7 @@ export class ModuleVerifier {
     let untrustedPackageVersion = "";
     let earlyPackageInfo;
     try {
-      earlyPackageInfo = JSON.parse(
-        await readFilePromise(path.join(dir, "package.json"))
-      );
+      earlyPackageInfo = JSON.parse(await fileSystem.readFile("package.json"));
       isPrivate = earlyPackageInfo.private || false;
       untrustedPackageVersion = earlyPackageInfo.version || "";
     } catch (e) {}
@@ -40,12 +235,18 @@ export class ModuleVerifier {
     // Load the signature document.
     let signature: UnverifiedSignatureDocument;
     try {
-      const rawJson = await readFilePromise(path.join(dir, "signature.json"));
+      const rawJson =
+        detachedSignature !== undefined
+          ? detachedSignature
+          : await fileSystem.readFile("signature.json");
       signature = await readUnverifiedSignatureDocument(rawJson);
     } catch (e) {
       return {
         status: ModuleVerificationStatus.Unsigned,
-        reason: "Missing or unparsable signature.json",
+        reason:
+          detachedSignature !== undefined
+            ? "Unparsable detached signature"
+            : "Missing or unparsable signature.json",
         packageName: expectedPackageName,
         untrustedPackageVersion: untrustedPackageVersion,
         isPrivate: isPrivate
@@ -68,21 +269,8 @@ export class ModuleVerifier {
       }
     }
 
-    // Find an entry that provides an identity.
-    let identity: SignatureIdentity | null = null;
-    for (let entry of signature.entries) {
-      const handler = availableEntryHandlersByName.get(entry.entry);
-      if (handler === undefined) {
-        throw new Error(
-          "handler is undefined, even though it was previously checked"
-        );
-      }
-      const localIdentity = handler.getIdentity(entry.value);
-      if (localIdentity !== null) {
-        identity = localIdentity;
-        break;
-      }
-    }
+    // The identity that made the signature is in the entries.
+    const identity = signature.identity;
     if (identity === null) {
       return {
         status: ModuleVerificationStatus.Compromised,
@@ -97,12 +285,13 @@ export class ModuleVerifier {
     // Now we know the package contents matches the files expected by the signature, and all
     // of the hashes match, but now we need to locate the public keys for the signature so
     // we can verify it.
-    let identityProvider: IIdentityProvider;
-    if (identity.keybaseUser !== undefined) {
-      identityProvider = KeybaseIdentityProvider;
-    } else if (identity.pgpPublicKeyUrl !== undefined) {
-      identityProvider = PgpIdentityProvider;
-    } else {
+    const identityProvider = getIdentityProvider(identity);
+    if (
+      identityProvider === null ||
+      signature.cosignatures.some(
+        cosignature => getIdentityProvider(cosignature.identity) === null
+      )
+    ) {
       return {
         status: ModuleVerificationStatus.Compromised,
         reason: "Unknown identity in signature.json",
@@ -115,13 +304,14 @@ export class ModuleVerifier {
 
     // Verify each of the entries.
     const context = {
-      dir: dir,
+      fileSystem: fileSystem,
       relFilesOnDisk: relFilesOnDisk,
       expectedPackageName: expectedPackageName,
       untrustedIdentity: identity,
       untrustedPackageVersion: untrustedPackageVersion,
       isPrivate: isPrivate,
-      entries: signature.entries
+      entries: signature.entries,
+      detached: detachedSignature !== undefined
     };
     for (const entry of signature.entries) {
       const handler = availableEntryHandlersByName.get(entry.entry);
@@ -137,16 +327,30 @@ export class ModuleVerifier {
     }
 
     // Request the verifier verify the signature.
-    if (
-      !(await identityProvider.verify(
-        {
-          trustStore: this.trustStore
-        },
-        identity,
-        signature.signature,
-        signature.locallyComputedDeterministicString
-      ))
-    ) {
+    const verification = await this.verifySignature(
+      identityProvider,
+      identity,
+      signature.signature,
+      signature.locallyComputedDeterministicString
+    );
+    if (verification.error !== undefined) {
+      return {
+        status: ModuleVerificationStatus.Unverifiable,
+        reason: verification.error,
+        packageName: expectedPackageName,
+        untrustedPackageVersion: untrustedPackageVersion,
+        isPrivate: isPrivate
+      };
+    } else if (!verification.valid && verification.keyRevoked !== undefined) {
+      return {
+        status: ModuleVerificationStatus.Expired,
+        reason: describeRevokedKey(identity, verification.keyRevoked),
+        packageName: expectedPackageName,
+        untrustedPackageVersion: untrustedPackageVersion,
+        isPrivate: isPrivate,
+        untrustedIdentity: identity
+      };
+    } else if (!verification.valid) {
       return {
         status: ModuleVerificationStatus.Compromised,
         reason: "The signature does not match",
@@ -157,13 +361,120 @@ export class ModuleVerifier {
       };
     }
 
+    // Cosignatures are made over the same deterministic string, and must all
+    // be valid as well.
+    const metadata = findSignatureMetadata(signature.entries);
+    let signers: VerifiedSigner[] = [
+      {
+        ...verification,
+        identity: identity,
+        signedAt: metadata !== null ? new Date(metadata.signedAt) : null
+      }
+    ];
+    for (let cosignature of signature.cosignatures) {
+      const cosignatureVerification = await this.verifySignature(
+        getIdentityProvider(cosignature.identity) as IIdentityProvider,
+        cosignature.identity,
+        cosignature.signature,
+        signature.locallyComputedDeterministicString
+      );
+      if (cosignatureVerification.error !== undefined) {
+        return {
+          status: ModuleVerificationStatus.Unverifiable,
+          reason: cosignatureVerification.error,
+          packageName: expectedPackageName,
+          untrustedPackageVersion: untrustedPackageVersion,
+          isPrivate: isPrivate
+        };
+      } else if (
+        !cosignatureVerification.valid &&
+        cosignatureVerification.keyRevoked !== undefined
+      ) {
+        return {
+          status: ModuleVerificationStatus.Expired,
+          reason: describeRevokedKey(
+            cosignature.identity,
+            cosignatureVerification.keyRevoked
+          ),
+          packageName: expectedPackageName,
+          untrustedPackageVersion: untrustedPackageVersion,
+          isPrivate: isPrivate,
+          untrustedIdentity: identity
+        };
+      } else if (!cosignatureVerification.valid) {
+        return {
+          status: ModuleVerificationStatus.Compromised,
+          reason:
+            "The cosignature by " +
+            identityToString(cosignature.identity) +
+            " does not match",
+          packageName: expectedPackageName,
+          untrustedPackageVersion: untrustedPackageVersion,
+          isPrivate: isPrivate,
+          untrustedIdentity: identity
+        };
+      }
+      signers.push({
+        ...cosignatureVerification,
+        identity: cosignature.identity,
+        signedAt: null
+      });
+    }
+
+    // A package signed by a revoked key can't be trusted, even if it was
+    // signed before the key was revoked. If the revocation lists can't be
+    // loaded, it's unknown whether the keys are revoked.
+    let revocations: SourcedRevocation[];
+    try {
+      revocations = await this.loadRevocations();
+    } catch (e) {
+      return {
+        status: ModuleVerificationStatus.Unverifiable,
+        reason: "Unable to load the revocation lists: " + e.message,
+        packageName: expectedPackageName,
+        untrustedPackageVersion: untrustedPackageVersion,
+        isPrivate: isPrivate
+      };
+    }
+    for (let signer of signers) {
+      const revocation = findRevocation(
+        revocations,
+        signer.identity,
+        signer.fingerprint
+      );
+      if (revocation !== null) {
+        return {
+          status: ModuleVerificationStatus.Compromised,
+          reason:
+            "Signed by " +
+            identityToString(signer.identity) +
+            ", but " +
+            formatRevocation(revocation),
+          packageName: expectedPackageName,
+          untrustedPackageVersion: untrustedPackageVersion,
+          isPrivate: isPrivate,
+          untrustedIdentity: signer.identity
+        };
+      }
+    }
+
+    const expiredReason = getSignatureExpiredReason(metadata, signers);
+    if (expiredReason !== null) {
+      return {
+        status: ModuleVerificationStatus.Expired,
+        reason: expiredReason,
+        packageName: expectedPackageName,
+        untrustedPackageVersion: untrustedPackageVersion,
+        isPrivate: isPrivate,
+        untrustedIdentity: identity
+      };
+    }
+
     // Check the package name in package.json matches the expected
     // package name that was provided.
     let packageInfo: any = null;
     try {
-      packageInfo = JSON.parse(
-        await readFilePromise(path.join(dir, "package.json"))
-      );
+      packageInfo = JSON.parse(await fileSystem.readFile("package.json"));
     } catch (e) {
       return {
         status: ModuleVerificationStatus.Compromised,
@@ -190,23 +501,234 @@ export class ModuleVerifier {
       };
     }
 
-    // Package signature is valid, now we need to see if the identity
-    // is trusted for the given package name.
-    if (await this.trustStore.isTrusted(identity, expectedPackageName)) {
+    // If the package must be signed by several identities, it is only trusted
+    // when every requirement is met. Signers only count toward a requirement
+    // if the trust rules don't deny them (or only trust them at other times),
+    // and if they signed with a key that they are trusted to sign with.
+    const requirements = await this.trustStore.getSignatureRequirements(
+      expectedPackageName
+    );
+    if (requirements.length > 0) {
+      let countedSigners: VerifiedSigner[] = [];
+      let excludedSigners: SignatureIdentity[] = [];
+      let keyChangedSigner: VerifiedSigner | null = null;
+      let keyChange: KeyChange | null = null;
+      for (let signer of signers) {
+        const signerTrustGrant = await this.trustStore.findTrust(
+          signer.identity,
+          expectedPackageName
+        );
+        if (signerTrustGrant === null) {
+          if (await this.hasTrustRules(signer.identity, expectedPackageName)) {
+            excludedSigners.push(signer.identity);
+            continue;
+          }
+        } else {
+          const signerKeyChange = findKeyChange(signerTrustGrant, signer);
+          if (signerKeyChange !== null) {
+            excludedSigners.push(signer.identity);
+            keyChangedSigner = signer;
+            keyChange = signerKeyChange;
+            continue;
+          }
+        }
+        countedSigners.push(signer);
+      }
+
+      let signingIdentities: SignatureIdentity[] = [];
+      for (let requirement of requirements) {
+        const requiredSigners = getRequiredSigners(
+          requirement,
+          countedSigners.map(signer => signer.identity)
+        );
+        if (requiredSigners.length < requirement.threshold) {
+          if (keyChangedSigner !== null && keyChange !== null) {
+            return {
+              status: ModuleVerificationStatus.KeyChanged,
+              reason: describeKeyChange(keyChangedSigner.identity, keyChange),
+              untrustedIdentity: keyChangedSigner.identity,
+              packageName: expectedPackageName,
+              untrustedPackageVersion: untrustedPackageVersion,
+              isPrivate: isPrivate,
+              keyFingerprint: keyChange.keyFingerprint,
+              trustedFingerprints: keyChange.trustedFingerprints
+            };
+          }
+          return {
+            status: ModuleVerificationStatus.Untrusted,
+            reason:
+              "Requires signatures from " +
+              formatSignatureRequirement(requirement) +
+              ", but only " +
+              requiredSigners.length +
+              " of them signed it" +
+              (excludedSigners.length > 0
+                ? " (the trust rules don't trust " +
+                  excludedSigners.map(identityToString).join(", ") +
+                  " to sign it)"
+                : ""),
+            untrustedIdentity: identity,
+            packageName: expectedPackageName,
+            untrustedPackageVersion: untrustedPackageVersion,
+            isPrivate: isPrivate,
+            keyFingerprint: verification.fingerprint
+          };
+        }
+        for (let requiredSigner of requiredSigners) {
+          if (
+            !signingIdentities.some(signingIdentity =>
+              identitiesAreEqual(signingIdentity, requiredSigner)
+            )
+          ) {
+            signingIdentities.push(requiredSigner);
+          }
+        }
+      }
+
+      const trustedSigner = countedSigners.filter(signer =>
+        identitiesAreEqual(signer.identity, signingIdentities[0])
+      )[0];
       return {
         status: ModuleVerificationStatus.Trusted,
         packageName: expectedPackageName,
         untrustedPackageVersion: untrustedPackageVersion,
         isPrivate: isPrivate,
-        trustedIdentity: identity
+        trustedIdentity: trustedSigner.identity,
+        trustSource: requirements
+          .map(requirement => requirement.source)
+          .filter((source, index, sources) => sources.indexOf(source) == index)
+          .join(", "),
+        keyFingerprint: trustedSigner.fingerprint,
+        signingIdentities: signingIdentities
       };
-    } else {
+    }
+
+    // Package signature is valid, now we need to see if any identity that
+    // signed it is trusted for the given package name.
+    let trustGrant: TrustGrant | null = null;
+    let trustedSigner = signers[0];
+    for (let signer of signers) {
+      trustGrant = await this.trustStore.findTrust(
+        signer.identity,
+        expectedPackageName
+      );
+      if (trustGrant !== null) {
+        trustedSigner = signer;
+        break;
+      }
+    }
+    if (trustGrant === null) {
       return {
         status: ModuleVerificationStatus.Untrusted,
         untrustedIdentity: identity,
         packageName: expectedPackageName,
         untrustedPackageVersion: untrustedPackageVersion,
-        isPrivate: isPrivate
+        isPrivate: isPrivate,
+        keyFingerprint: verification.fingerprint
+      };
+    }
+
+    // If trust was pinned to specific keys, the signature must have been
+    // made with one of them.
+    const keyChange = findKeyChange(trustGrant, trustedSigner);
+    if (keyChange !== null) {
+      return {
+        status: ModuleVerificationStatus.KeyChanged,
+        reason: describeKeyChange(trustedSigner.identity, keyChange),
+        untrustedIdentity: trustedSigner.identity,
+        packageName: expectedPackageName,
+        untrustedPackageVersion: untrustedPackageVersion,
+        isPrivate: isPrivate,
+        keyFingerprint: keyChange.keyFingerprint,
+        trustedFingerprints: keyChange.trustedFingerprints
+      };
+    }
+
+    return {
+      status: ModuleVerificationStatus.Trusted,
+      packageName: expectedPackageName,
+      untrustedPackageVersion: untrustedPackageVersion,
+      isPrivate: isPrivate,
+      trustedIdentity: trustGrant.identity,
+      trustSource: trustGrant.source,
+      keyFingerprint: trustedSigner.fingerprint
+    };
+  }
+
+  /**
+   * Returns whether any trust rule decides whether an identity may sign a
+   * package, even if it doesn't trust the identity (such as a deny rule, or a
+   * rule that only trusts the identity at other times).
+   *
+   * @param identity The identity.
+   * @param packageName The name of the package.
+   */
+  private async hasTrustRules(
+    identity: SignatureIdentity,
+    packageName: string
+  ): Promise<boolean> {
+    return (await this.trustStore.getTrustRulesForPackage(packageName)).some(
+      rule =>
+        patternMatchesPackage(rule.pattern, packageName) &&
+        (rule.identity === undefined
+          ? !!rule.deny
+          : identitiesAreEqual(rule.identity, identity))
+    );
+  }
+
+  /**
+   * Returns the revocations, which are loaded again once they expire so that
+   * a long-running process (such as `pkgsign serve`) sees new revocations.
+   * If they can't be loaded, they are loaded again the next time.
+   */
+  private loadRevocations(): Promise<SourcedRevocation[]> {
+    const now = Math.floor(Date.now() / 1000);
+    if (this.revocations === null || this.revocationsExpiryUtc <= now) {
+      const revocations = loadRevocations(this.trustStore);
+      this.revocations = revocations;
+      this.revocationsExpiryUtc = now + revocationsReloadInterval;
+      revocations.then(undefined, () => {
+        if (this.revocations === revocations) {
+          this.revocations = null;
+        }
+      });
+    }
+    return this.revocations;
+  }
+
+  /**
+   * Verifies a signature with its identity provider. Errors that stop the
+   * signature from being verified at all, such as a public key that can't be
+   * found or fetched, are returned so that they only fail this package.
+   *
+   * @param identityProvider The identity provider of the identity.
+   * @param identity The identity that claims to have made the signature.
+   * @param signature The signature.
+   * @param deterministicString The signed content.
+   */
+  private async verifySignature(
+    identityProvider: IIdentityProvider,
+    identity: SignatureIdentity,
+    signature: string,
+    deterministicString: string
+  ): Promise<SignatureVerification> {
+    try {
+      return await identityProvider.verify(
+        {
+          trustStore: this.trustStore
+        },
+        identity,
+        signature,
+        deterministicString
+      );
+    } catch (e) {
+      return {
+        valid: false,
+        error:
+          "Unable to verify the signature by " +
+          identityToString(identity) +
+          ": " +
+          e.message
       };
     }
   }
@@ -0,0 +1,306 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as crypto from "crypto";
+import fetch, { Response } from "node-fetch";
+import { getTrustStoreFolder } from "./trustStore";
+import { getPackageScope } from "./types";
+import {
+  readFilePromise,
+  readFileBufferPromise,
+  writeFileBufferPromise
+} from "./util/fsPromise";
+import { logProgress } from "./util/progress";
+
+const defaultRegistryUrl = "https://registry.npmjs.org/";
+
+// The hash algorithms that can be in `dist.integrity`, strongest first.
+const integrityAlgorithms = ["sha512", "sha384", "sha256", "sha1"];
+
+export interface PackageSpec {
+  name: string;
+
+  // The exact version, or a dist-tag such as "latest".
+  version: string;
+}
+
+export interface RegistryTarball {
+  name: string;
+
+  // The exact version that the spec resolved to.
+  version: string;
+
+  // Where the tarball was downloaded to, in the tarball cache.
+  path: string;
+}
+
+// The settings in `.npmrc` files, such as `registry` and
+// `@scope:registry`.
+export type NpmrcSettings = { [key: string]: string };
+
+interface PackageDist {
+  tarball?: string;
+  integrity?: string;
+  shasum?: string;
+}
+
+/**
+ * Parses a package spec such as `npm:lodash@4.17.21` or
+ * `npm:@scope/name@latest`, or returns null if it isn't one. If the version
+ * is left out, the spec is for the `latest` dist-tag.
+ *
+ * @param spec The package spec.
+ */
+export function parsePackageSpec(spec: string): PackageSpec | null {
+  const match = /^npm:((?:@[^@\/]+\/)?[^@\/]+)(?:@(.+))?$/.exec(spec);
+  if (match === null) {
+    return null;
+  }
+  return {
+    name: match[1],
+    version: match[2] || "latest"
+  };
+}
+
+/**
+ * Parses the settings in an `.npmrc` file. Environment variables in values
+ * (such as `${NPM_TOKEN}`) are replaced like npm does.
+ *
+ * @param content The content of the `.npmrc` file.
+ */
+export function parseNpmrc(content: string): NpmrcSettings {
+  let settings: NpmrcSettings = {};
+  for (let line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    const equals = trimmed.indexOf("=");
+    if (trimmed[0] == "#" || trimmed[0] == ";" || equals === -1) {
+      continue;
+    }
+    settings[trimmed.substr(0, equals).trim()] = trimmed
+      .substr(equals + 1)
+      .trim()
+      .replace(/^(['"])(.*)\1$/, "$2")
+      .replace(/\$\{([^}]+)\}/g, (reference, name) => process.env[name] || "");
+  }
+  return settings;
+}
+
+/**
+ * Loads the npm settings from the user's `.npmrc` and the project's `.npmrc`,
+ * where the project's settings take precedence. The `npm_config_registry`
+ * environment variable overrides both, as it does for npm.
+ *
+ * @param projectDir The project directory.
+ */
+export async function loadNpmrc(projectDir: string): Promise<NpmrcSettings> {
+  const isWin = /^win/.test(process.platform);
+  const home = isWin ? process.env.USERPROFILE : process.env.HOME;
+  const userConfig =
+    process.env.npm_config_userconfig ||
+    (home !== undefined ? path.join(home, ".npmrc") : null);
+
+  let settings: NpmrcSettings = {};
+  for (let npmrcPath of [userConfig, path.join(projectDir, ".npmrc")]) {
+    if (npmrcPath !== null && fs.existsSync(npmrcPath)) {
+      settings = {
+        ...settings,
+        ...parseNpmrc(await readFilePromise(npmrcPath))
+      };
+    }
+  }
+  if (process.env.npm_config_registry) {
+    settings.registry = process.env.npm_config_registry;
+  }
+  return settings;
+}
+
+/**
+ * Returns the URL of the registry that a package is installed from, which is
+ * the registry for the package's scope if one is set.
+ *
+ * @param packageName The package name.
+ * @param settings The npm settings.
+ */
+export function getRegistryUrl(
+  packageName: string,
+  settings: NpmrcSettings
+): string {
+  const scope = getPackageScope(packageName);
+  const registryUrl =
+    (scope !== null ? settings[scope + ":registry"] : undefined) ||
+    settings.registry ||
+    defaultRegistryUrl;
+  return registryUrl.endsWith("/") ? registryUrl : registryUrl + "/";
+}
+
+/**
+ * Returns the headers to send with a request to a registry, which include the
+ * `_authToken` that is set for the URL, if any.
+ *
+ * @param url The URL of the request.
+ * @param settings The npm settings.
+ */
+function getRequestHeaders(
+  url: string,
+  settings: NpmrcSettings
+): { [name: string]: string } {
+  // Tokens are set as `//registry.example.com/path/:_authToken=...`, and
+  // the most specific one applies.
+  const urlWithoutProtocol = url.replace(/^https?:/, "");
+  let token: string | null = null;
+  let tokenPrefixLength = 0;
+  for (let key in settings) {
+    const match = /^(\/\/.*?)\/?:_authToken$/.exec(key);
+    if (
+      match !== null &&
+      urlWithoutProtocol.startsWith(match[1]) &&
+      match[1].length > tokenPrefixLength
+    ) {
+      token = settings[key];
+      tokenPrefixLength = match[1].length;
+    }
+  }
+  let headers: { [name: string]: string } = { accept: "application/json" };
+  if (token !== null) {
+    headers.authorization = "Bearer " + token;
+  }
+  return headers;
+}
+
+/**
+ * Returns whether a tarball matches the `dist.integrity` of its version in
+ * the registry, or the `dist.shasum` if the registry doesn't have the
+ * integrity (as for some old packages). Only the hashes with the strongest
+ * algorithm in the integrity are checked.
+ *
+ * @param tarball The tarball.
+ * @param dist The `dist` of the version in the registry.
+ */
+function matchesIntegrity(tarball: Buffer, dist: PackageDist): boolean {
+  if (dist.integrity === undefined) {
+    return (
+      dist.shasum !== undefined &&
+      crypto
+        .createHash("sha1")
+        .update(tarball)
+        .digest("hex") == dist.shasum.toLowerCase()
+    );
+  }
+
+  const hashes = dist.integrity
+    .split(/\s+/)
+    .map(hash => /^([a-z0-9]+)-([A-Za-z0-9+\/=]+)/.exec(hash))
+    .filter(match => match !== null) as RegExpExecArray[];
+  for (let algorithm of integrityAlgorithms) {
+    const expectedDigests = hashes
+      .filter(match => match[1] == algorithm)
+      .map(match => match[2]);
+    if (expectedDigests.length > 0) {
+      const digest = crypto
+        .createHash(algorithm)
+        .update(tarball)
+        .digest("base64");
+      return expectedDigests.indexOf(digest) !== -1;
+    }
+  }
+  return false;
+}
+
+async function fetchFromRegistry(
+  url: string,
+  settings: NpmrcSettings
+): Promise<Response> {
+  logProgress("fetching " + url + "...");
+  const response = await fetch(url, {
+    headers: getRequestHeaders(url, settings)
+  });
+  if (!response.ok) {
+    throw new Error("fetching " + url + " returned HTTP " + response.status);
+  }
+  return response;
+}
+
+/**
+ * Returns the path to the folder that tarballs downloaded from registries are
+ * cached in, creating it if necessary.
+ */
+function getTarballCacheFolder(): string {
+  const tarballCacheFolder = path.join(getTrustStoreFolder(), "tarballs");
+  if (!fs.existsSync(tarballCacheFolder)) {
+    fs.mkdirSync(tarballCacheFolder);
+  }
+  return tarballCacheFolder;
+}
+
+/**
+ * Downloads the tarball of a package version from its registry into the
+ * tarball cache, unless it is already cached, and checks that it matches the
+ * integrity that the registry has for the version.
+ *
+ * @param spec The package and version.
+ * @param settings The npm settings, which select the registry.
+ */
+export async function fetchRegistryTarball(
+  spec: PackageSpec,
+  settings: NpmrcSettings
+): Promise<RegistryTarball> {
+  const registryUrl = getRegistryUrl(spec.name, settings);
+  const packument = await (await fetchFromRegistry(
+    registryUrl + spec.name.replace("/", "%2f"),
+    settings
+  )).json();
+
+  const versions = packument.versions || {};
+  const distTags = packument["dist-tags"] || {};
+  const version =
+    versions[spec.version] !== undefined
+      ? spec.version
+      : distTags[spec.version];
+  if (version === undefined || versions[version] === undefined) {
+    throw new Error(
+      spec.name + "@" + spec.version + " was not found in " + registryUrl
+    );
+  }
+  const dist: PackageDist = versions[version].dist || {};
+  if (
+    dist.tarball === undefined ||
+    (dist.integrity === undefined && dist.shasum === undefined)
+  ) {
+    throw new Error(
+      spec.name + "@" + version + " has no tarball or integrity in the registry"
+    );
+  }
+
+  // Tarballs are cached by their integrity, so a tarball that the registry
+  // has since replaced is downloaded again.
+  const tarballPath = path.join(
+    getTarballCacheFolder(),
+    crypto
+      .createHash("sha512")
+      .update(spec.name + "@" + version + " " + (dist.integrity || dist.shasum))
+      .digest("hex") + ".tgz"
+  );
+  if (
+    fs.existsSync(tarballPath) &&
+    matchesIntegrity(await readFileBufferPromise(tarballPath), dist)
+  ) {
+    return { name: spec.name, version: version, path: tarballPath };
+  }
+
+  const tarball: Buffer = await (await fetchFromRegistry(
+    dist.tarball,
+    settings
+  )).buffer();
+  if (!matchesIntegrity(tarball, dist)) {
+    throw new Error(
+      "the tarball of " +
+        spec.name +
+        "@" +
+        version +
+        " downloaded from " +
+        dist.tarball +
+        " does not match the integrity in the registry"
+    );
+  }
+  await writeFileBufferPromise(tarballPath, tarball);
+  return { name: spec.name, version: version, path: tarballPath };
+}
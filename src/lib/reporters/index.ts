@@ -0,0 +1,17 @@
+import { VerificationReport } from "../verificationReport";
+
+export interface IReporter {
+  /**
+   * Returns the name of the reporter, such as `sarif`, which is how the
+   * reporter is selected with `--reporter` on the command line.
+   */
+  getName(): string;
+
+  /**
+   * Converts the verification report into the reporter's output format.
+   * The result is written to stdout by the caller.
+   *
+   * @param report The verification report.
+   */
+  generateReport(report: VerificationReport): string;
+}
@@ -0,0 +1,84 @@
+import { IReporter } from ".";
+import {
+  VerificationReport,
+  moduleVerificationStatusToString
+} from "../verificationReport";
+import { ModuleVerificationStatus } from "../types";
+import { LockfileFindingKind } from "../lockfile";
+
+function lockfileFindingKindToString(kind: LockfileFindingKind): string {
+  switch (kind) {
+    case LockfileFindingKind.NotInLockfile:
+      return "not-in-lockfile";
+    case LockfileFindingKind.VersionMismatch:
+      return "version-mismatch";
+    case LockfileFindingKind.Missing:
+      return "missing";
+  }
+}
+
+export const JsonReporter: IReporter = {
+  getName: (): string => {
+    return "json";
+  },
+
+  generateReport: (report: VerificationReport): string => {
+    const modules = [];
+    for (let path in report.results) {
+      const result = report.results[path];
+      modules.push({
+        path: path,
+        packageName: result.packageName,
+        untrustedPackageVersion: result.untrustedPackageVersion,
+        isPrivate: result.isPrivate,
+        status: moduleVerificationStatusToString(result.status),
+        reason: result.reason || null,
+        trustedIdentity:
+          result.status === ModuleVerificationStatus.Trusted
+            ? result.trustedIdentity
+            : null,
+        trustSource:
+          result.status === ModuleVerificationStatus.Trusted
+            ? result.trustSource
+            : null,
+        signingIdentities:
+          result.status === ModuleVerificationStatus.Trusted &&
+          result.signingIdentities !== undefined
+            ? result.signingIdentities
+            : null,
+        untrustedIdentity:
+          (result.status === ModuleVerificationStatus.Untrusted ||
+            result.status === ModuleVerificationStatus.Compromised ||
+            result.status === ModuleVerificationStatus.KeyChanged ||
+            result.status === ModuleVerificationStatus.Expired) &&
+          result.untrustedIdentity !== undefined
+            ? result.untrustedIdentity
+            : null,
+        keyFingerprint:
+          (result.status === ModuleVerificationStatus.Untrusted ||
+            result.status === ModuleVerificationStatus.Trusted ||
+            result.status === ModuleVerificationStatus.KeyChanged) &&
+          result.keyFingerprint !== undefined
+            ? result.keyFingerprint
+            : null
+      });
+    }
+
+    return JSON.stringify(
+      {
+        success: report.success,
+        summary: report.summary,
+        modules: modules,
+        lockfileFindings: report.lockfileFindings.map(finding => ({
+          kind: lockfileFindingKindToString(finding.kind),
+          packageName: finding.packageName,
+          path: finding.path,
+          installedVersion: finding.installedVersion || null,
+          lockedVersions: finding.lockedVersions || null
+        }))
+      },
+      null,
+      2
+    );
+  }
+};
@@ -0,0 +1,102 @@
+import { IReporter } from ".";
+import {
+  VerificationReport,
+  describeModuleVerificationResult,
+  isModuleVerificationSuccessful,
+  moduleVerificationStatusToString
+} from "../verificationReport";
+import { ModuleVerificationStatus } from "../types";
+import { describeLockfileFinding } from "../lockfile";
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export const JunitReporter: IReporter = {
+  getName: (): string => {
+    return "junit";
+  },
+
+  generateReport: (report: VerificationReport): string => {
+    let testCount = 0;
+    let failureCount = 0;
+    let skippedCount = 0;
+    let testCases = "";
+
+    for (let path in report.results) {
+      const result = report.results[path];
+      const message = escapeXml(describeModuleVerificationResult(result));
+      const status = moduleVerificationStatusToString(result.status);
+
+      testCount++;
+      testCases +=
+        '    <testcase classname="' +
+        escapeXml(path) +
+        '" name="' +
+        escapeXml(result.packageName) +
+        '">\n';
+      if (
+        !isModuleVerificationSuccessful(result, report.allowUnsignedPackages)
+      ) {
+        failureCount++;
+        testCases +=
+          '      <failure type="' +
+          status +
+          '" message="' +
+          message +
+          '">' +
+          message +
+          "</failure>\n";
+      } else if (result.status == ModuleVerificationStatus.Unsigned) {
+        // Unsigned packages are allowed, but the package wasn't really verified.
+        skippedCount++;
+        testCases += '      <skipped message="' + message + '"/>\n';
+      }
+      testCases += "    </testcase>\n";
+    }
+
+    for (let finding of report.lockfileFindings) {
+      const message = escapeXml(describeLockfileFinding(finding));
+      testCount++;
+      failureCount++;
+      testCases +=
+        '    <testcase classname="' +
+        escapeXml(finding.path) +
+        '" name="' +
+        escapeXml(finding.packageName) +
+        '">\n' +
+        '      <failure type="lockfile" message="' +
+        message +
+        '">' +
+        message +
+        "</failure>\n" +
+        "    </testcase>\n";
+    }
+
+    const counts =
+      'tests="' +
+      testCount +
+      '" failures="' +
+      failureCount +
+      '" skipped="' +
+      skippedCount +
+      '"';
+    return (
+      '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<testsuites name="pkgsign" ' +
+      counts +
+      ">\n" +
+      '  <testsuite name="pkgsign verify" ' +
+      counts +
+      ">\n" +
+      testCases +
+      "  </testsuite>\n" +
+      "</testsuites>"
+    );
+  }
+};
@@ -0,0 +1,15 @@
+import { JsonReporter } from "./jsonReporter";
+import { JunitReporter } from "./junitReporter";
+import { SarifReporter } from "./sarifReporter";
+import { IReporter } from ".";
+
+export const availableReporters: IReporter[] = [
+  JsonReporter,
+  JunitReporter,
+  SarifReporter
+];
+
+export const availableReportersByName = new Map<string, IReporter>();
+for (const reporter of availableReporters) {
+  availableReportersByName.set(reporter.getName(), reporter);
+}
@@ -0,0 +1,171 @@
+import { IReporter } from ".";
+import { readFileSync } from "fs";
+import * as path from "path";
+import {
+  VerificationReport,
+  describeModuleVerificationResult,
+  moduleVerificationStatusToString
+} from "../verificationReport";
+import { ModuleVerificationStatus } from "../types";
+import { describeLockfileFinding } from "../lockfile";
+
+const pkgsignVersion = JSON.parse(
+  readFileSync(path.join(__dirname, "..", "..", "..", "package.json"), "utf8")
+).version;
+
+function getSarifLevel(status: ModuleVerificationStatus): string | null {
+  switch (status) {
+    case ModuleVerificationStatus.Compromised:
+    case ModuleVerificationStatus.KeyChanged:
+    case ModuleVerificationStatus.Expired:
+    case ModuleVerificationStatus.Unverifiable:
+      return "error";
+    case ModuleVerificationStatus.Untrusted:
+      return "warning";
+    case ModuleVerificationStatus.Unsigned:
+      return "note";
+    case ModuleVerificationStatus.Trusted:
+      // Trusted modules are not reported as results.
+      return null;
+  }
+}
+
+function getArtifactUri(modulePath: string): string {
+  if (modulePath.endsWith(".tgz")) {
+    // The module was verified from a tarball, so there's no package.json on disk.
+    return modulePath.replace(/\\/g, "/");
+  }
+  return path.join(modulePath, "package.json").replace(/\\/g, "/");
+}
+
+export const SarifReporter: IReporter = {
+  getName: (): string => {
+    return "sarif";
+  },
+
+  generateReport: (report: VerificationReport): string => {
+    const rules = [
+      {
+        id: "pkgsign/compromised",
+        shortDescription: {
+          text:
+            "The package contents do not match its signature, or the signature is invalid"
+        }
+      },
+      {
+        id: "pkgsign/untrusted",
+        shortDescription: {
+          text:
+            "The package has a valid signature, but the signing identity is not trusted"
+        }
+      },
+      {
+        id: "pkgsign/key-changed",
+        shortDescription: {
+          text:
+            "The package is signed by a trusted identity, but with a key that is not trusted for it"
+        }
+      },
+      {
+        id: "pkgsign/expired",
+        shortDescription: {
+          text:
+            "The package's signature has expired, or was made with a key that has expired or been revoked"
+        }
+      },
+      {
+        id: "pkgsign/unsigned",
+        shortDescription: {
+          text: "The package does not have a signature"
+        }
+      },
+      {
+        id: "pkgsign/unverifiable",
+        shortDescription: {
+          text:
+            "The package is installed, but could not be verified, for example because its package.json is missing"
+        }
+      },
+      {
+        id: "pkgsign/lockfile",
+        shortDescription: {
+          text: "The installed packages do not match the lockfile"
+        }
+      }
+    ];
+
+    const results = [];
+    for (let modulePath in report.results) {
+      const result = report.results[modulePath];
+      const level = getSarifLevel(result.status);
+      if (level === null) {
+        continue;
+      }
+      results.push({
+        ruleId: "pkgsign/" + moduleVerificationStatusToString(result.status),
+        level: level,
+        message: {
+          text: describeModuleVerificationResult(result)
+        },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: getArtifactUri(modulePath)
+              }
+            }
+          }
+        ],
+        properties: {
+          packageName: result.packageName,
+          untrustedPackageVersion: result.untrustedPackageVersion
+        }
+      });
+    }
+    for (let finding of report.lockfileFindings) {
+      results.push({
+        ruleId: "pkgsign/lockfile",
+        level: "error",
+        message: {
+          text: describeLockfileFinding(finding)
+        },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: getArtifactUri(finding.path)
+              }
+            }
+          }
+        ],
+        properties: {
+          packageName: finding.packageName,
+          untrustedPackageVersion: finding.installedVersion || ""
+        }
+      });
+    }
+
+    return JSON.stringify(
+      {
+        $schema:
+          "https://raw.githubusercontent.com/oasis-tcs/sarif-spec/master/Schemata/sarif-schema-2.1.0.json",
+        version: "2.1.0",
+        runs: [
+          {
+            tool: {
+              driver: {
+                name: "pkgsign",
+                version: pkgsignVersion,
+                informationUri: "https://github.com/RedpointGames/pkgsign",
+                rules: rules
+              }
+            },
+            results: results
+          }
+        ]
+      },
+      null,
+      2
+    );
+  }
+};
@@ -0,0 +1,203 @@
+import * as path from "path";
+import * as crypto from "crypto";
+import {
+  SignatureIdentity,
+  identitiesAreEqual,
+  identityToString,
+  normalizeFingerprint
+} from "./types";
+import { ITrustStore, getTrustStoreFolder } from "./trustStore";
+import { loadConfig } from "./config";
+import { readFilePromise } from "./util/fsPromise";
+
+/**
+ * The name of the local revocation list, which is stored in the trust store
+ * folder (`~/.pkgsign-trust-store`).
+ */
+export const revocationListFilename = "revocations.json";
+
+export interface Revocation {
+  // The revoked identity. If no fingerprint is set, every key of the identity
+  // is revoked.
+  identity?: SignatureIdentity;
+
+  // The fingerprint of the revoked key.
+  fingerprint?: string;
+
+  // When the identity or key was revoked (ISO 8601).
+  revokedAt: string;
+
+  // Why the identity or key was revoked, for display to the user.
+  reason?: string;
+}
+
+export interface SourcedRevocation extends Revocation {
+  // Where the revocation was loaded from, such as the path or URL of a
+  // revocation list.
+  source: string;
+}
+
+interface RevocationList {
+  revocations: Revocation[];
+}
+
+/**
+ * Parses a revocation list, throwing an error if it is invalid.
+ *
+ * @param rawJson The content of the revocation list.
+ * @param source The path or URL of the revocation list.
+ */
+export function parseRevocationList(
+  rawJson: string,
+  source: string
+): SourcedRevocation[] {
+  let list: RevocationList;
+  try {
+    list = JSON.parse(rawJson) as RevocationList;
+  } catch (e) {
+    throw new Error("unable to parse " + source + ": " + e.message);
+  }
+  if (list === null || !Array.isArray(list.revocations)) {
+    throw new Error("expected a 'revocations' array in " + source);
+  }
+
+  return list.revocations.map(revocation => {
+    if (revocation.identity === undefined && !revocation.fingerprint) {
+      throw new Error(
+        "revocations in " + source + " must have an identity or a fingerprint"
+      );
+    }
+    if (
+      typeof revocation.revokedAt !== "string" ||
+      isNaN(new Date(revocation.revokedAt).getTime())
+    ) {
+      throw new Error(
+        "invalid revocation date '" + revocation.revokedAt + "' in " + source
+      );
+    }
+    return { ...revocation, source: source };
+  });
+}
+
+async function readRevocationListFile(
+  filePath: string,
+  optional: boolean
+): Promise<SourcedRevocation[]> {
+  let rawJson: string;
+  try {
+    rawJson = await readFilePromise(filePath);
+  } catch (e) {
+    if (optional && e && e.code == "ENOENT") {
+      return [];
+    }
+    throw e;
+  }
+  return parseRevocationList(rawJson, filePath);
+}
+
+/**
+ * Loads all of the revocations that apply to verification, which are made up
+ * of the revocation list in the trust store folder, and the files and URLs in
+ * the `revocations` section of the configuration. Revocation lists fetched
+ * from URLs are cached like public keys.
+ *
+ * @param trustStore The trust store that caches fetched revocation lists.
+ */
+export async function loadRevocations(
+  trustStore: ITrustStore
+): Promise<SourcedRevocation[]> {
+  const trustStoreFolder = getTrustStoreFolder();
+  const config = (await loadConfig(trustStoreFolder)).revocations || {};
+
+  let revocations = await readRevocationListFile(
+    path.join(trustStoreFolder, revocationListFilename),
+    true
+  );
+  for (let file of config.files || []) {
+    revocations = revocations.concat(await readRevocationListFile(file, false));
+  }
+  for (let url of config.urls || []) {
+    if (!url.startsWith("https://")) {
+      throw new Error("revocation list URLs must be HTTPS: " + url);
+    }
+    const urlHash = crypto
+      .createHash("sha512")
+      .update(url)
+      .digest("hex");
+    let rawJson: string;
+    try {
+      rawJson = await trustStore.getOrFetchCachedPublicKeys(
+        "revocations.https." + urlHash,
+        url
+      );
+    } catch (e) {
+      throw new Error(
+        "unable to load revocation list from " + url + ": " + e.message
+      );
+    }
+    revocations = revocations.concat(parseRevocationList(rawJson, url));
+  }
+  return revocations;
+}
+
+/**
+ * Returns the revocation that revokes an identity or one of its keys, or null
+ * if it isn't revoked. Revocations apply to every signature made by the key,
+ * regardless of when it was signed, since a stolen key can be used to
+ * backdate signatures.
+ *
+ * @param revocations The revocations.
+ * @param identity The identity.
+ * @param fingerprint The fingerprint of the key, if known.
+ * @param at The time to check at; revocations in the future don't apply yet.
+ */
+export function findRevocation(
+  revocations: SourcedRevocation[],
+  identity: SignatureIdentity,
+  fingerprint?: string,
+  at: Date = new Date()
+): SourcedRevocation | null {
+  for (let revocation of revocations) {
+    if (new Date(revocation.revokedAt) > at) {
+      continue;
+    }
+    if (
+      revocation.identity !== undefined &&
+      !identitiesAreEqual(revocation.identity, identity)
+    ) {
+      continue;
+    }
+    if (
+      revocation.fingerprint &&
+      (fingerprint === undefined ||
+        normalizeFingerprint(revocation.fingerprint) !=
+          normalizeFingerprint(fingerprint))
+    ) {
+      continue;
+    }
+    return revocation;
+  }
+  return null;
+}
+
+/**
+ * Returns a description of what a revocation revoked and when, for display to
+ * the user.
+ *
+ * @param revocation The revocation.
+ */
+export function formatRevocation(revocation: Revocation): string {
+  let description = revocation.fingerprint
+    ? "key " + normalizeFingerprint(revocation.fingerprint)
+    : "";
+  if (revocation.identity !== undefined) {
+    description +=
+      (description != "" ? " of " : "") + identityToString(revocation.identity);
+  }
+  return (
+    description +
+    " was revoked on " +
+    revocation.revokedAt +
+    (revocation.reason ? " (" + revocation.reason + ")" : "")
+  );
+}
@@ -1,18 +1,23 @@
-import { Entry } from "./types";
+import { Entry, SignatureIdentity, identitiesAreEqual } from "./types";
 import { availableEntryHandlersByName } from "./entryHandlers/registry";
 import { IIdentityProvider, IIdentityProviderSigningContext } from "./identity";
 import { writeFileSync } from "fs";
 
-export async function createSignedSignatureDocument(
-  entries: Entry<any>[],
-  identityProvider: IIdentityProvider,
-  identityProviderContext: IIdentityProviderSigningContext
-): Promise<string> {
-  const signatureDocument = {
-    entries,
-    signature: ""
-  };
+export interface Cosignature {
+  // The identity that made the cosignature.
+  identity: SignatureIdentity;
+
+  // The signature over the same deterministic string as the signature.
+  signature: string;
+}
 
+interface SignatureDocument {
+  entries: Entry<any>[];
+  signature: string;
+  cosignatures?: Cosignature[];
+}
+
+function computeDeterministicString(entries: Entry<any>[]): string {
   let deterministicString = "";
   for (const entry of entries) {
     deterministicString += entry.entry + "\n";
@@ -25,45 +30,100 @@ export async function createSignedSignatureDocument(
     deterministicString +=
       handler.toDeterministicString(entry.value).trim() + "\n";
   }
+  return deterministicString;
+}
+
+export async function createSignedSignatureDocument(
+  entries: Entry<any>[],
+  identityProvider: IIdentityProvider,
+  identityProviderContext: IIdentityProviderSigningContext
+): Promise<string> {
+  const signatureDocument = {
+    entries,
+    signature: ""
+  };
 
   signatureDocument.signature = await identityProvider.signEntries(
     identityProviderContext,
-    deterministicString
+    computeDeterministicString(entries)
   );
 
   return JSON.stringify(signatureDocument, null, 2);
 }
 
+/**
+ * Adds a cosignature to an existing signature document. The cosignature is
+ * made over the same deterministic string as the existing signature, so the
+ * existing signature and cosignatures remain valid.
+ *
+ * @param documentContent The content of the existing signature document.
+ * @param identityProvider The identity provider to cosign with.
+ * @param identityProviderContext The signing context for the identity provider.
+ */
+export async function addCosignatureToSignatureDocument(
+  documentContent: string,
+  identityProvider: IIdentityProvider,
+  identityProviderContext: IIdentityProviderSigningContext
+): Promise<string> {
+  const signatureDocument = JSON.parse(documentContent) as SignatureDocument;
+  const document = await readUnverifiedSignatureDocument(documentContent);
+
+  const identity = await identityProvider.getIdentity(identityProviderContext);
+  if (
+    (document.identity !== null &&
+      identitiesAreEqual(document.identity, identity)) ||
+    document.cosignatures.some(cosignature =>
+      identitiesAreEqual(cosignature.identity, identity)
+    )
+  ) {
+    throw new Error("this identity has already signed the package");
+  }
+
+  signatureDocument.cosignatures = document.cosignatures.concat([
+    {
+      identity: identity,
+      signature: await identityProvider.signEntries(
+        identityProviderContext,
+        document.locallyComputedDeterministicString
+      )
+    }
+  ]);
+
+  return JSON.stringify(signatureDocument, null, 2);
+}
+
 export interface UnverifiedSignatureDocument {
   entries: Entry<any>[];
   signature: string;
+  cosignatures: Cosignature[];
+  // The identity in the entries, which made the signature, if any.
+  identity: SignatureIdentity | null;
   locallyComputedDeterministicString: string;
 }
 
 export async function readUnverifiedSignatureDocument(
   documentContent: string
 ): Promise<UnverifiedSignatureDocument> {
-  const signatureDocument = JSON.parse(documentContent) as {
-    entries: Entry<any>[];
-    signature: string;
-  };
+  const signatureDocument = JSON.parse(documentContent) as SignatureDocument;
 
-  let deterministicString = "";
-  for (const entry of signatureDocument.entries) {
-    deterministicString += entry.entry + "\n";
+  let identity: SignatureIdentity | null = null;
+  for (let entry of signatureDocument.entries) {
     const handler = availableEntryHandlersByName.get(entry.entry);
-    if (handler === undefined) {
-      throw new Error(
-        "can not build deterministic string with unknown handler"
-      );
+    if (handler !== undefined) {
+      identity = handler.getIdentity(entry.value);
+      if (identity !== null) {
+        break;
+      }
     }
-    deterministicString +=
-      handler.toDeterministicString(entry.value).trim() + "\n";
   }
 
   return {
     entries: signatureDocument.entries,
     signature: signatureDocument.signature,
-    locallyComputedDeterministicString: deterministicString
+    cosignatures: signatureDocument.cosignatures || [],
+    identity: identity,
+    locallyComputedDeterministicString: computeDeterministicString(
+      signatureDocument.entries
+    )
   };
 }
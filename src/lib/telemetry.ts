@@ -4,8 +4,7 @@ import * as path from "path";
 import { readFileSync, writeFileSync } from "fs";
 import * as tmp from "tmp";
 import * as spawn from "silent-spawn";
-import { readFilePromise } from "./util/fsPromise";
-import { join as pathJoin } from "path";
+import { IVirtualFileSystem } from "./vfs";
 import {
   SignatureIdentity,
   identityToString,
@@ -93,7 +92,9 @@ export async function queueTelemetryFromModuleVerificationResult(
         result.status === ModuleVerificationStatus.Trusted
           ? identityToString(result.trustedIdentity)
           : (result.status === ModuleVerificationStatus.Untrusted ||
-              result.status === ModuleVerificationStatus.Compromised) &&
+              result.status === ModuleVerificationStatus.Compromised ||
+              result.status === ModuleVerificationStatus.KeyChanged ||
+              result.status === ModuleVerificationStatus.Expired) &&
             result.untrustedIdentity !== undefined
           ? identityToString(result.untrustedIdentity)
           : "",
@@ -104,7 +105,7 @@ export async function queueTelemetryFromModuleVerificationResult(
 
 export async function queueTelemetryPackageAction(
   context: {
-    dir: string;
+    fileSystem: IVirtualFileSystem;
     relFilesOnDisk: string[];
   },
   identity: SignatureIdentity,
@@ -115,9 +116,7 @@ export async function queueTelemetryPackageAction(
     const normalisedPath = relPath.replace(/\\/g, "/");
     if (normalisedPath == "package.json") {
       try {
-        packageJson = JSON.parse(
-          await readFilePromise(pathJoin(context.dir, relPath))
-        );
+        packageJson = JSON.parse(await context.fileSystem.readFile(relPath));
       } catch (e) {
         packageJson = undefined;
       }
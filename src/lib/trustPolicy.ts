@@ -0,0 +1,364 @@
+import * as path from "path";
+import * as fs from "fs";
+import {
+  ITrustStore,
+  TrustedIdentity,
+  TrustedPackage,
+  TrustGrant,
+  fetchPublicKeys,
+  findTrustInRules
+} from "./trustStore";
+import { SignatureIdentity, normalizeFingerprint } from "./types";
+import {
+  TrustConstraints,
+  TrustRule,
+  SourcedTrustRule,
+  SignatureRequirement,
+  SourcedSignatureRequirement,
+  patternMatchesPackage
+} from "./trustRules";
+import { readFilePromise } from "./util/fsPromise";
+
+/**
+ * The name of the trust policy file that projects can check into their
+ * repository, next to their `package.json`.
+ */
+export const trustPolicyFilename = ".pkgsignrc.json";
+
+type TrustPolicyEntry = SignatureIdentity | TrustedIdentity;
+
+interface TrustPolicy {
+  // The identities trusted to sign each package, keyed by package name. Each
+  // entry is either an identity, or an identity with validity dates and key
+  // fingerprints.
+  trust?: { [packageName: string]: TrustPolicyEntry | TrustPolicyEntry[] };
+
+  // Trust rules that apply to package name patterns, such as `@acme/*`.
+  rules?: TrustRule[];
+
+  // Packages that must be signed by several identities, such as "2 of these 3
+  // identities". When a requirement applies to a package, the package is only
+  // trusted if the requirement is met.
+  requireSignatures?: SignatureRequirement[];
+}
+
+/**
+ * Returns the path to the trust policy file in the specified directory, or
+ * null if the directory does not have a trust policy file.
+ *
+ * @param dir The directory to look for a trust policy file in.
+ */
+export function findTrustPolicy(dir: string): string | null {
+  const policyPath = path.join(dir, trustPolicyFilename);
+  if (fs.existsSync(policyPath)) {
+    return policyPath;
+  }
+  return null;
+}
+
+/**
+ * Returns a copy of an identity in a trust policy with its fingerprint
+ * normalized, so it matches the fingerprints of verified signatures like the
+ * identities added with `pkgsign trust add` do.
+ *
+ * @param identity The identity.
+ */
+function normalizeIdentity(identity: SignatureIdentity): SignatureIdentity {
+  let normalized = { ...identity };
+  if (typeof normalized.pgpFingerprint == "string") {
+    normalized.pgpFingerprint = normalizeFingerprint(normalized.pgpFingerprint);
+  }
+  if (typeof normalized.ed25519Fingerprint == "string") {
+    normalized.ed25519Fingerprint = normalizeFingerprint(
+      normalized.ed25519Fingerprint
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Returns a copy of the trust constraints in a trust policy with their key
+ * fingerprints normalized, or null if they are malformed.
+ *
+ * @param constraints The trust constraints.
+ */
+function normalizeConstraints<T extends TrustConstraints>(
+  constraints: T
+): T | null {
+  if (constraints.fingerprints === undefined) {
+    return constraints;
+  }
+  if (
+    !Array.isArray(constraints.fingerprints) ||
+    constraints.fingerprints.some(fingerprint => typeof fingerprint != "string")
+  ) {
+    return null;
+  }
+  return {
+    ...constraints,
+    fingerprints: constraints.fingerprints.map(normalizeFingerprint)
+  };
+}
+
+/**
+ * Returns true if a value parsed from JSON is an object (and not an array).
+ *
+ * @param value The parsed value.
+ */
+function isObject(value: any): boolean {
+  return typeof value == "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates a parsed trust policy, and normalizes the fingerprints in it.
+ *
+ * @param policy The parsed trust policy.
+ * @param policyPath The path of the trust policy file, for error messages.
+ */
+function normalizeTrustPolicy(policy: any, policyPath: string): TrustPolicy {
+  if (!isObject(policy)) {
+    throw new Error("trust policy " + policyPath + " must be a JSON object");
+  }
+
+  let trust: { [packageName: string]: TrustPolicyEntry[] } = {};
+  for (let packageName of Object.keys(policy.trust || {})) {
+    const entries = policy.trust[packageName];
+    trust[packageName] = (Array.isArray(entries) ? entries : [entries]).map(
+      (entry: any) => {
+        let normalized: TrustPolicyEntry | null = null;
+        if (isObject(entry) && !("identity" in entry)) {
+          normalized = normalizeIdentity(entry);
+        } else if (isObject(entry) && isObject(entry.identity)) {
+          normalized = normalizeConstraints({
+            ...entry,
+            identity: normalizeIdentity(entry.identity)
+          });
+        }
+        if (normalized === null) {
+          throw new Error(
+            "invalid trusted identity for '" +
+              packageName +
+              "' in trust policy " +
+              policyPath
+          );
+        }
+        return normalized;
+      }
+    );
+  }
+
+  const rules: TrustRule[] = (policy.rules || []).map((rule: any) => {
+    let normalized: TrustRule | null = null;
+    if (
+      isObject(rule) &&
+      (rule.identity === undefined || isObject(rule.identity))
+    ) {
+      normalized = normalizeConstraints(
+        rule.identity !== undefined
+          ? { ...rule, identity: normalizeIdentity(rule.identity) }
+          : rule
+      );
+    }
+    if (normalized === null) {
+      throw new Error(
+        "invalid trust rule for '" +
+          (isObject(rule) ? rule.pattern : rule) +
+          "' in trust policy " +
+          policyPath
+      );
+    }
+    return normalized;
+  });
+
+  const requireSignatures: SignatureRequirement[] = (
+    policy.requireSignatures || []
+  ).map((requirement: any) => {
+    if (
+      !isObject(requirement) ||
+      !Array.isArray(requirement.identities) ||
+      !requirement.identities.every(isObject)
+    ) {
+      throw new Error(
+        "invalid signature requirement for '" +
+          (isObject(requirement) ? requirement.pattern : requirement) +
+          "' in trust policy " +
+          policyPath
+      );
+    }
+    return {
+      ...requirement,
+      identities: requirement.identities.map(normalizeIdentity)
+    };
+  });
+
+  return { trust, rules, requireSignatures };
+}
+
+/**
+ * `PolicyTrustStore` is a read-only trust store, backed by a trust policy
+ * file that is checked into a project's repository. It does not cache
+ * public keys; layer it on top of a `TrustStore` with `LayeredTrustStore`.
+ */
+export class PolicyTrustStore implements ITrustStore {
+  private policy: Promise<TrustPolicy> | null = null;
+
+  constructor(private policyPath: string) {}
+
+  public async getOrFetchCachedPublicKeys(
+    cacheName: string,
+    url: string
+  ): Promise<string> {
+    return await fetchPublicKeys(url);
+  }
+
+  public async fetchCachedPublicKeys(
+    cacheName: string,
+    url: string
+  ): Promise<string> {
+    return await fetchPublicKeys(url);
+  }
+
+  public async isTrusted(
+    identity: SignatureIdentity,
+    packageName: string
+  ): Promise<boolean> {
+    return (await this.findTrust(identity, packageName)) !== null;
+  }
+
+  public async findTrust(
+    identity: SignatureIdentity,
+    packageName: string
+  ): Promise<TrustGrant | null> {
+    return await findTrustInRules(this, identity, packageName);
+  }
+
+  public async getTrustRulesForPackage(
+    packageName: string
+  ): Promise<SourcedTrustRule[]> {
+    const rules = (await this.listTrustRules()).filter(rule =>
+      patternMatchesPackage(rule.pattern, packageName)
+    );
+    for (let trustedPackage of await this.listTrusted()) {
+      if (trustedPackage.packageName == packageName) {
+        rules.push({
+          pattern: trustedPackage.packageName,
+          identity: trustedPackage.identity,
+          validFrom: trustedPackage.validFrom,
+          validUntil: trustedPackage.validUntil,
+          fingerprints: trustedPackage.fingerprints,
+          source: this.policyPath
+        });
+      }
+    }
+    return rules;
+  }
+
+  public async getSignatureRequirements(
+    packageName: string
+  ): Promise<SourcedSignatureRequirement[]> {
+    const policy = await this.loadPolicy();
+
+    let requirements: SourcedSignatureRequirement[] = [];
+    for (let requirement of policy.requireSignatures || []) {
+      if (
+        !(requirement.threshold >= 1) ||
+        requirement.threshold > (requirement.identities || []).length
+      ) {
+        throw new Error(
+          "invalid signature requirement for '" +
+            requirement.pattern +
+            "' in trust policy " +
+            this.policyPath +
+            "; the threshold must be between 1 and the number of identities"
+        );
+      }
+      if (patternMatchesPackage(requirement.pattern, packageName)) {
+        requirements.push({ ...requirement, source: this.policyPath });
+      }
+    }
+    return requirements;
+  }
+
+  public async addTrusted(
+    identity: SignatureIdentity,
+    packageName: string,
+    constraints?: TrustConstraints
+  ): Promise<void> {
+    throw new Error(
+      "trust policy " + this.policyPath + " is read-only; edit it directly"
+    );
+  }
+
+  public async addTrustRule(rule: TrustRule): Promise<void> {
+    throw new Error(
+      "trust policy " + this.policyPath + " is read-only; edit it directly"
+    );
+  }
+
+  public async listTrusted(): Promise<TrustedPackage[]> {
+    const policy = await this.loadPolicy();
+
+    let trustedPackages: TrustedPackage[] = [];
+    for (let packageName of Object.keys(policy.trust || {}).sort()) {
+      const entries = (policy.trust || {})[packageName];
+      for (let entry of Array.isArray(entries) ? entries : [entries]) {
+        if ("identity" in entry) {
+          trustedPackages.push({
+            packageName: packageName,
+            ...entry
+          });
+        } else {
+          trustedPackages.push({
+            packageName: packageName,
+            identity: entry
+          });
+        }
+      }
+    }
+    return trustedPackages;
+  }
+
+  public async listTrustRules(): Promise<SourcedTrustRule[]> {
+    const policy = await this.loadPolicy();
+    return (policy.rules || []).map(rule => ({
+      ...rule,
+      source: this.policyPath
+    }));
+  }
+
+  public async removeTrusted(
+    packageName: string,
+    identity?: SignatureIdentity
+  ): Promise<boolean> {
+    throw new Error(
+      "trust policy " + this.policyPath + " is read-only; edit it directly"
+    );
+  }
+
+  public async removeTrustRules(
+    pattern: string,
+    identity?: SignatureIdentity
+  ): Promise<boolean> {
+    throw new Error(
+      "trust policy " + this.policyPath + " is read-only; edit it directly"
+    );
+  }
+
+  private loadPolicy(): Promise<TrustPolicy> {
+    if (this.policy === null) {
+      this.policy = (async () => {
+        const rawJson = await readFilePromise(this.policyPath);
+        let policy: any;
+        try {
+          policy = JSON.parse(rawJson);
+        } catch (e) {
+          throw new Error(
+            "unable to parse trust policy " + this.policyPath + ": " + e.message
+          );
+        }
+        return normalizeTrustPolicy(policy, this.policyPath);
+      })();
+    }
+    return this.policy;
+  }
+}
@@ -0,0 +1,234 @@
+import {
+  SignatureIdentity,
+  identitiesAreEqual,
+  identityToString
+} from "./types";
+
+export interface TrustConstraints {
+  // Trust only applies from this date (ISO 8601), if set.
+  validFrom?: string;
+
+  // Trust only applies until this date (ISO 8601), if set.
+  validUntil?: string;
+
+  // The fingerprints of the keys the identity is trusted to sign with, if
+  // set. Signatures made with any other key are reported as a key change.
+  fingerprints?: string[];
+}
+
+export interface TrustRule extends TrustConstraints {
+  // The package name or pattern that the rule applies to. `*` matches any
+  // sequence of characters, so `@acme/*` matches every package in the `@acme`
+  // scope, `lodash.*` matches `lodash.get` and `*` matches every package.
+  pattern: string;
+
+  // The identity that the rule applies to. Deny rules without an identity
+  // apply to every identity; allow rules must always specify an identity.
+  identity?: SignatureIdentity;
+
+  // If true, this rule denies trust instead of granting it.
+  deny?: boolean;
+}
+
+export interface SourcedTrustRule extends TrustRule {
+  // Where the rule was loaded from, such as the path of a trust file or
+  // policy file.
+  source: string;
+}
+
+export interface SignatureRequirement {
+  // The package name or pattern that the requirement applies to, with the same
+  // meaning as the pattern of a trust rule.
+  pattern: string;
+
+  // How many of the identities must have signed the package.
+  threshold: number;
+
+  // The identities that can sign the package.
+  identities: SignatureIdentity[];
+}
+
+export interface SourcedSignatureRequirement extends SignatureRequirement {
+  // Where the requirement was loaded from, such as the path of a policy file.
+  source: string;
+}
+
+/**
+ * Returns whether a package name matches a trust rule pattern.
+ *
+ * @param pattern The trust rule pattern.
+ * @param packageName The package name.
+ */
+export function patternMatchesPackage(
+  pattern: string,
+  packageName: string
+): boolean {
+  const regex = new RegExp(
+    "^" +
+      pattern
+        .split("*")
+        .map(literal => literal.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*") +
+      "$"
+  );
+  return regex.test(packageName);
+}
+
+/**
+ * Returns whether a trust rule applies at the specified time, based on its
+ * optional validity dates.
+ *
+ * @param rule The trust rule.
+ * @param at The time to check.
+ */
+export function isRuleValidAt(rule: TrustRule, at: Date): boolean {
+  if (rule.validFrom !== undefined && at < new Date(rule.validFrom)) {
+    return false;
+  }
+  if (rule.validUntil !== undefined && at > new Date(rule.validUntil)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Returns how specific a pattern is; when several rules apply to a package,
+ * the most specific one wins. Exact package names are always more specific
+ * than patterns, and patterns with more literal characters are more specific
+ * than patterns with fewer (so `@acme/*` is more specific than `@*`, which is
+ * more specific than `*`).
+ *
+ * @param pattern The trust rule pattern.
+ */
+export function getPatternSpecificity(pattern: string): number {
+  if (pattern.indexOf("*") === -1) {
+    return Number.MAX_SAFE_INTEGER;
+  }
+  return pattern.replace(/\*/g, "").length;
+}
+
+/**
+ * Finds the trust rule that decides whether an identity is trusted to sign a
+ * package. The most specific rule that applies wins; if an allow rule and a
+ * deny rule are equally specific, the deny rule wins. Returns the winning allow
+ * rule, or null if the identity is not trusted.
+ *
+ * @param rules The trust rules to evaluate.
+ * @param identity The identity that signed the package.
+ * @param packageName The name of the package.
+ * @param at The time at which to evaluate the rules; defaults to now.
+ */
+export function evaluateTrustRules(
+  rules: SourcedTrustRule[],
+  identity: SignatureIdentity,
+  packageName: string,
+  at: Date = new Date()
+): SourcedTrustRule | null {
+  let winningRule: SourcedTrustRule | null = null;
+  let winningSpecificity = -1;
+  for (let rule of rules) {
+    if (!isRuleValidAt(rule, at)) {
+      continue;
+    }
+    if (rule.identity === undefined && !rule.deny) {
+      // Allow rules must specify the identity they trust.
+      continue;
+    }
+    if (
+      rule.identity !== undefined &&
+      !identitiesAreEqual(rule.identity, identity)
+    ) {
+      continue;
+    }
+    if (!patternMatchesPackage(rule.pattern, packageName)) {
+      continue;
+    }
+
+    const specificity = getPatternSpecificity(rule.pattern);
+    if (
+      specificity > winningSpecificity ||
+      (specificity == winningSpecificity &&
+        rule.deny &&
+        winningRule !== null &&
+        !winningRule.deny)
+    ) {
+      winningRule = rule;
+      winningSpecificity = specificity;
+    }
+  }
+
+  if (winningRule === null || winningRule.deny) {
+    return null;
+  }
+  return winningRule;
+}
+
+/**
+ * Formats trust rules as a table for display, with one rule per line.
+ *
+ * @param rules The trust rules to format.
+ */
+export function formatTrustRules(rules: TrustRule[]): string {
+  let targetLength = 0;
+  for (let rule of rules) {
+    if (rule.pattern.length > targetLength) {
+      targetLength = rule.pattern.length;
+    }
+  }
+  targetLength += 2;
+  const padRight = (input: string, len: number) => {
+    while (input.length < len) {
+      input = input + " ";
+    }
+    return input;
+  };
+  return rules
+    .map(
+      rule =>
+        padRight(rule.pattern, targetLength) +
+        " " +
+        padRight(rule.deny ? "deny" : "allow", 6) +
+        " " +
+        (rule.identity === undefined
+          ? "any identity"
+          : identityToString(rule.identity)) +
+        (rule.validFrom !== undefined ? " from " + rule.validFrom : "") +
+        (rule.validUntil !== undefined ? " until " + rule.validUntil : "") +
+        (rule.fingerprints !== undefined && rule.fingerprints.length > 0
+          ? " with key " + rule.fingerprints.join(", ")
+          : "")
+    )
+    .join("\n");
+}
+
+/**
+ * Returns the identities that signed a package and count towards a signature
+ * requirement. Each identity is only counted once.
+ *
+ * @param requirement The signature requirement.
+ * @param signers The identities that validly signed the package.
+ */
+export function getRequiredSigners(
+  requirement: SignatureRequirement,
+  signers: SignatureIdentity[]
+): SignatureIdentity[] {
+  return requirement.identities.filter(required =>
+    signers.some(signer => identitiesAreEqual(required, signer))
+  );
+}
+
+/**
+ * Formats a signature requirement for display, such as "2 of @alice, @bob,
+ * @carol".
+ *
+ * @param requirement The signature requirement.
+ */
+export function formatSignatureRequirement(
+  requirement: SignatureRequirement
+): string {
+  return (
+    requirement.threshold +
+    " of " +
+    requirement.identities.map(identityToString).join(", ")
+  );
+}
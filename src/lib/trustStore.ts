@@ -1,127 +1,713 @@
 import * as path from "path";
 import * as fs from "fs";
-import { SignatureIdentity } from "./types";
-import { readFilePromise, writeFilePromise } from "./util/fsPromise";
+import { SignatureIdentity, identitiesAreEqual } from "./types";
+import {
+  TrustConstraints,
+  TrustRule,
+  SourcedTrustRule,
+  SourcedSignatureRequirement,
+  evaluateTrustRules,
+  patternMatchesPackage
+} from "./trustRules";
+import {
+  readFilePromise,
+  writeFilePromise,
+  readdirPromise,
+  unlinkPromise
+} from "./util/fsPromise";
+import { logProgress } from "./util/progress";
+import {
+  Config,
+  loadConfig,
+  getPublicKeyCacheTtl,
+  getNegativeCacheTtl
+} from "./config";
+import fetch from "node-fetch";
 
-interface CachedData {
+export interface CachedData {
+  // The public keys, or an empty string if they have never been fetched.
   data: string;
-  expiryUtc: number;
+
+  // When the cached data expires, in seconds since the epoch, or null if it
+  // never expires.
+  expiryUtc: number | null;
+
+  // When the public keys were fetched, in seconds since the epoch.
+  fetchedUtc?: number;
+
+  // The URL that the public keys were fetched from.
+  source?: string;
+
+  // If set, the last fetch of the public keys failed with this error; the
+  // public keys from before then, if any, are still used.
+  error?: string;
+}
+
+/**
+ * Fetches public keys from an HTTPS URL.
+ *
+ * @param url The URL to fetch the public keys from.
+ */
+export async function fetchPublicKeys(url: string): Promise<string> {
+  logProgress("fetching public keys from " + url + "...");
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      "fetching public keys from " + url + " returned HTTP " + response.status
+    );
+  }
+  return await response.text();
+}
+
+/**
+ * Returns the path to the trust store folder in the user's home directory,
+ * creating it if necessary.
+ */
+export function getTrustStoreFolder(): string {
+  const isWin = /^win/.test(process.platform);
+  const trustStoreBaseFolder = isWin
+    ? process.env.USERPROFILE
+    : process.env.HOME;
+  if (trustStoreBaseFolder === undefined) {
+    throw new Error(
+      "missing HOME / USERPROFILE environment variable; can not determine location of trust store"
+    );
+  }
+  const trustStoreFolder = path.join(
+    trustStoreBaseFolder,
+    ".pkgsign-trust-store"
+  );
+
+  if (!fs.existsSync(trustStoreFolder)) {
+    fs.mkdirSync(trustStoreFolder);
+  }
+
+  return trustStoreFolder;
+}
+
+/**
+ * Returns the identity type that public keys were cached for, based on the
+ * cache name (such as "keybase" for `keybase.io.someuser`).
+ *
+ * @param cacheName The cache name.
+ */
+export function getCacheIdentityType(cacheName: string): string {
+  return cacheName.split(".")[0];
+}
+
+export interface TrustedIdentity extends TrustConstraints {
+  identity: SignatureIdentity;
+}
+
+export interface TrustedPackage extends TrustedIdentity {
+  packageName: string;
+}
+
+export interface TrustGrant extends TrustedIdentity {
+  // Where trust was granted, such as the path of a trust file or policy file.
+  source: string;
+
+  // The package name or pattern of the rule that granted trust.
+  pattern: string;
+}
+
+/**
+ * Evaluates the trust rules of a trust store that apply to a package, and
+ * returns how trust was granted to the identity, or null if the identity
+ * is not trusted.
+ *
+ * @param trustStore The trust store.
+ * @param identity The identity that signed the package.
+ * @param packageName The name of the package.
+ */
+export async function findTrustInRules(
+  trustStore: ITrustStore,
+  identity: SignatureIdentity,
+  packageName: string
+): Promise<TrustGrant | null> {
+  const rule = evaluateTrustRules(
+    await trustStore.getTrustRulesForPackage(packageName),
+    identity,
+    packageName
+  );
+  if (rule === null || rule.identity === undefined) {
+    return null;
+  }
+  return {
+    identity: rule.identity,
+    validFrom: rule.validFrom,
+    validUntil: rule.validUntil,
+    fingerprints: rule.fingerprints,
+    source: rule.source,
+    pattern: rule.pattern
+  };
+}
+
+/**
+ * Reads the identities trusted by a `.trust` file. Older versions of pkgsign
+ * stored a single identity in each file, instead of a list.
+ *
+ * @param rawJson The content of the `.trust` file.
+ */
+function parseTrustFile(rawJson: string): TrustedIdentity[] {
+  const trustInfo = JSON.parse(rawJson);
+  if (Array.isArray(trustInfo)) {
+    return trustInfo as TrustedIdentity[];
+  }
+  return [{ identity: trustInfo as SignatureIdentity }];
+}
+
+function removeRuleSource(rule: SourcedTrustRule): TrustRule {
+  const { source, ...ruleWithoutSource } = rule;
+  return ruleWithoutSource;
 }
 
 export interface ITrustStore {
-  getOrFetchCachedPublicKeys(
-    cacheName: string,
-    fetch: () => Promise<string>
-  ): Promise<string>;
-  fetchCachedPublicKeys(
-    cacheName: string,
-    fetch: () => Promise<string>
-  ): Promise<string>;
+  getOrFetchCachedPublicKeys(cacheName: string, url: string): Promise<string>;
+  fetchCachedPublicKeys(cacheName: string, url: string): Promise<string>;
   isTrusted(identity: SignatureIdentity, packageName: string): Promise<boolean>;
-  addTrusted(identity: SignatureIdentity, packageName: string): Promise<void>;
+  findTrust(
+    identity: SignatureIdentity,
+    packageName: string
+  ): Promise<TrustGrant | null>;
+  addTrusted(
+    identity: SignatureIdentity,
+    packageName: string,
+    constraints?: TrustConstraints
+  ): Promise<void>;
+  addTrustRule(rule: TrustRule): Promise<void>;
+  listTrusted(): Promise<TrustedPackage[]>;
+  listTrustRules(): Promise<SourcedTrustRule[]>;
+  getTrustRulesForPackage(packageName: string): Promise<SourcedTrustRule[]>;
+  getSignatureRequirements(
+    packageName: string
+  ): Promise<SourcedSignatureRequirement[]>;
+  removeTrusted(
+    packageName: string,
+    identity?: SignatureIdentity
+  ): Promise<boolean>;
+  removeTrustRules(
+    pattern: string,
+    identity?: SignatureIdentity
+  ): Promise<boolean>;
 }
 
 export class TrustStore implements ITrustStore {
-  constructor() {}
+  // The public keys that are being fetched, keyed by cache name and URL.
+  private pendingFetches = new Map<string, Promise<CachedData>>();
+
+  /**
+   * @param offline If true, public keys are never fetched; cached public keys
+   * are used even after they expire, and verification fails if they are not
+   * cached at all.
+   */
+  constructor(private offline: boolean = false) {}
 
   public async getOrFetchCachedPublicKeys(
     cacheName: string,
-    fetch: () => Promise<string>
+    url: string
   ): Promise<string> {
-    const trustStoreFolder = this.createTrustStoreIfNecessary();
-    const cacheFilename = path.join(trustStoreFolder, cacheName + ".cache");
+    const cachedData = await this.readCachedPublicKeys(cacheName);
+    if (this.offline) {
+      return this.getOfflineCachedPublicKeys(cacheName, cachedData);
+    }
 
-    try {
-      const cachedData = JSON.parse(
-        await readFilePromise(cacheFilename)
-      ) as CachedData;
-      if (cachedData.expiryUtc > Math.floor(Date.now() / 1000)) {
-        // cache still valid.
-        return cachedData.data;
-      } else {
-        throw new Error("cache expired");
+    if (
+      cachedData !== null &&
+      (cachedData.expiryUtc === null ||
+        cachedData.expiryUtc > Math.floor(Date.now() / 1000))
+    ) {
+      // cache still valid.
+      if (cachedData.error !== undefined && cachedData.data === "") {
+        throw new Error(
+          "fetching public keys from " +
+            url +
+            " recently failed (" +
+            cachedData.error +
+            "); not trying again until " +
+            new Date((cachedData.expiryUtc || 0) * 1000).toISOString()
+        );
       }
-    } catch (e) {
-      const result = await fetch();
-      await writeFilePromise(
-        cacheFilename,
-        JSON.stringify({
-          data: result,
-          expiryUtc: Math.floor(Date.now() / 1000) + 60 * 60 * 24 // 24 hours
-        })
-      );
-      return result;
+      return cachedData.data;
     }
+
+    return (await this.fetchAndCachePublicKeys(cacheName, url)).data;
   }
 
   public async fetchCachedPublicKeys(
     cacheName: string,
-    fetch: () => Promise<string>
+    url: string
   ): Promise<string> {
-    const trustStoreFolder = this.createTrustStoreIfNecessary();
-    const cacheFilename = path.join(trustStoreFolder, cacheName + ".cache");
+    const cachedData = await this.readCachedPublicKeys(cacheName);
+    if (this.offline) {
+      return this.getOfflineCachedPublicKeys(cacheName, cachedData);
+    }
 
-    const result = await fetch();
-    await writeFilePromise(
-      cacheFilename,
-      JSON.stringify({
-        data: result,
-        expiryUtc: Math.floor(Date.now() / 1000) + 60 * 60 * 24 // 24 hours
-      })
-    );
-    return result;
+    // This is called when a signature doesn't verify with the cached public
+    // keys, in case the public keys have been updated. Don't refetch if the
+    // public keys were fetched (or failed to fetch) recently, so that bad
+    // signatures don't cause a fetch every time.
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      cachedData !== null &&
+      (cachedData.error === undefined
+        ? cachedData.fetchedUtc !== undefined &&
+          cachedData.fetchedUtc + getNegativeCacheTtl(await this.loadConfig()) >
+            now
+        : cachedData.expiryUtc !== null && cachedData.expiryUtc > now)
+    ) {
+      return cachedData.data;
+    }
+
+    return (await this.fetchAndCachePublicKeys(cacheName, url)).data;
   }
 
   public async isTrusted(
     identity: SignatureIdentity,
     packageName: string
   ): Promise<boolean> {
-    const trustStoreFolder = this.createTrustStoreIfNecessary();
-    const packageFilename = path.join(trustStoreFolder, packageName + ".trust");
+    return (await this.findTrust(identity, packageName)) !== null;
+  }
+
+  public async findTrust(
+    identity: SignatureIdentity,
+    packageName: string
+  ): Promise<TrustGrant | null> {
+    return await findTrustInRules(this, identity, packageName);
+  }
+
+  public async getTrustRulesForPackage(
+    packageName: string
+  ): Promise<SourcedTrustRule[]> {
+    const trustStoreFolder = getTrustStoreFolder();
 
+    const rules = (await this.listTrustRules()).filter(rule =>
+      patternMatchesPackage(rule.pattern, packageName)
+    );
     try {
-      const trustInfo = JSON.parse(
-        await readFilePromise(packageFilename)
-      ) as SignatureIdentity;
-      return (
-        trustInfo.keybaseUser === identity.keybaseUser &&
-        trustInfo.pgpPublicKeyUrl === identity.pgpPublicKeyUrl
+      const packageFilename = this.getTrustFilename(
+        trustStoreFolder,
+        packageName
       );
+      for (let trustedIdentity of parseTrustFile(
+        await readFilePromise(packageFilename)
+      )) {
+        rules.push({
+          pattern: packageName,
+          ...trustedIdentity,
+          source: packageFilename
+        });
+      }
     } catch (e) {
-      return false;
+      // the package is not trusted by a trust file.
     }
+    return rules;
+  }
+
+  public async getSignatureRequirements(
+    packageName: string
+  ): Promise<SourcedSignatureRequirement[]> {
+    // Signature requirements can only be set by trust policies.
+    return [];
   }
 
   public async addTrusted(
     identity: SignatureIdentity,
-    packageName: string
+    packageName: string,
+    constraints?: TrustConstraints
+  ): Promise<void> {
+    const trustStoreFolder = getTrustStoreFolder();
+    const packageFilename = this.getTrustFilename(
+      trustStoreFolder,
+      packageName
+    );
+
+    // Scoped packages are stored in a folder named after the scope.
+    if (!fs.existsSync(path.dirname(packageFilename))) {
+      fs.mkdirSync(path.dirname(packageFilename));
+    }
+
+    // Add the identity to the identities that are already trusted, replacing
+    // the constraints if the identity is already trusted.
+    let trustedIdentities: TrustedIdentity[] = [];
+    if (fs.existsSync(packageFilename)) {
+      trustedIdentities = parseTrustFile(
+        await readFilePromise(packageFilename)
+      ).filter(
+        trustedIdentity =>
+          !identitiesAreEqual(trustedIdentity.identity, identity)
+      );
+    }
+    trustedIdentities.push({ identity: identity, ...constraints });
+
+    await writeFilePromise(
+      packageFilename,
+      JSON.stringify(trustedIdentities, null, 2)
+    );
+  }
+
+  public async addTrustRule(rule: TrustRule): Promise<void> {
+    const trustStoreFolder = getTrustStoreFolder();
+    const rulesFilename = path.join(trustStoreFolder, "rules.json");
+
+    const rules = (await this.listTrustRules()).map(removeRuleSource);
+    rules.push(rule);
+    await writeFilePromise(rulesFilename, JSON.stringify(rules, null, 2));
+  }
+
+  public async listTrusted(): Promise<TrustedPackage[]> {
+    const trustStoreFolder = getTrustStoreFolder();
+
+    let packageNames: string[] = [];
+    for (let filename of await readdirPromise(trustStoreFolder)) {
+      if (filename[0] == "@") {
+        // this is a scope folder, list the packages inside it.
+        const scopeFolder = path.join(trustStoreFolder, filename);
+        if (!fs.lstatSync(scopeFolder).isDirectory()) {
+          continue;
+        }
+        for (let scopedFilename of await readdirPromise(scopeFolder)) {
+          if (scopedFilename.endsWith(".trust")) {
+            packageNames.push(
+              filename +
+                "/" +
+                scopedFilename.substr(0, scopedFilename.length - 6)
+            );
+          }
+        }
+      } else if (filename.endsWith(".trust")) {
+        packageNames.push(filename.substr(0, filename.length - 6));
+      }
+    }
+
+    let trustedPackages: TrustedPackage[] = [];
+    for (let packageName of packageNames.sort()) {
+      try {
+        for (let trustedIdentity of parseTrustFile(
+          await readFilePromise(
+            this.getTrustFilename(trustStoreFolder, packageName)
+          )
+        )) {
+          trustedPackages.push({
+            packageName: packageName,
+            ...trustedIdentity
+          });
+        }
+      } catch (e) {
+        // ignore unreadable trust files, the same as isTrusted does.
+      }
+    }
+    return trustedPackages;
+  }
+
+  public async listTrustRules(): Promise<SourcedTrustRule[]> {
+    const trustStoreFolder = getTrustStoreFolder();
+    const rulesFilename = path.join(trustStoreFolder, "rules.json");
+
+    let rules: TrustRule[];
+    try {
+      rules = JSON.parse(await readFilePromise(rulesFilename)) as TrustRule[];
+    } catch (e) {
+      if (e && e.code == "ENOENT") {
+        return [];
+      }
+      throw new Error(
+        "unable to read trust rules from " + rulesFilename + ": " + e.message
+      );
+    }
+    return rules.map(rule => ({ ...rule, source: rulesFilename }));
+  }
+
+  public async removeTrusted(
+    packageName: string,
+    identity?: SignatureIdentity
+  ): Promise<boolean> {
+    const trustStoreFolder = getTrustStoreFolder();
+    const packageFilename = this.getTrustFilename(
+      trustStoreFolder,
+      packageName
+    );
+
+    try {
+      if (identity !== undefined) {
+        // Only stop trusting the specified identity.
+        const trustedIdentities = parseTrustFile(
+          await readFilePromise(packageFilename)
+        );
+        const remainingIdentities = trustedIdentities.filter(
+          trustedIdentity =>
+            !identitiesAreEqual(trustedIdentity.identity, identity)
+        );
+        if (remainingIdentities.length == trustedIdentities.length) {
+          return false;
+        }
+        if (remainingIdentities.length > 0) {
+          await writeFilePromise(
+            packageFilename,
+            JSON.stringify(remainingIdentities, null, 2)
+          );
+          return true;
+        }
+      }
+
+      await unlinkPromise(packageFilename);
+      return true;
+    } catch (e) {
+      if (e && e.code == "ENOENT") {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  public async removeTrustRules(
+    pattern: string,
+    identity?: SignatureIdentity
+  ): Promise<boolean> {
+    const trustStoreFolder = getTrustStoreFolder();
+    const rulesFilename = path.join(trustStoreFolder, "rules.json");
+
+    // If an identity is specified, only remove the rules for that identity.
+    const rules = await this.listTrustRules();
+    const remainingRules = rules
+      .filter(
+        rule =>
+          rule.pattern != pattern ||
+          (identity !== undefined &&
+            (rule.identity === undefined ||
+              !identitiesAreEqual(rule.identity, identity)))
+      )
+      .map(removeRuleSource);
+    if (remainingRules.length == rules.length) {
+      return false;
+    }
+    await writeFilePromise(
+      rulesFilename,
+      JSON.stringify(remainingRules, null, 2)
+    );
+    return true;
+  }
+
+  /**
+   * Returns all of the cached public keys, keyed by cache name.
+   */
+  public async listCachedPublicKeys(): Promise<{
+    [cacheName: string]: CachedData;
+  }> {
+    const trustStoreFolder = getTrustStoreFolder();
+
+    let cachedPublicKeys: { [cacheName: string]: CachedData } = {};
+    for (let filename of (await readdirPromise(trustStoreFolder)).sort()) {
+      if (!filename.endsWith(".cache")) {
+        continue;
+      }
+      const cacheName = filename.substr(0, filename.length - 6);
+      const cachedData = await this.readCachedPublicKeys(cacheName);
+      if (cachedData !== null) {
+        cachedPublicKeys[cacheName] = cachedData;
+      }
+    }
+    return cachedPublicKeys;
+  }
+
+  /**
+   * Adds public keys to the cache, replacing any public keys that are already
+   * cached under the same name.
+   *
+   * @param cacheName The cache name, such as `keybase.io.someuser`.
+   * @param cachedData The public keys and their expiry time.
+   */
+  public async importCachedPublicKeys(
+    cacheName: string,
+    cachedData: CachedData
   ): Promise<void> {
-    const trustStoreFolder = this.createTrustStoreIfNecessary();
-    const packageFilename = path.join(trustStoreFolder, packageName + ".trust");
+    if (
+      typeof cachedData.data !== "string" ||
+      (typeof cachedData.expiryUtc !== "number" &&
+        cachedData.expiryUtc !== null)
+    ) {
+      throw new Error("invalid cached public keys for " + cacheName);
+    }
 
-    await writeFilePromise(packageFilename, JSON.stringify(identity));
+    await writeFilePromise(
+      this.getCacheFilename(cacheName),
+      JSON.stringify({
+        data: cachedData.data,
+        expiryUtc: cachedData.expiryUtc,
+        fetchedUtc: cachedData.fetchedUtc,
+        source: cachedData.source
+      })
+    );
   }
 
-  private createTrustStoreIfNecessary(): string {
-    const isWin = /^win/.test(process.platform);
-    const trustStoreBaseFolder = isWin
-      ? process.env.USERPROFILE
-      : process.env.HOME;
-    if (trustStoreBaseFolder === undefined) {
+  /**
+   * Fetches public keys again from the URL they were originally fetched from,
+   * regardless of whether the cached public keys have expired.
+   *
+   * @param cacheName The cache name, such as `keybase.io.someuser`.
+   */
+  public async refreshCachedPublicKeys(cacheName: string): Promise<CachedData> {
+    const cachedData = await this.readCachedPublicKeys(cacheName);
+    if (cachedData === null) {
+      throw new Error("no public keys are cached as " + cacheName);
+    }
+    if (cachedData.source === undefined) {
       throw new Error(
-        "missing HOME / USERPROFILE environment variable; can not determine location of trust store"
+        "the cache does not record where the public keys were fetched from; purge it instead"
+      );
+    }
+    const refreshedData = await this.fetchAndCachePublicKeys(
+      cacheName,
+      cachedData.source
+    );
+    if (refreshedData.error !== undefined) {
+      throw new Error(refreshedData.error);
+    }
+    return refreshedData;
+  }
+
+  /**
+   * Removes public keys from the cache, and returns whether they were cached.
+   *
+   * @param cacheName The cache name, such as `keybase.io.someuser`.
+   */
+  public async purgeCachedPublicKeys(cacheName: string): Promise<boolean> {
+    try {
+      await unlinkPromise(this.getCacheFilename(cacheName));
+      return true;
+    } catch (e) {
+      if (e && e.code == "ENOENT") {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  private fetchAndCachePublicKeys(
+    cacheName: string,
+    url: string
+  ): Promise<CachedData> {
+    // Verifications that share this trust store at the same time (such as
+    // the requests handled by `pkgsign serve`) share a single fetch.
+    const key = cacheName + " " + url;
+    let pendingFetch = this.pendingFetches.get(key);
+    if (pendingFetch === undefined) {
+      pendingFetch = this.fetchAndCachePublicKeysNow(cacheName, url);
+      this.pendingFetches.set(key, pendingFetch);
+      const removePendingFetch = () => this.pendingFetches.delete(key);
+      pendingFetch.then(removePendingFetch, removePendingFetch);
+    }
+    return pendingFetch;
+  }
+
+  private async fetchAndCachePublicKeysNow(
+    cacheName: string,
+    url: string
+  ): Promise<CachedData> {
+    const config = await this.loadConfig();
+    const now = Math.floor(Date.now() / 1000);
+
+    let cachedData: CachedData;
+    try {
+      const ttl = getPublicKeyCacheTtl(config, getCacheIdentityType(cacheName));
+      cachedData = {
+        data: await fetchPublicKeys(url),
+        expiryUtc: ttl === null ? null : now + ttl,
+        fetchedUtc: now,
+        source: url
+      };
+    } catch (e) {
+      // Remember that the fetch failed, so we don't keep trying to fetch the
+      // public keys on every verification. The public keys that were fetched
+      // before are kept, and used until they can be fetched again.
+      const previousData = await this.readCachedPublicKeys(cacheName);
+      let failedData: CachedData = {
+        data: "",
+        expiryUtc: now + getNegativeCacheTtl(config),
+        fetchedUtc: now,
+        source: url,
+        error: e.message
+      };
+      if (previousData !== null && previousData.data !== "") {
+        failedData.data = previousData.data;
+        failedData.fetchedUtc = previousData.fetchedUtc;
+      }
+      await writeFilePromise(
+        this.getCacheFilename(cacheName),
+        JSON.stringify(failedData)
       );
+      if (failedData.data === "") {
+        throw e;
+      }
+      return failedData;
     }
-    const trustStoreFolder = path.join(
-      trustStoreBaseFolder,
-      ".pkgsign-trust-store"
+
+    await writeFilePromise(
+      this.getCacheFilename(cacheName),
+      JSON.stringify(cachedData)
     );
+    return cachedData;
+  }
+
+  private async readCachedPublicKeys(
+    cacheName: string
+  ): Promise<CachedData | null> {
+    try {
+      return JSON.parse(
+        await readFilePromise(this.getCacheFilename(cacheName))
+      ) as CachedData;
+    } catch (e) {
+      // the public keys are not cached, or the cache file is unreadable.
+      return null;
+    }
+  }
+
+  private getOfflineCachedPublicKeys(
+    cacheName: string,
+    cachedData: CachedData | null
+  ): string {
+    if (cachedData === null || cachedData.data === "") {
+      throw new Error(
+        "public keys for '" +
+          cacheName +
+          "' are not cached, and can not be fetched in offline mode; use 'pkgsign keys import' to import them"
+      );
+    }
+    return cachedData.data;
+  }
+
+  private async loadConfig(): Promise<Config> {
+    return await loadConfig(getTrustStoreFolder());
+  }
 
-    if (!fs.existsSync(trustStoreFolder)) {
-      fs.mkdirSync(trustStoreFolder);
+  private getCacheFilename(cacheName: string): string {
+    if (!/^[A-Za-z0-9_-][A-Za-z0-9._-]*$/.test(cacheName)) {
+      throw new Error("invalid public key cache name: " + cacheName);
+    }
+    return path.join(getTrustStoreFolder(), cacheName + ".cache");
+  }
+
+  private getTrustFilename(
+    trustStoreFolder: string,
+    packageName: string
+  ): string {
+    // Package names are used as file names, so make sure they can't refer to
+    // anything outside of the trust store. Scoped packages contain exactly one
+    // slash, which places them in a folder named after the scope.
+    const components = packageName.split("/");
+    if (
+      packageName.indexOf("\\") !== -1 ||
+      packageName.indexOf("*") !== -1 ||
+      components.length > 2 ||
+      (components.length == 2 && components[0][0] != "@") ||
+      components.some(
+        component => component == "" || component == "." || component == ".."
+      )
+    ) {
+      throw new Error("invalid package name: " + packageName);
     }
 
-    return trustStoreFolder;
+    return path.join(trustStoreFolder, ...components) + ".trust";
   }
 }
 
@@ -130,7 +716,7 @@ export class TestTrustStore implements ITrustStore {
 
   public async getOrFetchCachedPublicKeys(
     cacheName: string,
-    fetch: () => Promise<string>
+    url: string
   ): Promise<string> {
     return await readFilePromise(
       path.join(__dirname, "..", "..", "test", "test.pub")
@@ -139,7 +725,7 @@ export class TestTrustStore implements ITrustStore {
 
   public async fetchCachedPublicKeys(
     cacheName: string,
-    fetch: () => Promise<string>
+    url: string
   ): Promise<string> {
     return await readFilePromise(
       path.join(__dirname, "..", "..", "test", "test.pub")
@@ -150,15 +736,170 @@ export class TestTrustStore implements ITrustStore {
     identity: SignatureIdentity,
     packageName: string
   ): Promise<boolean> {
-    return (
-      identity.pgpPublicKeyUrl === "https://pkgsign.test.invalid.url/test.pub"
-    );
+    return (await this.findTrust(identity, packageName)) !== null;
   }
 
-  public async addTrusted(
+  public async findTrust(
     identity: SignatureIdentity,
     packageName: string
+  ): Promise<TrustGrant | null> {
+    return await findTrustInRules(this, identity, packageName);
+  }
+
+  public async getTrustRulesForPackage(
+    packageName: string
+  ): Promise<SourcedTrustRule[]> {
+    return await this.listTrustRules();
+  }
+
+  public async getSignatureRequirements(
+    packageName: string
+  ): Promise<SourcedSignatureRequirement[]> {
+    return [];
+  }
+
+  public async addTrusted(
+    identity: SignatureIdentity,
+    packageName: string,
+    constraints?: TrustConstraints
   ): Promise<void> {
     // No implementation.
   }
+
+  public async addTrustRule(rule: TrustRule): Promise<void> {
+    // No implementation.
+  }
+
+  public async listTrusted(): Promise<TrustedPackage[]> {
+    return [];
+  }
+
+  public async listTrustRules(): Promise<SourcedTrustRule[]> {
+    return [
+      {
+        pattern: "*",
+        identity: {
+          pgpPublicKeyUrl: "https://pkgsign.test.invalid.url/test.pub"
+        },
+        source: "test trust store"
+      }
+    ];
+  }
+
+  public async removeTrusted(
+    packageName: string,
+    identity?: SignatureIdentity
+  ): Promise<boolean> {
+    return false;
+  }
+
+  public async removeTrustRules(
+    pattern: string,
+    identity?: SignatureIdentity
+  ): Promise<boolean> {
+    return false;
+  }
+}
+
+/**
+ * `LayeredTrustStore` merges several trust stores together. The trust rules of
+ * all layers are evaluated together, so a deny rule in one layer overrides a
+ * less specific allow rule in another. Changes to trust are made to the first
+ * (writable) layer only, which also caches public keys.
+ */
+export class LayeredTrustStore implements ITrustStore {
+  constructor(
+    private writableLayer: ITrustStore,
+    private readOnlyLayers: ITrustStore[]
+  ) {}
+
+  public async getOrFetchCachedPublicKeys(
+    cacheName: string,
+    url: string
+  ): Promise<string> {
+    return await this.writableLayer.getOrFetchCachedPublicKeys(cacheName, url);
+  }
+
+  public async fetchCachedPublicKeys(
+    cacheName: string,
+    url: string
+  ): Promise<string> {
+    return await this.writableLayer.fetchCachedPublicKeys(cacheName, url);
+  }
+
+  public async isTrusted(
+    identity: SignatureIdentity,
+    packageName: string
+  ): Promise<boolean> {
+    return (await this.findTrust(identity, packageName)) !== null;
+  }
+
+  public async findTrust(
+    identity: SignatureIdentity,
+    packageName: string
+  ): Promise<TrustGrant | null> {
+    return await findTrustInRules(this, identity, packageName);
+  }
+
+  public async getTrustRulesForPackage(
+    packageName: string
+  ): Promise<SourcedTrustRule[]> {
+    let rules: SourcedTrustRule[] = [];
+    for (let layer of [...this.readOnlyLayers, this.writableLayer]) {
+      rules.push(...(await layer.getTrustRulesForPackage(packageName)));
+    }
+    return rules;
+  }
+
+  public async getSignatureRequirements(
+    packageName: string
+  ): Promise<SourcedSignatureRequirement[]> {
+    let requirements: SourcedSignatureRequirement[] = [];
+    for (let layer of [...this.readOnlyLayers, this.writableLayer]) {
+      requirements.push(...(await layer.getSignatureRequirements(packageName)));
+    }
+    return requirements;
+  }
+
+  public async addTrusted(
+    identity: SignatureIdentity,
+    packageName: string,
+    constraints?: TrustConstraints
+  ): Promise<void> {
+    await this.writableLayer.addTrusted(identity, packageName, constraints);
+  }
+
+  public async addTrustRule(rule: TrustRule): Promise<void> {
+    await this.writableLayer.addTrustRule(rule);
+  }
+
+  public async listTrusted(): Promise<TrustedPackage[]> {
+    let trustedPackages: TrustedPackage[] = [];
+    for (let layer of [...this.readOnlyLayers, this.writableLayer]) {
+      trustedPackages.push(...(await layer.listTrusted()));
+    }
+    return trustedPackages;
+  }
+
+  public async listTrustRules(): Promise<SourcedTrustRule[]> {
+    let rules: SourcedTrustRule[] = [];
+    for (let layer of [...this.readOnlyLayers, this.writableLayer]) {
+      rules.push(...(await layer.listTrustRules()));
+    }
+    return rules;
+  }
+
+  public async removeTrusted(
+    packageName: string,
+    identity?: SignatureIdentity
+  ): Promise<boolean> {
+    return await this.writableLayer.removeTrusted(packageName, identity);
+  }
+
+  public async removeTrustRules(
+    pattern: string,
+    identity?: SignatureIdentity
+  ): Promise<boolean> {
+    return await this.writableLayer.removeTrustRules(pattern, identity);
+  }
 }
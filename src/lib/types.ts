@@ -1,6 +1,11 @@
+import { IVirtualFileSystem } from "./vfs";
+
 export type SignatureIdentity = {
   keybaseUser?: string;
   pgpPublicKeyUrl?: string;
+  pgpFingerprint?: string;
+  sshPrincipal?: string;
+  ed25519Fingerprint?: string;
 };
 
 export function identityToString(identity: SignatureIdentity): string {
@@ -8,6 +13,12 @@ export function identityToString(identity: SignatureIdentity): string {
     return "@" + identity.keybaseUser;
   } else if (identity.pgpPublicKeyUrl !== undefined) {
     return identity.pgpPublicKeyUrl;
+  } else if (identity.pgpFingerprint !== undefined) {
+    return "pgp:" + identity.pgpFingerprint;
+  } else if (identity.sshPrincipal !== undefined) {
+    return "ssh:" + identity.sshPrincipal;
+  } else if (identity.ed25519Fingerprint !== undefined) {
+    return "ed25519:" + identity.ed25519Fingerprint;
   } else {
     throw new Error(
       "unknown SignatureIdentity content, cannot convert to string"
@@ -15,6 +26,44 @@ export function identityToString(identity: SignatureIdentity): string {
   }
 }
 
+export function identitiesAreEqual(
+  a: SignatureIdentity,
+  b: SignatureIdentity
+): boolean {
+  return (
+    a.keybaseUser === b.keybaseUser &&
+    a.pgpPublicKeyUrl === b.pgpPublicKeyUrl &&
+    a.pgpFingerprint === b.pgpFingerprint &&
+    a.sshPrincipal === b.sshPrincipal &&
+    a.ed25519Fingerprint === b.ed25519Fingerprint
+  );
+}
+
+/**
+ * Normalizes a key fingerprint for comparison, by removing whitespace and
+ * converting hexadecimal (PGP) fingerprints to upper case. SSH fingerprints
+ * (such as `SHA256:...`) are base64 encoded, so their case is preserved.
+ *
+ * @param fingerprint The key fingerprint.
+ */
+export function normalizeFingerprint(fingerprint: string): string {
+  const stripped = fingerprint.replace(/\s/g, "");
+  return /^[0-9a-fA-F]+$/.test(stripped) ? stripped.toUpperCase() : stripped;
+}
+
+/**
+ * Returns the scope of a scoped package name (such as `@acme` for
+ * `@acme/pkg`), or null if the package is not scoped.
+ *
+ * @param packageName The package name.
+ */
+export function getPackageScope(packageName: string): string | null {
+  if (packageName[0] == "@" && packageName.indexOf("/") !== -1) {
+    return packageName.substr(0, packageName.indexOf("/"));
+  }
+  return null;
+}
+
 export enum ModuleVerificationStatus {
   // When the data on disk or in the package explicitly does not
   // match the expected state of the signature (either extra files,
@@ -30,7 +79,21 @@ export enum ModuleVerificationStatus {
 
   // When the package has a valid signature and the user or device
   // trusts the associated identity.
-  Trusted
+  Trusted,
+
+  // When the package has a valid signature from a trusted identity, but
+  // the signature was made with a different key than the key that was
+  // trusted (for example, because the keybase.io account or the server
+  // hosting the public key was taken over).
+  KeyChanged,
+
+  // When the package has a valid signature, but the signature has expired,
+  // or was made after the key that made it expired or was revoked.
+  Expired,
+
+  // When the package is installed, but can't be verified at all (for
+  // example, because its package.json is missing or unreadable).
+  Unverifiable
 }
 
 export type ModuleVerificationResult =
@@ -49,6 +112,8 @@ export type ModuleVerificationResult =
       isPrivate: boolean;
       reason?: string;
       untrustedIdentity: SignatureIdentity;
+      // The fingerprint of the key that made the signature, if known.
+      keyFingerprint?: string;
     }
   | {
       status: ModuleVerificationStatus.Trusted;
@@ -57,6 +122,33 @@ export type ModuleVerificationResult =
       isPrivate: boolean;
       reason?: string;
       trustedIdentity: SignatureIdentity;
+      // Where trust was granted, such as the path of a trust file or policy file.
+      trustSource: string;
+      // The fingerprint of the key that made the signature, if known.
+      keyFingerprint?: string;
+      // When the package must be signed by several identities, the identities
+      // whose signatures met the requirement.
+      signingIdentities?: SignatureIdentity[];
+    }
+  | {
+      status: ModuleVerificationStatus.KeyChanged;
+      packageName: string;
+      untrustedPackageVersion: string;
+      isPrivate: boolean;
+      reason?: string;
+      untrustedIdentity: SignatureIdentity;
+      // The fingerprint of the key that made the signature.
+      keyFingerprint: string;
+      // The fingerprints of the keys the identity is trusted to sign with.
+      trustedFingerprints: string[];
+    }
+  | {
+      status: ModuleVerificationStatus.Expired;
+      packageName: string;
+      untrustedPackageVersion: string;
+      isPrivate: boolean;
+      reason?: string;
+      untrustedIdentity: SignatureIdentity;
     }
   | {
       status: ModuleVerificationStatus.Unsigned;
@@ -64,22 +156,38 @@ export type ModuleVerificationResult =
       untrustedPackageVersion: string;
       isPrivate: boolean;
       reason?: string;
+    }
+  | {
+      status: ModuleVerificationStatus.Unverifiable;
+      packageName: string;
+      untrustedPackageVersion: string;
+      isPrivate: boolean;
+      reason: string;
     };
 
 export interface IGenerateEntryContext {
-  // The directory of the module being signed.
-  dir: string;
+  // The files of the module being signed.
+  fileSystem: IVirtualFileSystem;
 
   // A list of relative file paths expected on disk for this module.
   relFilesOnDisk: string[];
 
   // The identity that is signing the package.
   signingIdentity: SignatureIdentity;
+
+  // When the signature expires (ISO 8601), if it expires.
+  expires?: string;
+
+  // Whether the signature is detached, and so isn't stored in the module as
+  // signature.json. Any signature.json in the module is then one of its own
+  // files.
+  detached?: boolean;
 }
 
 export interface IVerifyEntryContext {
-  // The directory of the module being verified.
-  dir: string;
+  // The files of the module being verified, which can be on disk or read
+  // from a tarball.
+  fileSystem: IVirtualFileSystem;
 
   // A list of relative file paths expected on disk for this module.
   relFilesOnDisk: string[];
@@ -98,6 +206,11 @@ export interface IVerifyEntryContext {
 
   // A list of all of the signature entries included in the signature (unverified).
   entries: Entry<any>[];
+
+  // Whether the signature is detached, and so isn't stored in the module as
+  // signature.json. Any signature.json in the module is then one of its own
+  // files.
+  detached?: boolean;
 }
 
 export type Entry<T> = { entry: string; value: T };
@@ -0,0 +1,22 @@
+import * as crypto from "crypto";
+
+/**
+ * Verifies a signature with `crypto.verify`, and returns whether it is valid.
+ * The @types/node typings declare `crypto.verify` as returning a Buffer, but
+ * it returns a boolean.
+ *
+ * @param algorithm The hash algorithm, or null for algorithms that don't use
+ * a separate hash (such as Ed25519).
+ * @param data The signed data.
+ * @param publicKey The public key.
+ * @param signature The signature.
+ */
+export function verifyWithPublicKey(
+  algorithm: string | null,
+  data: Buffer,
+  publicKey: crypto.KeyObject,
+  signature: Buffer
+): boolean {
+  const valid: unknown = crypto.verify(algorithm, data, publicKey, signature);
+  return valid === true;
+}
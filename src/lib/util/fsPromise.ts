@@ -1,11 +1,12 @@
 import * as fs from "fs";
+import { join } from "path";
 import * as recursive from "recursive-readdir";
 import * as crypto from "crypto";
 import * as targz from "targz";
 import * as tmp from "tmp";
-import { isBinaryFile } from "isbinaryfile";
+import { isBinaryFileSync } from "isbinaryfile";
 import * as eolFix from "eol-fix-stream";
-import { Transform } from "stream";
+import { PassThrough, Readable, Transform } from "stream";
 
 export function readdirPromise(dir: string): Promise<string[]> {
   return new Promise<string[]>((resolve, reject) => {
@@ -19,9 +20,28 @@ export function readdirPromise(dir: string): Promise<string[]> {
   });
 }
 
-export function writeFilePromise(file: string, content: string): Promise<void> {
+export function writeFilePromise(
+  file: string,
+  content: string,
+  mode?: number
+): Promise<void> {
   return new Promise<void>((resolve, reject) => {
-    fs.writeFile(file, content, "utf8", err => {
+    fs.writeFile(file, content, { encoding: "utf8", mode: mode }, err => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+export function writeFileBufferPromise(
+  file: string,
+  content: Buffer
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    fs.writeFile(file, content, err => {
       if (err) {
         reject(err);
       } else {
@@ -43,6 +63,42 @@ export function readFilePromise(file: string): Promise<string> {
   });
 }
 
+export function readFileBufferPromise(file: string): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    fs.readFile(file, (err, data) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(data);
+      }
+    });
+  });
+}
+
+export function lstatPromise(file: string): Promise<fs.Stats> {
+  return new Promise<fs.Stats>((resolve, reject) => {
+    fs.lstat(file, (err, stats) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(stats);
+      }
+    });
+  });
+}
+
+export function realpathPromise(file: string): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    fs.realpath(file, (err, resolvedPath) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(resolvedPath);
+      }
+    });
+  });
+}
+
 export function unlinkPromise(file: string) {
   return new Promise<void>((resolve, reject) => {
     fs.unlink(file, err => {
@@ -55,6 +111,30 @@ export function unlinkPromise(file: string) {
   });
 }
 
+export function rmdirPromise(dir: string) {
+  return new Promise<void>((resolve, reject) => {
+    fs.rmdir(dir, err => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+export async function removeDirectoryPromise(dir: string): Promise<void> {
+  for (let entry of await readdirPromise(dir)) {
+    const entryPath = join(dir, entry);
+    if ((await lstatPromise(entryPath)).isDirectory()) {
+      await removeDirectoryPromise(entryPath);
+    } else {
+      await unlinkPromise(entryPath);
+    }
+  }
+  await rmdirPromise(dir);
+}
+
 export function recursivePromise(path: string): Promise<string[]> {
   return new Promise<string[]>((resolve, reject) => {
     recursive(path, (err, files) => {
@@ -67,34 +147,67 @@ export function recursivePromise(path: string): Promise<string[]> {
   });
 }
 
-export async function sha512OfFile(path: string): Promise<string> {
-  const isBinary = await isBinaryFile(path, undefined);
-
-  let shouldPipe = false;
-  if (!isBinary) {
-    // We have to convert all CRLF to LF because of how Git
-    // clones text files on Windows.
-    shouldPipe = true;
-  }
+// The size of the chunks that files are read in, which is the default for
+// fs.createReadStream.
+const hashChunkSize = 64 * 1024;
 
-  let fstream: fs.ReadStream | Transform = fs.createReadStream(path);
+/**
+ * Returns the SHA512 hash of a file as its content is streamed, such as from
+ * a tarball. Text files are hashed with LF line endings, and the content is
+ * hashed in the same chunks as `sha512OfFile` reads them from disk, so that
+ * the line ending conversion gives the same result.
+ *
+ * @param stream The content of the file.
+ */
+export function sha512OfStream(stream: Readable): Promise<string> {
   const hash = crypto.createHash("sha512");
-  hash.setEncoding("hex");
+  let input: PassThrough | null = null;
+  let pendingChunks: Buffer[] = [];
+  let pendingLength = 0;
 
-  return await new Promise<string>((resolve, reject) => {
-    fstream.on("end", function() {
-      hash.end();
-      resolve(hash.read() as string);
-    });
-
-    if (shouldPipe) {
-      fstream = fstream.pipe(eolFix());
-    }
+  return new Promise<string>((resolve, reject) => {
+    const writeChunk = (chunk: Buffer) => {
+      if (input === null) {
+        input = new PassThrough();
+        let output: Transform = input;
+        if (!isBinaryFileSync(chunk.slice(0, 512))) {
+          // We have to convert all CRLF to LF because of how Git
+          // clones text files on Windows.
+          output = input.pipe(eolFix());
+        }
+        output.on("data", data => hash.update(data));
+        output.on("end", () => resolve(hash.digest("hex")));
+        output.on("error", reject);
+      }
+      input.write(chunk);
+    };
 
-    fstream.pipe(hash);
+    stream.on("data", (data: Buffer) => {
+      pendingChunks.push(data);
+      pendingLength += data.length;
+      while (pendingLength >= hashChunkSize) {
+        const pending = Buffer.concat(pendingChunks);
+        writeChunk(pending.slice(0, hashChunkSize));
+        pendingChunks = [pending.slice(hashChunkSize)];
+        pendingLength -= hashChunkSize;
+      }
+    });
+    stream.on("end", () => {
+      if (pendingLength > 0 || input === null) {
+        writeChunk(Buffer.concat(pendingChunks));
+      }
+      (input as PassThrough).end();
+    });
+    stream.on("error", reject);
   });
 }
 
+export function sha512OfFile(path: string): Promise<string> {
+  return sha512OfStream(
+    fs.createReadStream(path, { highWaterMark: hashChunkSize })
+  );
+}
+
 export function createWorkingDirectory(): Promise<string> {
   return new Promise<string>((resolve, reject) => {
     tmp.dir(
@@ -0,0 +1,73 @@
+import * as http from "http";
+import { PassThrough, Readable } from "stream";
+
+/**
+ * An error that is sent as the response to an HTTP request, with the given
+ * status code.
+ */
+export class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+function createRequestTooLargeError(maxSize: number): HttpError {
+  return new HttpError(413, "the request is larger than " + maxSize + " bytes");
+}
+
+/**
+ * Reads the body of an HTTP request. As soon as the body is larger than the
+ * maximum size, the request stops being read, and this rejects with a 413
+ * `HttpError`.
+ *
+ * @param request The request.
+ * @param maxSize The largest body that is accepted, in bytes.
+ */
+export function readRequestBody(
+  request: http.IncomingMessage,
+  maxSize: number
+): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    let chunks: Buffer[] = [];
+    let length = 0;
+    const onData = (chunk: Buffer) => {
+      length += chunk.length;
+      if (length > maxSize) {
+        request.removeListener("data", onData);
+        request.pause();
+        reject(createRequestTooLargeError(maxSize));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    request.on("data", onData);
+    request.on("end", () => resolve(Buffer.concat(chunks)));
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Returns the body of an HTTP request as a stream, which fails with a 413
+ * `HttpError` as soon as the body is larger than the maximum size.
+ *
+ * @param request The request.
+ * @param maxSize The largest body that is accepted, in bytes.
+ */
+export function limitRequestBody(
+  request: http.IncomingMessage,
+  maxSize: number
+): Readable {
+  const output = new PassThrough();
+  let length = 0;
+  request.on("data", (chunk: Buffer) => {
+    length += chunk.length;
+    if (length > maxSize) {
+      request.unpipe(output);
+      request.pause();
+      output.emit("error", createRequestTooLargeError(maxSize));
+    }
+  });
+  request.on("error", e => output.emit("error", e));
+  request.pipe(output);
+  return output;
+}
@@ -0,0 +1,23 @@
+let progressToStderr = false;
+
+/**
+ * Sends all subsequent progress messages to stderr instead of stdout, so that
+ * stdout only contains the machine-readable output of the command.
+ */
+export function redirectProgressToStderr() {
+  progressToStderr = true;
+}
+
+/**
+ * Logs a progress message such as "fetching public keys...". These messages
+ * are informational only and are never part of a command's actual output.
+ *
+ * @param message The progress message to log.
+ */
+export function logProgress(message: string) {
+  if (progressToStderr) {
+    console.error(message);
+  } else {
+    console.log(message);
+  }
+}
@@ -0,0 +1,194 @@
+import * as zlib from "zlib";
+import * as tar from "tar-stream";
+import { readFileBufferPromise, writeFileBufferPromise } from "./fsPromise";
+import {
+  TarballFileSystem,
+  splitTarballEntryName
+} from "../vfs/tarballFileSystem";
+
+// The modification time npm gives every entry of the tarballs it packs, so
+// that packing the same files always gives the same tarball.
+const normalizedMtime = new Date("1985-10-26T08:15:00.000Z");
+
+interface PackedFile {
+  // The path of the file, relative to the package directory.
+  relPath: string;
+
+  mode: number;
+  content: Buffer;
+}
+
+function gunzipPromise(buffer: Buffer): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    zlib.gunzip(buffer, (err, result) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(result);
+      }
+    });
+  });
+}
+
+function gzipPromise(buffer: Buffer): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    zlib.gzip(buffer, { level: 9 }, (err, result) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(result);
+      }
+    });
+  });
+}
+
+/**
+ * Returns where the end-of-archive marker of a tar archive starts, or null
+ * if the archive can't be appended to (because it is truncated, or has
+ * sizes in the base-256 encoding that tar uses for very large files).
+ *
+ * @param archive The tar archive.
+ */
+function findEndOfArchive(archive: Buffer): number | null {
+  let offset = 0;
+  while (offset + 512 <= archive.length) {
+    const header = archive.slice(offset, offset + 512);
+    if (header.every(byte => byte == 0)) {
+      return offset;
+    }
+    if (header[124] & 0x80) {
+      return null;
+    }
+    const size = parseInt(
+      header
+        .toString("ascii", 124, 136)
+        .replace(/\0/g, " ")
+        .trim() || "0",
+      8
+    );
+    if (isNaN(size)) {
+      return null;
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return null;
+}
+
+/**
+ * Packs files into a tar archive, with normalized modification times and
+ * owners, in the order they are given.
+ *
+ * @param rootDirectory The top-level directory to put the files in.
+ * @param files The files to pack.
+ */
+function packFiles(
+  rootDirectory: string,
+  files: PackedFile[]
+): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    const pack = tar.pack();
+    let chunks: Buffer[] = [];
+    pack.on("data", (data: Buffer) => chunks.push(data));
+    pack.on("end", () => resolve(Buffer.concat(chunks)));
+    pack.on("error", reject);
+    for (let file of files) {
+      pack.entry(
+        {
+          name: rootDirectory + "/" + file.relPath,
+          type: "file",
+          mode: file.mode,
+          mtime: normalizedMtime,
+          uid: 0,
+          gid: 0
+        },
+        file.content
+      );
+    }
+    pack.finalize();
+  });
+}
+
+/**
+ * Returns the files in a tar archive. Directories, symlinks and other entries
+ * that npm doesn't install as files are left out, and files are either
+ * executable (0755) or not (0644). If the archive has several entries for the
+ * same file, the last one is used, as it is when the archive is extracted.
+ *
+ * @param archive The tar archive.
+ */
+function readPackedFiles(archive: Buffer): Promise<PackedFile[]> {
+  return new Promise<PackedFile[]>((resolve, reject) => {
+    let files = new Map<string, PackedFile>();
+    const extract = tar.extract();
+    extract.on("entry", (header, stream, next) => {
+      const entryName = splitTarballEntryName(header.name);
+      let chunks: Buffer[] = [];
+      stream.on("data", (data: Buffer) => chunks.push(data));
+      stream.on("end", () => {
+        if (
+          entryName !== null &&
+          (header.type == "file" || header.type == "contiguous-file")
+        ) {
+          files.set(entryName.relPath, {
+            relPath: entryName.relPath,
+            mode: (header.mode || 0) & 0o111 ? 0o755 : 0o644,
+            content: Buffer.concat(chunks)
+          });
+        }
+        next();
+      });
+    });
+    extract.on("finish", () => resolve(Array.from(files.values())));
+    extract.on("error", reject);
+    extract.end(archive);
+  });
+}
+
+/**
+ * Adds a file to the package in a tarball. The file is appended to the end
+ * of the archive, so the headers and content of the other entries are kept
+ * byte-for-byte. If the package already has a file at the same path, or the
+ * archive can't be appended to, the tarball is repacked instead, with the
+ * files sorted by path and normalized modification times, modes and owners,
+ * so that repacking the same files always gives the same tarball.
+ *
+ * @param tarballPath The path to the `.tgz` file, which is overwritten.
+ * @param tarball The files of the tarball, as read by `readTarball`.
+ * @param relPath The path of the file to add, relative to the package
+ * directory.
+ * @param content The content of the file.
+ */
+export async function addFileToTarball(
+  tarballPath: string,
+  tarball: TarballFileSystem,
+  relPath: string,
+  content: Buffer
+): Promise<void> {
+  const archive = await gunzipPromise(await readFileBufferPromise(tarballPath));
+  const rootDirectory = tarball.getRootDirectory();
+  const newFile: PackedFile = {
+    relPath: relPath,
+    mode: 0o644,
+    content: content
+  };
+
+  const endOfArchive = findEndOfArchive(archive);
+  let newArchive: Buffer;
+  if (endOfArchive !== null && tarball.getFilePaths().indexOf(relPath) === -1) {
+    // The packed file is followed by the end-of-archive marker, which the
+    // new archive still needs after the appended file.
+    const packedFile = await packFiles(rootDirectory, [newFile]);
+    newArchive = Buffer.concat([archive.slice(0, endOfArchive), packedFile]);
+  } else {
+    let files = (await readPackedFiles(archive)).filter(
+      file => file.relPath != relPath
+    );
+    files.push(newFile);
+    files.sort((a, b) =>
+      a.relPath < b.relPath ? -1 : a.relPath > b.relPath ? 1 : 0
+    );
+    newArchive = await packFiles(rootDirectory, files);
+  }
+
+  await writeFileBufferPromise(tarballPath, await gzipPromise(newArchive));
+}
@@ -0,0 +1,126 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as zlib from "zlib";
+import { readFileBufferPromise } from "./fsPromise";
+
+const endOfCentralDirectorySignature = 0x06054b50;
+const centralDirectoryHeaderSignature = 0x02014b50;
+const localFileHeaderSignature = 0x04034b50;
+
+interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function zip64Message(zipPath: string): string {
+  return "zip64 archives are not supported: " + zipPath;
+}
+
+function readCentralDirectory(zipPath: string, data: Buffer): ZipEntry[] {
+  // The end of central directory record is at the end of the file, followed
+  // by a comment of up to 64KB.
+  let endOffset = -1;
+  for (
+    let offset = data.length - 22;
+    offset >= Math.max(0, data.length - 22 - 0xffff);
+    offset--
+  ) {
+    if (data.readUInt32LE(offset) == endOfCentralDirectorySignature) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset == -1) {
+    throw new Error(zipPath + " is not a zip archive");
+  }
+
+  const entryCount = data.readUInt16LE(endOffset + 10);
+  let offset = data.readUInt32LE(endOffset + 16);
+  if (offset == 0xffffffff) {
+    throw new Error(zip64Message(zipPath));
+  }
+
+  let entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) != centralDirectoryHeaderSignature) {
+      throw new Error("invalid central directory in " + zipPath);
+    }
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const entry = {
+      name: data.toString("utf8", offset + 46, offset + 46 + nameLength),
+      compressionMethod: data.readUInt16LE(offset + 10),
+      compressedSize: data.readUInt32LE(offset + 20),
+      localHeaderOffset: data.readUInt32LE(offset + 42)
+    };
+    if (
+      entry.compressedSize == 0xffffffff ||
+      entry.localHeaderOffset == 0xffffffff
+    ) {
+      throw new Error(zip64Message(zipPath));
+    }
+    entries.push(entry);
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function readEntryData(zipPath: string, data: Buffer, entry: ZipEntry): Buffer {
+  const offset = entry.localHeaderOffset;
+  if (data.readUInt32LE(offset) != localFileHeaderSignature) {
+    throw new Error("invalid local file header in " + zipPath);
+  }
+  const dataOffset =
+    offset +
+    30 +
+    data.readUInt16LE(offset + 26) +
+    data.readUInt16LE(offset + 28);
+  const compressed = data.slice(dataOffset, dataOffset + entry.compressedSize);
+  switch (entry.compressionMethod) {
+    case 0:
+      return compressed;
+    case 8:
+      return zlib.inflateRawSync(compressed);
+    default:
+      throw new Error(
+        "unsupported compression method " +
+          entry.compressionMethod +
+          " for " +
+          entry.name +
+          " in " +
+          zipPath
+      );
+  }
+}
+
+/**
+ * Extracts the files in a folder of a zip archive (such as the packages in
+ * the Yarn cache) to a directory.
+ *
+ * @param zipPath The path of the zip archive.
+ * @param folder The folder in the zip archive to extract, such as
+ * `node_modules/lodash/`.
+ * @param out The directory to extract the files to.
+ */
+export async function extractZipFolder(
+  zipPath: string,
+  folder: string,
+  out: string
+): Promise<void> {
+  const data = await readFileBufferPromise(zipPath);
+  for (let entry of readCentralDirectory(zipPath, data)) {
+    if (!entry.name.startsWith(folder) || entry.name.endsWith("/")) {
+      continue;
+    }
+    const relativePath = entry.name.substr(folder.length);
+    if (relativePath.split("/").some(segment => segment == "..")) {
+      throw new Error("invalid file name " + entry.name + " in " + zipPath);
+    }
+    const outPath = path.join(out, relativePath);
+    fs.mkdirSync(path.dirname(outPath), { recursive: true });
+    fs.writeFileSync(outPath, readEntryData(zipPath, data, entry));
+  }
+}
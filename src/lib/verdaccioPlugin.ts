@@ -0,0 +1,364 @@
+import * as http from "http";
+import * as url from "url";
+import { PassThrough } from "stream";
+import { ModuleVerifier } from "./moduleVerifier";
+import { TrustStore, LayeredTrustStore } from "./trustStore";
+import { PolicyTrustStore } from "./trustPolicy";
+import {
+  ModuleVerificationResult,
+  ModuleVerificationStatus,
+  identityToString
+} from "./types";
+import {
+  describeModuleVerificationResult,
+  isModuleVerificationSuccessful,
+  moduleVerificationStatusToString
+} from "./verificationReport";
+import { readTarballStream } from "./vfs/tarballFileSystem";
+import { HttpError, readRequestBody } from "./util/http";
+
+// The largest publish that is accepted if Verdaccio's `max_body_size` isn't
+// set, which is Verdaccio's own default.
+const defaultMaxBodySize = "10mb";
+
+// The largest published tarball that is accepted after it is decompressed,
+// in bytes, the same as for `pkgsign serve`.
+const maxUnpackedSize = 256 * 1024 * 1024;
+
+export interface VerdaccioPluginConfig {
+  // The path to the trust policy that decides which identities may sign
+  // each package.
+  policy?: string;
+
+  // Whether packages can be published without a signature.
+  allowUnsignedPackages?: boolean;
+
+  // Whether to only use cached public keys, as with `pkgsign verify --offline`.
+  offline?: boolean;
+}
+
+// The signature information that is added to the metadata of each published
+// version, as the `pkgsign` field.
+export interface PublishedSignature {
+  status: string;
+
+  // The trusted identity that signed the version.
+  identity?: string;
+
+  // When the version must be signed by several identities, the identities
+  // whose signatures met the requirement.
+  signingIdentities?: string[];
+
+  // The fingerprint of the key that made the signature, if known.
+  keyFingerprint?: string;
+}
+
+interface PublishBody {
+  versions?: { [version: string]: any };
+
+  // The tarballs of the published versions, keyed by filename.
+  _attachments?: { [filename: string]: { data?: string } };
+}
+
+type PublishRequest = http.IncomingMessage & {
+  // Set when the body has been parsed, so that Verdaccio doesn't parse it
+  // again.
+  body?: any;
+  _body?: boolean;
+};
+
+type Middleware = (
+  request: PublishRequest,
+  response: http.ServerResponse,
+  next: (error?: any) => void
+) => void;
+
+interface MiddlewareApp {
+  use(middleware: Middleware): void;
+}
+
+/**
+ * Returns the name of the package that a request publishes, or null if the
+ * request isn't a publish. npm publishes with `PUT /<package name>`, where
+ * the `/` of scoped package names is encoded.
+ *
+ * @param request The request.
+ */
+function getPublishedPackageName(request: http.IncomingMessage): string | null {
+  const pathname = url.parse(request.url || "").pathname || "";
+  const match = /^\/([^\/]+)$/.exec(pathname);
+  if (request.method != "PUT" || match === null || match[1][0] == "-") {
+    return null;
+  }
+  return decodeURIComponent(match[1]);
+}
+
+/**
+ * Parses a size in the form that Verdaccio's `max_body_size` setting accepts,
+ * such as `10mb`, and returns it in bytes.
+ *
+ * @param size The size, as a number of bytes or with a `b`, `kb`, `mb` or
+ * `gb` unit.
+ */
+function parseSize(size: string | number): number {
+  if (typeof size === "number") {
+    return size;
+  }
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(size);
+  if (match === null) {
+    throw new Error("invalid size: " + size);
+  }
+  const units = ["b", "kb", "mb", "gb"];
+  return Math.floor(
+    parseFloat(match[1]) *
+      Math.pow(1024, units.indexOf((match[2] || "b").toLowerCase()))
+  );
+}
+
+async function readRequestJson(
+  request: http.IncomingMessage,
+  maxSize: number
+): Promise<any> {
+  const body = await readRequestBody(request, maxSize);
+  try {
+    return JSON.parse(body.toString("utf8"));
+  } catch (e) {
+    throw new HttpError(400, "the request is not valid JSON: " + e.message);
+  }
+}
+
+function createPublishedSignature(
+  result: ModuleVerificationResult
+): PublishedSignature {
+  if (result.status !== ModuleVerificationStatus.Trusted) {
+    return { status: moduleVerificationStatusToString(result.status) };
+  }
+  return {
+    status: moduleVerificationStatusToString(result.status),
+    identity: identityToString(result.trustedIdentity),
+    signingIdentities:
+      result.signingIdentities !== undefined
+        ? result.signingIdentities.map(identityToString)
+        : undefined,
+    keyFingerprint: result.keyFingerprint
+  };
+}
+
+function sendError(
+  response: http.ServerResponse,
+  statusCode: number,
+  message: string
+) {
+  response.statusCode = statusCode;
+  response.setHeader("content-type", "application/json");
+  if (statusCode == 413) {
+    // The rest of the request isn't read, so the connection can't be used
+    // for another request.
+    response.setHeader("connection", "close");
+  }
+  response.end(JSON.stringify({ error: message }));
+}
+
+/**
+ * A Verdaccio middleware plugin that verifies every published tarball, and
+ * rejects publishes that don't pass verification against the trust policy.
+ * The identity that signed each published version is added to the version's
+ * metadata as the `pkgsign` field.
+ */
+export default class PkgsignVerdaccioPlugin {
+  private moduleVerifier: ModuleVerifier;
+  private allowUnsignedPackages: boolean;
+  private maxBodySize: number;
+
+  /**
+   * @param config The plugin's settings in the Verdaccio configuration.
+   * @param options The options that Verdaccio passes to every plugin.
+   */
+  constructor(config: VerdaccioPluginConfig, options: any) {
+    if (!config || !config.policy) {
+      throw new Error(
+        "the pkgsign Verdaccio plugin requires the path to a trust policy in its 'policy' setting"
+      );
+    }
+
+    // The trust store is shared by all publishes, so public keys are only
+    // fetched once.
+    this.moduleVerifier = new ModuleVerifier(
+      new LayeredTrustStore(new TrustStore(!!config.offline), [
+        new PolicyTrustStore(config.policy)
+      ])
+    );
+    this.allowUnsignedPackages = !!config.allowUnsignedPackages;
+    this.maxBodySize = parseSize(
+      (options && options.config && options.config.max_body_size) ||
+        defaultMaxBodySize
+    );
+  }
+
+  public register_middlewares(app: MiddlewareApp): void {
+    app.use((request, response, next) => {
+      const packageName = getPublishedPackageName(request);
+      if (packageName === null) {
+        next();
+        return;
+      }
+
+      // If another middleware has already parsed the body, verify that
+      // instead, since it's what Verdaccio will publish.
+      const parsedBody: Promise<any> = request._body
+        ? Promise.resolve(request.body)
+        : readRequestJson(request, this.maxBodySize);
+      parsedBody
+        .then(async body => {
+          request.body = body;
+          request._body = true;
+          const rejection = await this.verifyPublish(packageName, body);
+          if (rejection === null) {
+            next();
+          } else {
+            sendError(response, 403, rejection);
+          }
+        })
+        .then(undefined, e => {
+          if (e instanceof HttpError) {
+            sendError(response, e.statusCode, e.message);
+          } else {
+            next(e);
+          }
+        });
+    });
+  }
+
+  /**
+   * Verifies the tarballs in a publish, and adds the identities that signed
+   * them to the metadata of their versions. Returns why the publish is
+   * rejected, or null if every tarball passed verification. Every tarball
+   * must belong to one of the published versions, and contain the package
+   * and version it is published as, and every published version must have a
+   * tarball. Rejects with a 413 `HttpError` if a tarball is too large once
+   * it is decompressed.
+   *
+   * @param packageName The name of the published package.
+   * @param body The body of the publish request.
+   */
+  private async verifyPublish(
+    packageName: string,
+    body: PublishBody
+  ): Promise<string | null> {
+    const versions = body.versions || {};
+    const attachments = body._attachments || {};
+    for (let version in versions) {
+      // Only this plugin can set where the signature came from.
+      delete versions[version].pkgsign;
+    }
+    if (Object.keys(attachments).length == 0) {
+      // Requests without tarballs only change the metadata of versions that
+      // are already published, such as `npm deprecate`.
+      return null;
+    }
+
+    let tarballFilenames: { [version: string]: string } = {};
+    for (let version in versions) {
+      const metadata = versions[version];
+      const tarballUrl: string = (metadata.dist && metadata.dist.tarball) || "";
+      const filename = tarballUrl.substr(tarballUrl.lastIndexOf("/") + 1);
+      const attachment = attachments[filename];
+      if (attachment === undefined || typeof attachment.data !== "string") {
+        return (
+          "the tarball of " +
+          packageName +
+          "@" +
+          version +
+          " is missing from the publish"
+        );
+      }
+      tarballFilenames[version] = filename;
+    }
+    for (let filename in attachments) {
+      if (
+        !Object.keys(tarballFilenames).some(
+          version => tarballFilenames[version] == filename
+        )
+      ) {
+        return (
+          "the tarball " +
+          filename +
+          " does not belong to any of the published versions"
+        );
+      }
+    }
+
+    for (let version in tarballFilenames) {
+      if (
+        versions[version].version !== undefined &&
+        versions[version].version !== version
+      ) {
+        return (
+          "the metadata of " +
+          packageName +
+          "@" +
+          version +
+          " is for version " +
+          versions[version].version
+        );
+      }
+
+      const input = new PassThrough();
+      input.end(
+        Buffer.from(attachments[tarballFilenames[version]].data || "", "base64")
+      );
+      let tarball;
+      try {
+        tarball = await readTarballStream(input, undefined, maxUnpackedSize);
+      } catch (e) {
+        if (e && e.code == "EFBIG") {
+          throw new HttpError(413, e.message);
+        }
+        return (
+          "unable to read the tarball of " +
+          packageName +
+          "@" +
+          version +
+          ": " +
+          e.message
+        );
+      }
+
+      // The signature only covers the tarball, so a signed tarball must not
+      // be published as another version.
+      let packageInfo: any = null;
+      try {
+        packageInfo = JSON.parse(await tarball.readFile("package.json"));
+      } catch (e) {
+        // reported below.
+      }
+      if (
+        packageInfo === null ||
+        packageInfo.name !== packageName ||
+        packageInfo.version !== version
+      ) {
+        return (
+          "the tarball published as " +
+          packageName +
+          "@" +
+          version +
+          " contains " +
+          (packageInfo !== null && typeof packageInfo.name === "string"
+            ? packageInfo.name + "@" + packageInfo.version
+            : "no readable package.json")
+        );
+      }
+
+      const result = await this.moduleVerifier.verify(
+        tarball,
+        tarball.getFilePaths(),
+        packageName
+      );
+      if (!isModuleVerificationSuccessful(result, this.allowUnsignedPackages)) {
+        return describeModuleVerificationResult(result);
+      }
+      versions[version].pkgsign = createPublishedSignature(result);
+    }
+    return null;
+  }
+}
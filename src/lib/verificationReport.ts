@@ -0,0 +1,232 @@
+import {
+  ModuleVerificationResult,
+  ModuleVerificationStatus,
+  identityToString
+} from "./types";
+import { LockfileFinding } from "./lockfile";
+
+export interface VerificationSummary {
+  compromised: number;
+  unsigned: number;
+  untrusted: number;
+  trusted: number;
+  keyChanged: number;
+  expired: number;
+  unverifiable: number;
+}
+
+export interface VerificationReport {
+  // The verification result of each module, keyed by module path.
+  results: { [path: string]: ModuleVerificationResult };
+
+  // The number of modules with each verification status.
+  summary: VerificationSummary;
+
+  // Whether unsigned packages still pass verification.
+  allowUnsignedPackages: boolean;
+
+  // The differences between the installed modules and the lockfile, if the
+  // modules were checked against a lockfile.
+  lockfileFindings: LockfileFinding[];
+
+  // Whether verification passed overall.
+  success: boolean;
+}
+
+/**
+ * Returns the name of a verification status as it appears in command output.
+ *
+ * @param status The verification status.
+ */
+export function moduleVerificationStatusToString(
+  status: ModuleVerificationStatus
+): string {
+  switch (status) {
+    case ModuleVerificationStatus.Compromised:
+      return "compromised";
+    case ModuleVerificationStatus.Unsigned:
+      return "unsigned";
+    case ModuleVerificationStatus.Untrusted:
+      return "untrusted";
+    case ModuleVerificationStatus.Trusted:
+      return "trusted";
+    case ModuleVerificationStatus.KeyChanged:
+      return "key-changed";
+    case ModuleVerificationStatus.Expired:
+      return "expired";
+    case ModuleVerificationStatus.Unverifiable:
+      return "unverifiable";
+  }
+}
+
+/**
+ * Returns a human readable sentence describing why a module has the
+ * verification status it does.
+ *
+ * @param result The verification result of the module.
+ */
+export function describeModuleVerificationResult(
+  result: ModuleVerificationResult
+): string {
+  switch (result.status) {
+    case ModuleVerificationStatus.Compromised:
+      return (
+        "Package '" +
+        result.packageName +
+        "' is compromised: " +
+        (result.reason || "unknown reason")
+      );
+    case ModuleVerificationStatus.Unsigned:
+      return (
+        "Package '" +
+        result.packageName +
+        "' is unsigned: " +
+        (result.reason || "unknown reason")
+      );
+    case ModuleVerificationStatus.Untrusted:
+      return (
+        "Package '" +
+        result.packageName +
+        "' is signed by " +
+        identityToString(result.untrustedIdentity) +
+        ", but that identity is not trusted to sign it"
+      );
+    case ModuleVerificationStatus.Trusted:
+      return (
+        "Package '" +
+        result.packageName +
+        "' is signed by trusted identity " +
+        identityToString(result.trustedIdentity)
+      );
+    case ModuleVerificationStatus.KeyChanged:
+      return (
+        "Package '" +
+        result.packageName +
+        "' is signed by " +
+        identityToString(result.untrustedIdentity) +
+        " with a key that is not trusted: " +
+        (result.reason || "unknown reason")
+      );
+    case ModuleVerificationStatus.Expired:
+      return (
+        "Package '" +
+        result.packageName +
+        "' has an expired signature: " +
+        (result.reason || "unknown reason")
+      );
+    case ModuleVerificationStatus.Unverifiable:
+      return (
+        "Package '" +
+        result.packageName +
+        "' could not be verified: " +
+        result.reason
+      );
+  }
+}
+
+/**
+ * Returns whether a single module passes verification.
+ *
+ * @param result The verification result of the module.
+ * @param allowUnsignedPackages Whether unsigned packages still pass verification.
+ */
+export function isModuleVerificationSuccessful(
+  result: ModuleVerificationResult,
+  allowUnsignedPackages: boolean
+): boolean {
+  return (
+    result.status == ModuleVerificationStatus.Trusted ||
+    (result.status == ModuleVerificationStatus.Unsigned &&
+      allowUnsignedPackages)
+  );
+}
+
+/**
+ * Counts the verification results by status and decides whether
+ * verification passed overall.
+ *
+ * @param results The verification result of each module, keyed by module path.
+ * @param allowUnsignedPackages Whether unsigned packages still pass verification.
+ * @param lockfileFindings The differences between the installed modules and
+ * the lockfile, which fail verification.
+ */
+export function createVerificationReport(
+  results: { [path: string]: ModuleVerificationResult },
+  allowUnsignedPackages: boolean,
+  lockfileFindings: LockfileFinding[] = []
+): VerificationReport {
+  const summary: VerificationSummary = {
+    compromised: 0,
+    unsigned: 0,
+    untrusted: 0,
+    trusted: 0,
+    keyChanged: 0,
+    expired: 0,
+    unverifiable: 0
+  };
+
+  for (let path in results) {
+    switch (results[path].status) {
+      case ModuleVerificationStatus.Compromised:
+        summary.compromised++;
+        break;
+      case ModuleVerificationStatus.Unsigned:
+        summary.unsigned++;
+        break;
+      case ModuleVerificationStatus.Untrusted:
+        summary.untrusted++;
+        break;
+      case ModuleVerificationStatus.Trusted:
+        summary.trusted++;
+        break;
+      case ModuleVerificationStatus.KeyChanged:
+        summary.keyChanged++;
+        break;
+      case ModuleVerificationStatus.Expired:
+        summary.expired++;
+        break;
+      case ModuleVerificationStatus.Unverifiable:
+        summary.unverifiable++;
+        break;
+    }
+  }
+
+  return {
+    results,
+    summary,
+    allowUnsignedPackages,
+    lockfileFindings,
+    success:
+      lockfileFindings.length == 0 &&
+      summary.compromised == 0 &&
+      (allowUnsignedPackages || summary.unsigned == 0) &&
+      summary.untrusted == 0 &&
+      summary.keyChanged == 0 &&
+      summary.expired == 0 &&
+      summary.unverifiable == 0
+  };
+}
+
+/**
+ * Returns the number of modules with each verification status on a single
+ * line, leaving out the statuses that no module has.
+ *
+ * @param summary The number of modules with each verification status.
+ */
+export function formatVerificationSummary(
+  summary: VerificationSummary
+): string {
+  const counts: [number, string][] = [
+    [summary.compromised, "compromised"],
+    [summary.unsigned, "unsigned"],
+    [summary.untrusted, "untrusted"],
+    [summary.trusted, "trusted"],
+    [summary.keyChanged, "key changed"],
+    [summary.expired, "expired"],
+    [summary.unverifiable, "unverifiable"]
+  ];
+  const nonZeroCounts = counts
+    .filter(([count]) => count > 0)
+    .map(([count, name]) => count + " " + name);
+  return nonZeroCounts.length > 0 ? nonZeroCounts.join(", ") : "no packages";
+}
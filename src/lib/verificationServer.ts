@@ -0,0 +1,178 @@
+import * as http from "http";
+import * as url from "url";
+import { Readable, PassThrough } from "stream";
+import { ModuleVerifier } from "./moduleVerifier";
+import { ITrustStore } from "./trustStore";
+import { ModuleVerificationResult } from "./types";
+import { createVerificationReport } from "./verificationReport";
+import { JsonReporter } from "./reporters/jsonReporter";
+import { readTarballStream } from "./vfs/tarballFileSystem";
+import { HttpError, readRequestBody, limitRequestBody } from "./util/http";
+
+// The largest request and unpacked tarball that are accepted by default,
+// in bytes.
+const defaultMaxRequestSize = 256 * 1024 * 1024;
+
+interface BatchPackage {
+  // The name the package is expected to have.
+  name: string;
+
+  // The gzipped tarball of the package, encoded as base64.
+  tarball: string;
+}
+
+function parseBatchPackages(body: Buffer): BatchPackage[] {
+  let batch: any;
+  try {
+    batch = JSON.parse(body.toString("utf8"));
+  } catch (e) {
+    throw new HttpError(400, "the request is not valid JSON: " + e.message);
+  }
+  if (batch === null || !Array.isArray(batch.packages)) {
+    throw new HttpError(400, "the request has no 'packages' array");
+  }
+  for (let i = 0; i < batch.packages.length; i++) {
+    const batchPackage = batch.packages[i];
+    if (
+      batchPackage === null ||
+      typeof batchPackage.name !== "string" ||
+      batchPackage.name == "" ||
+      typeof batchPackage.tarball !== "string"
+    ) {
+      throw new HttpError(
+        400,
+        "package " + i + " must have a 'name' and a base64 'tarball'"
+      );
+    }
+  }
+  return batch.packages as BatchPackage[];
+}
+
+async function verifyTarballStream(
+  moduleVerifier: ModuleVerifier,
+  input: Readable,
+  expectedPackageName: string,
+  maxRequestSize: number
+): Promise<ModuleVerificationResult> {
+  let tarball;
+  try {
+    tarball = await readTarballStream(input, undefined, maxRequestSize);
+  } catch (e) {
+    if (e instanceof HttpError) {
+      throw e;
+    } else if (e && e.code == "EFBIG") {
+      throw new HttpError(413, e.message);
+    }
+    throw new HttpError(400, "unable to read the tarball: " + e.message);
+  }
+  return await moduleVerifier.verify(
+    tarball,
+    tarball.getFilePaths(),
+    expectedPackageName
+  );
+}
+
+async function handleRequest(
+  request: http.IncomingMessage,
+  moduleVerifier: ModuleVerifier,
+  allowUnsignedPackages: boolean,
+  maxRequestSize: number
+): Promise<string> {
+  const requestUrl = url.parse(request.url || "", true);
+  if (
+    requestUrl.pathname != "/verify" &&
+    requestUrl.pathname != "/verify-batch"
+  ) {
+    throw new HttpError(404, "no such endpoint: " + requestUrl.pathname);
+  }
+  if (request.method != "POST") {
+    throw new HttpError(405, requestUrl.pathname + " only accepts POST");
+  }
+
+  // Results are keyed by the position of the package in the request, so
+  // that a batch can contain several versions of the same package.
+  let results: { [path: string]: ModuleVerificationResult } = {};
+  if (requestUrl.pathname == "/verify") {
+    const name = requestUrl.query.name;
+    if (typeof name !== "string" || name == "") {
+      throw new HttpError(400, "the 'name' query parameter is required");
+    }
+    results["0"] = await verifyTarballStream(
+      moduleVerifier,
+      limitRequestBody(request, maxRequestSize),
+      name,
+      maxRequestSize
+    );
+  } else {
+    const batchPackages = parseBatchPackages(
+      await readRequestBody(request, maxRequestSize)
+    );
+    for (let i = 0; i < batchPackages.length; i++) {
+      const input = new PassThrough();
+      input.end(Buffer.from(batchPackages[i].tarball, "base64"));
+      results[i.toString()] = await verifyTarballStream(
+        moduleVerifier,
+        input,
+        batchPackages[i].name,
+        maxRequestSize
+      );
+    }
+  }
+
+  return JsonReporter.generateReport(
+    createVerificationReport(results, allowUnsignedPackages)
+  );
+}
+
+/**
+ * Creates an HTTP server that verifies package tarballs, for registries and
+ * registry proxies that want to reject packages that fail verification.
+ * `POST /verify?name=<package name>` verifies the tarball in the request
+ * body, and `POST /verify-batch` verifies the base64 tarballs in a JSON body
+ * of the form `{ "packages": [{ "name": ..., "tarball": ... }] }`. Both
+ * respond with the same JSON as `pkgsign verify --reporter json`.
+ *
+ * Untrusted packages are never prompted for; they fail verification unless
+ * the trust store or its trust policy trusts them.
+ *
+ * @param trustStore The trust store, which is shared by all requests so that
+ * public keys are fetched and cached once.
+ * @param allowUnsignedPackages Whether unsigned packages pass verification.
+ * @param maxRequestSize The largest request body, and the largest tarball
+ * after it is decompressed, that are accepted, in bytes.
+ */
+export function createVerificationServer(
+  trustStore: ITrustStore,
+  allowUnsignedPackages: boolean,
+  maxRequestSize: number = defaultMaxRequestSize
+): http.Server {
+  const moduleVerifier = new ModuleVerifier(trustStore);
+  return http.createServer((request, response) => {
+    handleRequest(
+      request,
+      moduleVerifier,
+      allowUnsignedPackages,
+      maxRequestSize
+    ).then(
+      body => {
+        response.writeHead(200, { "content-type": "application/json" });
+        response.end(body);
+      },
+      e => {
+        const statusCode = e instanceof HttpError ? e.statusCode : 500;
+        let headers: http.OutgoingHttpHeaders = {
+          "content-type": "application/json"
+        };
+        if (statusCode == 405) {
+          headers.allow = "POST";
+        } else if (statusCode == 413) {
+          // The rest of the request isn't read, so the connection can't be
+          // used for another request.
+          headers.connection = "close";
+        }
+        response.writeHead(statusCode, headers);
+        response.end(JSON.stringify({ error: e.message }, null, 2));
+      }
+    );
+  });
+}
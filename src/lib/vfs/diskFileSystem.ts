@@ -0,0 +1,18 @@
+import * as path from "path";
+import { IVirtualFileSystem } from ".";
+import { readFilePromise, sha512OfFile } from "../util/fsPromise";
+
+/**
+ * The files of a package that is in a directory on disk.
+ */
+export class DiskFileSystem implements IVirtualFileSystem {
+  constructor(private dir: string) {}
+
+  public readFile(relPath: string): Promise<string> {
+    return readFilePromise(path.join(this.dir, relPath));
+  }
+
+  public sha512OfFile(relPath: string): Promise<string> {
+    return sha512OfFile(path.join(this.dir, relPath));
+  }
+}
@@ -0,0 +1,16 @@
+export interface IVirtualFileSystem {
+  /**
+   * Reads a file of the package as UTF-8 text.
+   *
+   * @param relPath The path of the file, relative to the package directory.
+   */
+  readFile(relPath: string): Promise<string>;
+
+  /**
+   * Returns the SHA512 hash of a file of the package, in the same way as
+   * `sha512OfFile`, so that text files are hashed with LF line endings.
+   *
+   * @param relPath The path of the file, relative to the package directory.
+   */
+  sha512OfFile(relPath: string): Promise<string>;
+}
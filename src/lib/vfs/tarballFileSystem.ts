@@ -0,0 +1,182 @@
+import * as fs from "fs";
+import * as zlib from "zlib";
+import * as tar from "tar-stream";
+import { Readable } from "stream";
+import { IVirtualFileSystem } from ".";
+import { sha512OfStream } from "../util/fsPromise";
+
+interface TarballFile {
+  // The SHA512 hash of the file, computed as the tarball was read.
+  sha512: string;
+
+  // The content of the file, if it was kept in memory.
+  content?: Buffer;
+}
+
+/**
+ * The files of a package tarball, as read by `readTarball`. Only the hashes
+ * of the files are known, except for the files that were kept in memory.
+ */
+export class TarballFileSystem implements IVirtualFileSystem {
+  constructor(
+    private files: Map<string, TarballFile>,
+    private rootDirectory: string
+  ) {}
+
+  /**
+   * Returns the name of the top-level directory that the package's files are
+   * in, which is usually `package`.
+   */
+  public getRootDirectory(): string {
+    return this.rootDirectory;
+  }
+
+  /**
+   * Returns the paths of the files in the tarball, relative to the package
+   * directory.
+   */
+  public getFilePaths(): string[] {
+    return Array.from(this.files.keys());
+  }
+
+  public async readFile(relPath: string): Promise<string> {
+    const content = this.getFile(relPath).content;
+    if (content === undefined) {
+      throw new Error(relPath + " was not kept in memory");
+    }
+    return content.toString("utf8");
+  }
+
+  public async sha512OfFile(relPath: string): Promise<string> {
+    return this.getFile(relPath).sha512;
+  }
+
+  private getFile(relPath: string): TarballFile {
+    const file = this.files.get(relPath.replace(/\\/g, "/"));
+    if (file === undefined) {
+      throw new Error(relPath + " does not exist in the tarball");
+    }
+    return file;
+  }
+}
+
+/**
+ * Splits the name of a tarball entry into the top-level directory and the
+ * path relative to it, or returns null if the entry isn't in a directory.
+ * Like npm, this ignores the name of the top-level directory, which is
+ * usually `package`.
+ *
+ * @param entryName The name of the tarball entry.
+ */
+export function splitTarballEntryName(
+  entryName: string
+): { rootDirectory: string; relPath: string } | null {
+  const segments = entryName
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter(segment => segment != "" && segment != ".");
+  if (segments.length < 2) {
+    return null;
+  }
+  return {
+    rootDirectory: segments[0],
+    relPath: segments.slice(1).join("/")
+  };
+}
+
+/**
+ * Reads a package tarball without extracting it, hashing each file as it is
+ * read. Directories, symlinks and other entries that npm doesn't install as
+ * files are ignored.
+ *
+ * @param tarballPath The path to the `.tgz` file.
+ * @param inMemoryPaths The files to keep in memory, so that they can be read
+ * with `readFile`.
+ */
+export function readTarball(
+  tarballPath: string,
+  inMemoryPaths: string[] = ["package.json", "signature.json"]
+): Promise<TarballFileSystem> {
+  return readTarballStream(fs.createReadStream(tarballPath), inMemoryPaths);
+}
+
+/**
+ * Reads a package tarball from a stream, such as the body of an HTTP
+ * request, in the same way as `readTarball`.
+ *
+ * @param input The gzipped tarball.
+ * @param inMemoryPaths The files to keep in memory, so that they can be read
+ * with `readFile`.
+ * @param maxUnpackedSize The largest size of the tarball after it is
+ * decompressed, in bytes; larger tarballs are rejected with an `EFBIG` error
+ * as soon as they are read past it.
+ */
+export function readTarballStream(
+  input: Readable,
+  inMemoryPaths: string[] = ["package.json", "signature.json"],
+  maxUnpackedSize: number = Infinity
+): Promise<TarballFileSystem> {
+  return new Promise<TarballFileSystem>((resolve, reject) => {
+    let files = new Map<string, TarballFile>();
+    let rootDirectory: string | null = null;
+
+    const extract = tar.extract();
+    extract.on("entry", (header, stream, next) => {
+      const entryName = splitTarballEntryName(header.name);
+      if (
+        entryName === null ||
+        (header.type != "file" && header.type != "contiguous-file")
+      ) {
+        stream.on("end", () => next());
+        stream.resume();
+        return;
+      }
+      const relPath = entryName.relPath;
+      if (rootDirectory === null) {
+        rootDirectory = entryName.rootDirectory;
+      }
+
+      let chunks: Buffer[] | null = null;
+      if (inMemoryPaths.indexOf(relPath) !== -1) {
+        const inMemoryChunks: Buffer[] = [];
+        stream.on("data", (data: Buffer) => inMemoryChunks.push(data));
+        chunks = inMemoryChunks;
+      }
+      sha512OfStream(stream).then(sha512 => {
+        files.set(relPath, {
+          sha512: sha512,
+          content: chunks !== null ? Buffer.concat(chunks) : undefined
+        });
+        next();
+      }, reject);
+    });
+    extract.on("finish", () =>
+      resolve(new TarballFileSystem(files, rootDirectory || "package"))
+    );
+    extract.on("error", reject);
+
+    const gunzip = zlib.createGunzip();
+    gunzip.on("error", reject);
+    let unpackedSize = 0;
+    gunzip.on("data", (data: Buffer) => {
+      unpackedSize += data.length;
+      if (unpackedSize > maxUnpackedSize) {
+        input.unpipe(gunzip);
+        gunzip.unpipe(extract);
+        gunzip.destroy();
+        reject(
+          Object.assign(
+            new Error(
+              "the tarball is larger than " +
+                maxUnpackedSize +
+                " bytes when unpacked"
+            ),
+            { code: "EFBIG" }
+          )
+        );
+      }
+    });
+    input.on("error", reject);
+    input.pipe(gunzip).pipe(extract);
+  });
+}
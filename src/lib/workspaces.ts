@@ -0,0 +1,217 @@
+import * as path from "path";
+import * as fs from "fs";
+import { readFilePromise, readdirPromise } from "./util/fsPromise";
+
+export interface Workspace {
+  // The name of the workspace's package.
+  name: string;
+
+  // The workspace directory.
+  path: string;
+
+  // The content of the workspace's package.json.
+  untrustedPackageInfo: any;
+}
+
+/**
+ * Returns the workspace patterns in a v1 `pnpm-workspace.yaml` file, which
+ * lists them under `packages`.
+ *
+ * @param content The content of the pnpm-workspace.yaml file.
+ */
+export function parsePnpmWorkspaceYaml(content: string): string[] {
+  let patterns: string[] = [];
+  let inPackages = false;
+  for (let line of content.split(/\r?\n/)) {
+    const trimmed = line.replace(/#.*$/, "").trim();
+    if (trimmed == "") {
+      continue;
+    }
+    if (line[0] != " " && line[0] != "-") {
+      inPackages = trimmed == "packages:";
+    } else if (inPackages && trimmed[0] == "-") {
+      patterns.push(
+        trimmed
+          .substr(1)
+          .trim()
+          .replace(/^(['"])(.*)\1$/, "$2")
+      );
+    }
+  }
+  return patterns;
+}
+
+async function readWorkspacePatterns(rootDir: string): Promise<string[]> {
+  const packageInfo = JSON.parse(
+    await readFilePromise(path.join(rootDir, "package.json"))
+  );
+  const workspaces = packageInfo.workspaces;
+  if (Array.isArray(workspaces)) {
+    return workspaces;
+  } else if (workspaces && Array.isArray(workspaces.packages)) {
+    // Yarn classic also allows `{ "packages": [...], "nohoist": [...] }`.
+    return workspaces.packages;
+  }
+
+  const pnpmWorkspacePath = path.join(rootDir, "pnpm-workspace.yaml");
+  if (fs.existsSync(pnpmWorkspacePath)) {
+    return parsePnpmWorkspaceYaml(await readFilePromise(pnpmWorkspacePath));
+  }
+  return [];
+}
+
+function globSegmentToRegExp(segment: string): RegExp {
+  return new RegExp(
+    "^" +
+      segment
+        .split("*")
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[^/]*") +
+      "$"
+  );
+}
+
+async function listChildDirectories(dir: string): Promise<string[]> {
+  let children: string[] = [];
+  for (let name of (await readdirPromise(dir)).sort()) {
+    if (
+      name[0] != "." &&
+      name != "node_modules" &&
+      fs.statSync(path.join(dir, name)).isDirectory()
+    ) {
+      children.push(name);
+    }
+  }
+  return children;
+}
+
+/**
+ * Expands a workspace pattern (such as `packages/*`) into the relative paths
+ * of the directories it matches. `*` matches any directory name and `**`
+ * matches any number of directories; node_modules folders are never matched.
+ *
+ * @param rootDir The monorepo root directory.
+ * @param relativeDir The directory to expand the pattern from.
+ * @param segments The remaining segments of the pattern.
+ */
+async function expandWorkspacePattern(
+  rootDir: string,
+  relativeDir: string,
+  segments: string[]
+): Promise<string[]> {
+  if (segments.length == 0) {
+    return [relativeDir];
+  }
+  const dir = path.join(rootDir, relativeDir);
+  const [segment, ...rest] = segments;
+  if (segment == "**") {
+    let matches = await expandWorkspacePattern(rootDir, relativeDir, rest);
+    for (let child of await listChildDirectories(dir)) {
+      matches.push(
+        ...(await expandWorkspacePattern(
+          rootDir,
+          path.posix.join(relativeDir, child),
+          segments
+        ))
+      );
+    }
+    return matches;
+  } else if (segment.indexOf("*") !== -1) {
+    const regex = globSegmentToRegExp(segment);
+    let matches: string[] = [];
+    for (let child of await listChildDirectories(dir)) {
+      if (regex.test(child)) {
+        matches.push(
+          ...(await expandWorkspacePattern(
+            rootDir,
+            path.posix.join(relativeDir, child),
+            rest
+          ))
+        );
+      }
+    }
+    return matches;
+  } else if (fs.existsSync(path.join(dir, segment))) {
+    return await expandWorkspacePattern(
+      rootDir,
+      path.posix.join(relativeDir, segment),
+      rest
+    );
+  }
+  return [];
+}
+
+function workspacePatternMatches(
+  pattern: string,
+  relativeDir: string
+): boolean {
+  const regex = new RegExp(
+    "^" +
+      pattern
+        .split("/")
+        .map(segment =>
+          segment == "**"
+            ? "(?:[^/]+/)*"
+            : globSegmentToRegExp(segment).source.slice(1, -1) + "/"
+        )
+        .join("") +
+      "$"
+  );
+  return regex.test(relativeDir + "/");
+}
+
+function normalizePattern(pattern: string): string {
+  return pattern.replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+/**
+ * Returns the workspaces of a monorepo, from the `workspaces` field in the
+ * root package.json (as used by npm and Yarn), or from `pnpm-workspace.yaml`.
+ * Returns an empty array if the directory isn't the root of a monorepo.
+ *
+ * @param rootDir The monorepo root directory.
+ */
+export async function findWorkspaces(rootDir: string): Promise<Workspace[]> {
+  const patterns = (await readWorkspacePatterns(rootDir)).map(normalizePattern);
+  const excludePatterns = patterns
+    .filter(pattern => pattern[0] == "!")
+    .map(pattern => normalizePattern(pattern.substr(1)));
+
+  let relativeDirs: string[] = [];
+  for (let pattern of patterns) {
+    if (pattern[0] == "!") {
+      continue;
+    }
+    for (let relativeDir of await expandWorkspacePattern(
+      rootDir,
+      "",
+      pattern.split("/")
+    )) {
+      if (
+        relativeDir != "" &&
+        relativeDir != "." &&
+        relativeDirs.indexOf(relativeDir) === -1 &&
+        !excludePatterns.some(excludePattern =>
+          workspacePatternMatches(excludePattern, relativeDir)
+        ) &&
+        fs.existsSync(path.join(rootDir, relativeDir, "package.json"))
+      ) {
+        relativeDirs.push(relativeDir);
+      }
+    }
+  }
+
+  let workspaces: Workspace[] = [];
+  for (let relativeDir of relativeDirs.sort()) {
+    const workspacePath = path.join(rootDir, relativeDir);
+    const untrustedPackageInfo = JSON.parse(
+      await readFilePromise(path.join(workspacePath, "package.json"))
+    );
+    workspaces.push({
+      name: untrustedPackageInfo.name || relativeDir,
+      path: workspacePath,
+      untrustedPackageInfo: untrustedPackageInfo
+    });
+  }
+  return workspaces;
+}
@@ -2,10 +2,74 @@ import test from "ava";
 import * as fs from "fs";
 import * as path from "path";
 import SignCommand, { SignOptions } from "../src/commands/sign";
+import CosignCommand from "../src/commands/cosign";
+import TrustAuditCommand, {
+  TrustAuditOptions
+} from "../src/commands/trust/audit";
 import VerifyCommand, { VerifyOptions } from "../src/commands/verify";
-import { readFilePromise } from "../src/lib/util/fsPromise";
-import { Entry } from "../src/lib/types";
+import {
+  readFilePromise,
+  writeFilePromise,
+  createWorkingDirectory,
+  compress,
+  sha512OfFile
+} from "../src/lib/util/fsPromise";
+import {
+  TrustStore,
+  TestTrustStore,
+  LayeredTrustStore,
+  getCacheIdentityType
+} from "../src/lib/trustStore";
+import {
+  Config,
+  getPublicKeyCacheTtl,
+  getNegativeCacheTtl
+} from "../src/lib/config";
+import { ModuleHierarchyVerifier } from "../src/lib/moduleHierarchyVerifier";
+import { ModuleVerifier } from "../src/lib/moduleVerifier";
+import { exportKeyBundle, importKeyBundle } from "../src/lib/keyBundle";
+import { PgpKeyringIdentityProvider } from "../src/lib/identity/pgpKeyring";
+import { verifyPgpSignature } from "../src/lib/identity/pgp";
+import { createSignedSignatureDocument } from "../src/lib/signature";
+import {
+  Ed25519IdentityProvider,
+  generateEd25519KeyPair
+} from "../src/lib/identity/ed25519";
+import {
+  parseAllowedSigners,
+  verifySshSignature
+} from "../src/lib/identity/sshsig";
+import * as openpgp from "openpgp";
+import { PolicyTrustStore, findTrustPolicy } from "../src/lib/trustPolicy";
+import { evaluateTrustRules, SourcedTrustRule } from "../src/lib/trustRules";
+import { Entry, ModuleVerificationStatus } from "../src/lib/types";
+import {
+  createVerificationReport,
+  moduleVerificationStatusToString
+} from "../src/lib/verificationReport";
+import { SarifReporter } from "../src/lib/reporters/sarifReporter";
+import { JunitReporter } from "../src/lib/reporters/junitReporter";
 import { FileEntry } from "../src/lib/entryHandlers/filesEntryHandler";
+import { LockfileFindingKind, parseYarnLock } from "../src/lib/lockfile";
+import { PnpmLayoutResolver } from "../src/lib/layouts/pnpmLayoutResolver";
+import { PnpLayoutResolver } from "../src/lib/layouts/pnpLayoutResolver";
+import { findWorkspaces, parsePnpmWorkspaceYaml } from "../src/lib/workspaces";
+import { readTarball } from "../src/lib/vfs/tarballFileSystem";
+import { addFileToTarball } from "../src/lib/util/tarball";
+import * as zlib from "zlib";
+import * as tar from "tar-stream";
+import * as http from "http";
+import { PassThrough } from "stream";
+import * as crypto from "crypto";
+import {
+  fetchRegistryTarball,
+  getRegistryUrl,
+  parseNpmrc,
+  parsePackageSpec
+} from "../src/lib/npmRegistry";
+import { createVerificationServer } from "../src/lib/verificationServer";
+import PkgsignVerdaccioPlugin from "../src/lib/verdaccioPlugin";
+import fetch from "node-fetch";
 
 process.chdir(__dirname);
 
@@ -236,3 +300,1723 @@ test("fail verification on manipulated package content", async t => {
   t.false(await verify("npm-installed/regular-pkg-code-modified"));
   t.false(await verify("yarn-installed/regular-pkg-code-modified"));
 });
+
+test("reporters report modules that did not pass verification", async t => {
+  const report = createVerificationReport(
+    {
+      "node_modules/trusted-pkg": {
+        status: ModuleVerificationStatus.Trusted,
+        packageName: "trusted-pkg",
+        untrustedPackageVersion: "1.0.0",
+        isPrivate: false,
+        trustedIdentity: { keybaseUser: "someone" },
+        trustSource: "test"
+      },
+      "node_modules/compromised-pkg": {
+        status: ModuleVerificationStatus.Compromised,
+        packageName: "compromised-pkg",
+        untrustedPackageVersion: "1.0.0",
+        isPrivate: false,
+        reason: "The signature does not match",
+        untrustedIdentity: { keybaseUser: "someone" }
+      },
+      "node_modules/unsigned-pkg": {
+        status: ModuleVerificationStatus.Unsigned,
+        packageName: "unsigned-pkg",
+        untrustedPackageVersion: "1.0.0",
+        isPrivate: false,
+        reason: "Missing or unparsable signature.json"
+      }
+    },
+    true
+  );
+  t.false(report.success);
+
+  const sarif = JSON.parse(SarifReporter.generateReport(report));
+  const sarifResults = sarif.runs[0].results;
+  t.is(sarifResults.length, 2, "trusted modules should not be reported");
+  t.deepEqual(sarifResults.map((result: any) => result.level).sort(), [
+    "error",
+    "note"
+  ]);
+  const ruleIds = sarif.runs[0].tool.driver.rules.map((rule: any) => rule.id);
+  for (let status of [
+    ModuleVerificationStatus.Compromised,
+    ModuleVerificationStatus.Unsigned,
+    ModuleVerificationStatus.Untrusted,
+    ModuleVerificationStatus.KeyChanged,
+    ModuleVerificationStatus.Expired,
+    ModuleVerificationStatus.Unverifiable
+  ]) {
+    t.true(
+      ruleIds.indexOf("pkgsign/" + moduleVerificationStatusToString(status)) !==
+        -1
+    );
+  }
+  t.true(
+    sarifResults.some(
+      (result: any) =>
+        result.locations[0].physicalLocation.artifactLocation.uri ===
+        "node_modules/compromised-pkg/package.json"
+    )
+  );
+
+  const junit = JunitReporter.generateReport(report);
+  t.true(junit.indexOf('tests="3" failures="1" skipped="1"') !== -1);
+});
+
+test.serial("trust store adds, lists and removes scoped packages", async t => {
+  // Use an empty trust store, instead of the one in the user's home directory.
+  process.env.HOME = process.env.USERPROFILE = await createWorkingDirectory();
+
+  const trustStore = new TrustStore();
+  await trustStore.addTrusted({ keybaseUser: "someone" }, "@scope/pkg");
+  await trustStore.addTrusted({ keybaseUser: "someone" }, "unscoped-pkg");
+  t.true(await trustStore.isTrusted({ keybaseUser: "someone" }, "@scope/pkg"));
+  t.false(await trustStore.isTrusted({ keybaseUser: "other" }, "@scope/pkg"));
+  t.deepEqual(
+    (await trustStore.listTrusted()).map(value => value.packageName),
+    ["@scope/pkg", "unscoped-pkg"]
+  );
+
+  t.true(await trustStore.removeTrusted("@scope/pkg"));
+  t.false(await trustStore.removeTrusted("@scope/pkg"));
+  t.false(await trustStore.isTrusted({ keybaseUser: "someone" }, "@scope/pkg"));
+
+  // Rules for patterns can be removed for one identity at a time.
+  await trustStore.addTrustRule({
+    pattern: "*",
+    identity: { keybaseUser: "a" }
+  });
+  await trustStore.addTrustRule({
+    pattern: "*",
+    identity: { keybaseUser: "b" }
+  });
+  t.true(await trustStore.removeTrustRules("*", { keybaseUser: "a" }));
+  t.false(await trustStore.removeTrustRules("*", { keybaseUser: "a" }));
+  t.deepEqual((await trustStore.listTrustRules()).map(rule => rule.identity), [
+    { keybaseUser: "b" }
+  ]);
+  t.true(await trustStore.removeTrustRules("*"));
+  t.deepEqual(await trustStore.listTrustRules(), []);
+
+  let threw = false;
+  try {
+    await trustStore.addTrusted({ keybaseUser: "someone" }, "../outside");
+  } catch (e) {
+    threw = true;
+  }
+  t.true(threw, "package names must not refer outside of the trust store");
+});
+
+test.serial(
+  "trust store holds multiple identities per package with validity dates",
+  async t => {
+    // Use an empty trust store, instead of the one in the user's home directory.
+    const home = await createWorkingDirectory();
+    process.env.HOME = process.env.USERPROFILE = home;
+
+    const trustStore = new TrustStore();
+    const oldIdentity = { keybaseUser: "someone" };
+    const newIdentity = { pgpPublicKeyUrl: "https://example.com/key.asc" };
+    await trustStore.addTrusted(oldIdentity, "pkg", {
+      validUntil: "2000-01-01T00:00:00Z"
+    });
+    await trustStore.addTrusted(newIdentity, "pkg");
+    t.is((await trustStore.listTrusted()).length, 2);
+    t.false(await trustStore.isTrusted(oldIdentity, "pkg"));
+    t.true(await trustStore.isTrusted(newIdentity, "pkg"));
+
+    // Adding an identity that is already trusted replaces its validity dates.
+    await trustStore.addTrusted(oldIdentity, "pkg");
+    t.is((await trustStore.listTrusted()).length, 2);
+    t.true(await trustStore.isTrusted(oldIdentity, "pkg"));
+
+    t.true(await trustStore.removeTrusted("pkg", oldIdentity));
+    t.false(await trustStore.isTrusted(oldIdentity, "pkg"));
+    t.true(await trustStore.isTrusted(newIdentity, "pkg"));
+
+    // Trust files written by older versions contain a single identity.
+    await writeFilePromise(
+      path.join(home, ".pkgsign-trust-store", "legacy-pkg.trust"),
+      JSON.stringify(oldIdentity)
+    );
+    t.true(await trustStore.isTrusted(oldIdentity, "legacy-pkg"));
+  }
+);
+
+test.serial(
+  "key bundles carry cached public keys to offline trust stores",
+  async t => {
+    // Use an empty trust store, instead of the one in the user's home directory.
+    process.env.HOME = process.env.USERPROFILE = await createWorkingDirectory();
+
+    const onlineTrustStore = new TrustStore();
+    await onlineTrustStore.importCachedPublicKeys("keybase.io.someone", {
+      data: "public keys",
+      expiryUtc: 0
+    });
+    const bundle = JSON.stringify(await exportKeyBundle(onlineTrustStore));
+
+    // Switch to another empty trust store, which can't fetch public keys.
+    process.env.HOME = process.env.USERPROFILE = await createWorkingDirectory();
+    const offlineTrustStore = new TrustStore(true);
+    let threw = false;
+    try {
+      await offlineTrustStore.getOrFetchCachedPublicKeys(
+        "keybase.io.someone",
+        "https://keybase.io/someone/pgp_keys.asc"
+      );
+    } catch (e) {
+      threw = true;
+    }
+    t.true(threw, "missing public keys must fail in offline mode");
+
+    // Expired public keys are still used in offline mode.
+    t.is(await importKeyBundle(offlineTrustStore, bundle), 1);
+    t.is(
+      await offlineTrustStore.fetchCachedPublicKeys(
+        "keybase.io.someone",
+        "https://keybase.io/someone/pgp_keys.asc"
+      ),
+      "public keys"
+    );
+  }
+);
+
+test.serial(
+  "cached public keys are kept when fetching them again fails",
+  async t => {
+    // Use an empty trust store, instead of the one in the user's home directory.
+    process.env.HOME = process.env.USERPROFILE = await createWorkingDirectory();
+
+    // Nothing listens on this port, so fetching fails.
+    const url = "https://127.0.0.1:1/key.asc";
+    const trustStore = new TrustStore();
+    await trustStore.importCachedPublicKeys("pgp.https.0123abcd", {
+      data: "public keys",
+      expiryUtc: 0,
+      source: url
+    });
+
+    t.is(
+      await trustStore.getOrFetchCachedPublicKeys("pgp.https.0123abcd", url),
+      "public keys"
+    );
+    let threw = false;
+    try {
+      await trustStore.refreshCachedPublicKeys("pgp.https.0123abcd");
+    } catch (e) {
+      threw = true;
+    }
+    t.true(threw, "refreshing must report that the fetch failed");
+
+    const cachedData = (await trustStore.listCachedPublicKeys())[
+      "pgp.https.0123abcd"
+    ];
+    t.is(cachedData.data, "public keys");
+    t.not(cachedData.error, undefined);
+    t.is(
+      await new TrustStore(true).getOrFetchCachedPublicKeys(
+        "pgp.https.0123abcd",
+        url
+      ),
+      "public keys"
+    );
+  }
+);
+
+test("public key cache TTLs are configurable per identity type", async t => {
+  const config: Config = {
+    publicKeyCache: { ttl: { keybase: "never", default: 60 }, negativeTtl: 5 }
+  };
+  t.is(getPublicKeyCacheTtl(config, "keybase"), null);
+  t.is(getPublicKeyCacheTtl(config, "pgp"), 60);
+  t.is(getPublicKeyCacheTtl({}, "pgp"), 60 * 60 * 24);
+  t.is(getNegativeCacheTtl(config), 5);
+  t.is(getCacheIdentityType("pgp.https.0123abcd"), "pgp");
+});
+
+test.serial(
+  "pgp keyring identities verify with keys from the local keyring",
+  async t => {
+    // Use an empty trust store, instead of the one in the user's home directory.
+    const home = await createWorkingDirectory();
+    process.env.HOME = process.env.USERPROFILE = home;
+
+    // The test key has expired, so sign as of a date when it was still valid.
+    const privateKey = (await openpgp.key.readArmored(
+      await readFilePromise("test.key")
+    )).keys[0];
+    const signature = (await openpgp.sign({
+      message: new openpgp.cleartext.CleartextMessage("content", null as any),
+      privateKeys: privateKey,
+      detached: true,
+      date: new Date("2019-08-01")
+    })).signature;
+    const identity = {
+      pgpFingerprint: "BE890EE9A5DFA60770F359BA8B0525B5446405F7"
+    };
+    const context = { trustStore: new TrustStore() };
+
+    let threw = false;
+    try {
+      await PgpKeyringIdentityProvider.verify(
+        context,
+        identity,
+        signature,
+        "content"
+      );
+    } catch (e) {
+      threw = true;
+    }
+    t.true(threw, "keys that are not in the keyring must not verify");
+
+    fs.mkdirSync(path.join(home, ".pkgsign-trust-store", "keyring"));
+    await writeFilePromise(
+      path.join(home, ".pkgsign-trust-store", "keyring", "test.asc"),
+      await readFilePromise("test.pub")
+    );
+    t.true(
+      (await PgpKeyringIdentityProvider.verify(
+        context,
+        identity,
+        signature,
+        "content"
+      )).valid
+    );
+    t.false(
+      (await PgpKeyringIdentityProvider.verify(
+        context,
+        identity,
+        signature,
+        "other content"
+      )).valid
+    );
+  }
+);
+
+test.serial(
+  "signatures by keys that can't be found make only that package unverifiable",
+  async t => {
+    // Use an empty trust store, instead of the one in the user's home directory.
+    const home = await createWorkingDirectory();
+    process.env.HOME = process.env.USERPROFILE = home;
+    const keyDirectory = path.join(home, ".pkgsign-trust-store", "ed25519");
+    fs.mkdirSync(keyDirectory, { recursive: true });
+    const keyPair = generateEd25519KeyPair("pem");
+    await writeFilePromise(path.join(home, "key.pem"), keyPair.privateKey);
+
+    const packageDirectory = path.join(home, "pkg");
+    fs.mkdirSync(packageDirectory);
+    await writeFilePromise(
+      path.join(packageDirectory, "package.json"),
+      JSON.stringify({ name: "unknown-key-pkg", version: "1.0.0" })
+    );
+    const opts = new SignOptions();
+    opts.withSigner = "ed25519";
+    opts.ed25519PrivateKeyPath = path.join(home, "key.pem");
+    t.true(await new SignCommand().executeInternal(packageDirectory, opts));
+
+    // Claims that the package was signed by another identity.
+    const signaturePath = path.join(packageDirectory, "signature.json");
+    const entries = jsonParse(await readFilePromise(signaturePath)).entries;
+    const verifyAs = async (
+      identity: any,
+      signature: string,
+      trustStore: TrustStore = new TrustStore()
+    ) => {
+      for (let entry of entries) {
+        if (entry.entry == "identity/v1alpha2") {
+          entry.value.identity = identity;
+        }
+      }
+      await writeFilePromise(
+        signaturePath,
+        JSON.stringify({ entries: entries, signature: signature })
+      );
+      return await new ModuleVerifier(trustStore).verify(
+        packageDirectory,
+        ["package.json"],
+        "unknown-key-pkg"
+      );
+    };
+
+    const result = await verifyAs(
+      { pgpFingerprint: "BE890EE9A5DFA60770F359BA8B0525B5446405F7" },
+      ""
+    );
+    t.is(result.status, ModuleVerificationStatus.Unverifiable);
+    t.is(
+      result.reason,
+      "Unable to verify the signature by pgp:BE890EE9A5DFA60770F359BA8B0525B5446405F7: the public key BE890EE9A5DFA60770F359BA8B0525B5446405F7 is not in the local PGP keyring"
+    );
+
+    t.is(
+      (await verifyAs(
+        { sshPrincipal: "mallory@example.com" },
+        await readFilePromise(path.join("ssh", "ed25519.sig"))
+      )).reason,
+      "Unable to verify the signature by ssh:mallory@example.com: the principal mallory@example.com is not in the allowed signers"
+    );
+
+    // Public keys that aren't cached can't be fetched in offline mode.
+    t.is(
+      (await verifyAs({ keybaseUser: "someuser" }, "", new TrustStore(true)))
+        .reason,
+      "Unable to verify the signature by @someuser: public keys for 'keybase.io.someuser' are not cached, and can not be fetched in offline mode; use 'pkgsign keys import' to import them"
+    );
+  }
+);
+
+test("trust policy grants trust on top of the user trust store", async t => {
+  const policyPath = findTrustPolicy("trust-policy");
+  if (policyPath === null) {
+    t.fail("trust-policy/.pkgsignrc.json was not found");
+    return;
+  }
+  const trustStore = new LayeredTrustStore(new TrustStore(), [
+    new PolicyTrustStore(policyPath)
+  ]);
+
+  const trustGrant = await trustStore.findTrust(
+    { keybaseUser: "someone" },
+    "single-identity-pkg"
+  );
+  t.deepEqual(
+    trustGrant && {
+      source: trustGrant.source,
+      pattern: trustGrant.pattern,
+      identity: trustGrant.identity
+    },
+    {
+      source: policyPath,
+      pattern: "single-identity-pkg",
+      identity: { keybaseUser: "someone" }
+    }
+  );
+  t.true(
+    await trustStore.isTrusted(
+      { pgpPublicKeyUrl: "https://example.com/key.asc" },
+      "multiple-identity-pkg"
+    )
+  );
+  t.false(
+    await trustStore.isTrusted({ keybaseUser: "other" }, "single-identity-pkg")
+  );
+  t.false(
+    await trustStore.isTrusted({ keybaseUser: "someone" }, "unlisted-pkg")
+  );
+
+  // Fingerprints in trust policies are matched regardless of case and spaces,
+  // and malformed entries are rejected.
+  const otherPolicyPath = path.join(
+    await createWorkingDirectory(),
+    ".pkgsignrc.json"
+  );
+  await writeFilePromise(
+    otherPolicyPath,
+    JSON.stringify({
+      trust: {
+        "fingerprint-pkg": {
+          identity: { pgpFingerprint: "ab12 cd34" },
+          fingerprints: ["ef56 ab78"]
+        }
+      }
+    })
+  );
+  const fingerprintGrant = await new PolicyTrustStore(
+    otherPolicyPath
+  ).findTrust({ pgpFingerprint: "AB12CD34" }, "fingerprint-pkg");
+  t.deepEqual(fingerprintGrant && fingerprintGrant.fingerprints, ["EF56AB78"]);
+  await writeFilePromise(
+    otherPolicyPath,
+    JSON.stringify({ trust: { "malformed-pkg": "someone" } })
+  );
+  let errorMessage = "";
+  try {
+    await new PolicyTrustStore(otherPolicyPath).listTrusted();
+  } catch (e) {
+    errorMessage = e.message;
+  }
+  t.is(
+    errorMessage,
+    "invalid trusted identity for 'malformed-pkg' in trust policy " +
+      otherPolicyPath
+  );
+});
+
+test("trust rules pick the most specific rule, and deny wins ties", async t => {
+  const acme = { keybaseUser: "acme" };
+  const rules: SourcedTrustRule[] = [
+    { pattern: "*", identity: { keybaseUser: "everything" }, source: "test" },
+    { pattern: "@acme/*", identity: acme, source: "test" },
+    { pattern: "@acme/legacy-*", deny: true, source: "test" },
+    { pattern: "@acme/legacy-but-trusted", identity: acme, source: "test" },
+    { pattern: "lodash.*", identity: acme, source: "test" },
+    { pattern: "lodash.*", identity: acme, deny: true, source: "test" }
+  ];
+  const isTrusted = (identity: any, packageName: string) =>
+    evaluateTrustRules(rules, identity, packageName) !== null;
+
+  t.true(isTrusted(acme, "@acme/pkg"));
+  t.false(isTrusted(acme, "@other/pkg"));
+  t.true(isTrusted({ keybaseUser: "everything" }, "@other/pkg"));
+  t.false(isTrusted(acme, "@acme/legacy-pkg"));
+  t.false(isTrusted({ keybaseUser: "everything" }, "@acme/legacy-pkg"));
+  t.true(isTrusted(acme, "@acme/legacy-but-trusted"));
+  t.false(isTrusted(acme, "lodash.get"));
+});
+
+test("verification reports a changed key when trust is pinned to another key", async t => {
+  const policyPath = path.join(
+    await createWorkingDirectory(),
+    ".pkgsignrc.json"
+  );
+  const verifyPinnedTo = async (fingerprint: string) => {
+    await writeFilePromise(
+      policyPath,
+      JSON.stringify({
+        trust: {
+          "regular-pkg": {
+            identity: {
+              pgpPublicKeyUrl: "https://pkgsign.test.invalid.url/test.pub"
+            },
+            fingerprints: [fingerprint]
+          }
+        }
+      })
+    );
+    const moduleHierarchyVerifier = new ModuleHierarchyVerifier(
+      "npm-installed/regular-pkg",
+      new LayeredTrustStore(new TestTrustStore(), [
+        new PolicyTrustStore(policyPath)
+      ])
+    );
+    const results = await moduleHierarchyVerifier.verify();
+    return Object.keys(results)
+      .map(path => results[path])
+      .filter(result => result.packageName == "regular-pkg")[0];
+  };
+
+  const trustedResult = await verifyPinnedTo(
+    "be89 0ee9 a5df a607 70f3 59ba 8b05 25b5 4464 05f7"
+  );
+  t.is(trustedResult.status, ModuleVerificationStatus.Trusted);
+
+  const changedResult = await verifyPinnedTo(
+    "0000000000000000000000000000000000000000"
+  );
+  t.is(changedResult.status, ModuleVerificationStatus.KeyChanged);
+  if (changedResult.status == ModuleVerificationStatus.KeyChanged) {
+    t.is(
+      changedResult.keyFingerprint,
+      "BE890EE9A5DFA60770F359BA8B0525B5446405F7"
+    );
+  }
+});
+
+test("ssh signatures verify against allowed signers without ssh-keygen", async t => {
+  const allowedSigners = parseAllowedSigners(
+    await readFilePromise(path.join("ssh", "allowed_signers"))
+  );
+  const verify = async (principal: string, key: string, message: string) =>
+    verifySshSignature(
+      allowedSigners,
+      principal,
+      await readFilePromise(path.join("ssh", key + ".sig")),
+      message
+    );
+
+  t.deepEqual(await verify("alice@example.com", "ed25519", "content"), {
+    valid: true,
+    fingerprint: "SHA256:QQcCNgzHFTSMcGMbl45Vw1LEoIZyFr1qdvEO+ZxwcgA"
+  });
+  t.true((await verify("bob@example.org", "rsa", "content")).valid);
+  t.true((await verify("dave@example.com", "ecdsa", "content")).valid);
+
+  // Signatures over other content, by keys not allowed for the principal, or
+  // by keys not allowed in the pkgsign namespace don't verify.
+  t.false((await verify("alice@example.com", "ed25519", "other")).valid);
+  t.false((await verify("alice@example.com", "rsa", "content")).valid);
+  t.false((await verify("eve@example.com", "ed25519", "content")).valid);
+
+  let threw = false;
+  try {
+    await verify("mallory@example.com", "ed25519", "content");
+  } catch (e) {
+    threw = true;
+  }
+  t.true(threw);
+});
+
+test.serial(
+  "ed25519 identities sign and verify with keys in PEM and JWK form",
+  async t => {
+    // Use an empty trust store, instead of the one in the user's home directory.
+    const home = await createWorkingDirectory();
+    process.env.HOME = process.env.USERPROFILE = home;
+    const keyDirectory = path.join(home, ".pkgsign-trust-store", "ed25519");
+    fs.mkdirSync(keyDirectory, { recursive: true });
+
+    // Files that aren't public keys are skipped.
+    await writeFilePromise(path.join(keyDirectory, "notes.pem"), "not a key");
+
+    for (let format of ["pem", "jwk"]) {
+      const keyPair = generateEd25519KeyPair(format);
+      const privateKeyPath = path.join(home, "private." + format);
+      await writeFilePromise(privateKeyPath, keyPair.privateKey);
+      await writeFilePromise(
+        path.join(keyDirectory, "public." + format),
+        keyPair.publicKey
+      );
+
+      const signingContext = {
+        privateKeyPath,
+        privateKeyPassphrase: "",
+        publicKeyHttpsUrl: "",
+        sshPrincipal: ""
+      };
+      const identity = await Ed25519IdentityProvider.getIdentity(
+        signingContext
+      );
+      t.is(identity.ed25519Fingerprint, keyPair.fingerprint);
+
+      const signature = await Ed25519IdentityProvider.signEntries(
+        signingContext,
+        "content"
+      );
+      const context = { trustStore: new TrustStore() };
+      t.deepEqual(
+        await Ed25519IdentityProvider.verify(
+          context,
+          identity,
+          signature,
+          "content"
+        ),
+        { valid: true, fingerprint: keyPair.fingerprint }
+      );
+      t.false(
+        (await Ed25519IdentityProvider.verify(
+          context,
+          identity,
+          signature,
+          "other content"
+        )).valid
+      );
+    }
+  }
+);
+
+test.serial(
+  "cosigned packages meet trust policy signature requirements",
+  async t => {
+    // Use an empty trust store, instead of the one in the user's home directory.
+    const home = await createWorkingDirectory();
+    process.env.HOME = process.env.USERPROFILE = home;
+    const keyDirectory = path.join(home, ".pkgsign-trust-store", "ed25519");
+    fs.mkdirSync(keyDirectory, { recursive: true });
+
+    const packageDirectory = path.join(home, "pkg");
+    fs.mkdirSync(packageDirectory);
+    await writeFilePromise(
+      path.join(packageDirectory, "package.json"),
+      JSON.stringify({ name: "cosigned-pkg", version: "1.0.0" })
+    );
+    await writeFilePromise(path.join(packageDirectory, "index.js"), "");
+
+    let identities = [];
+    let signOptions = [];
+    for (let name of ["alice", "bob", "carol"]) {
+      const keyPair = generateEd25519KeyPair("pem");
+      await writeFilePromise(
+        path.join(home, name + ".pem"),
+        keyPair.privateKey
+      );
+      await writeFilePromise(
+        path.join(keyDirectory, name + ".pem"),
+        keyPair.publicKey
+      );
+      identities.push({ ed25519Fingerprint: keyPair.fingerprint });
+      const opts = new SignOptions();
+      opts.withSigner = "ed25519";
+      opts.ed25519PrivateKeyPath = path.join(home, name + ".pem");
+      signOptions.push(opts);
+    }
+
+    const policyPath = path.join(home, ".pkgsignrc.json");
+    await writeFilePromise(
+      policyPath,
+      JSON.stringify({
+        requireSignatures: [
+          { pattern: "cosigned-pkg", threshold: 2, identities: identities }
+        ]
+      })
+    );
+    const verifyPackage = async () =>
+      await new ModuleVerifier(
+        new LayeredTrustStore(new TrustStore(), [
+          new PolicyTrustStore(policyPath)
+        ])
+      ).verify(packageDirectory, ["package.json", "index.js"], "cosigned-pkg");
+
+    t.true(
+      await new SignCommand().executeInternal(packageDirectory, signOptions[0])
+    );
+    t.is((await verifyPackage()).status, ModuleVerificationStatus.Untrusted);
+
+    t.true(
+      await new CosignCommand().executeInternal(
+        packageDirectory,
+        signOptions[1]
+      )
+    );
+    t.false(
+      await new CosignCommand().executeInternal(
+        packageDirectory,
+        signOptions[1]
+      ),
+      "the same identity must not be able to cosign twice"
+    );
+    const result = await verifyPackage();
+    t.is(result.status, ModuleVerificationStatus.Trusted);
+    if (result.status == ModuleVerificationStatus.Trusted) {
+      t.deepEqual(result.signingIdentities, identities.slice(0, 2));
+    }
+
+    // Signers that the trust rules deny, or that signed with a key other
+    // than the one they are pinned to, don't count toward the requirement.
+    const trustStore = new TrustStore();
+    await trustStore.addTrustRule({
+      pattern: "cosigned-pkg",
+      identity: identities[1],
+      deny: true
+    });
+    t.is((await verifyPackage()).status, ModuleVerificationStatus.Untrusted);
+    t.true(await trustStore.removeTrustRules("cosigned-pkg", identities[1]));
+    await trustStore.addTrusted(identities[1], "cosigned-pkg", {
+      fingerprints: [identities[2].ed25519Fingerprint]
+    });
+    t.is((await verifyPackage()).status, ModuleVerificationStatus.KeyChanged);
+    t.true(await trustStore.removeTrusted("cosigned-pkg"));
+    t.is((await verifyPackage()).status, ModuleVerificationStatus.Trusted);
+
+    // A signature by a key that can't be found only fails this package.
+    fs.unlinkSync(path.join(keyDirectory, "bob.pem"));
+    const unverifiableResult = await verifyPackage();
+    t.is(unverifiableResult.status, ModuleVerificationStatus.Unverifiable);
+    t.true(
+      (unverifiableResult.reason || "").indexOf(
+        "is not in any of the configured key directories"
+      ) !== -1
+    );
+  }
+);
+
+test.serial(
+  "expired signatures and signatures by revoked keys are reported",
+  async t => {
+    // Use an empty trust store, instead of the one in the user's home directory.
+    const home = await createWorkingDirectory();
+    process.env.HOME = process.env.USERPROFILE = home;
+    const keyDirectory = path.join(home, ".pkgsign-trust-store", "ed25519");
+    fs.mkdirSync(keyDirectory, { recursive: true });
+
+    const packageDirectory = path.join(home, "pkg");
+    fs.mkdirSync(packageDirectory);
+    await writeFilePromise(
+      path.join(packageDirectory, "package.json"),
+      JSON.stringify({ name: "expiring-pkg", version: "1.0.0" })
+    );
+    const keyPair = generateEd25519KeyPair("pem");
+    await writeFilePromise(path.join(home, "key.pem"), keyPair.privateKey);
+    await writeFilePromise(
+      path.join(keyDirectory, "key.pem"),
+      keyPair.publicKey
+    );
+
+    const opts = new SignOptions();
+    opts.withSigner = "ed25519";
+    opts.ed25519PrivateKeyPath = path.join(home, "key.pem");
+    opts.expires = "2000-01-01";
+    t.false(await new SignCommand().executeInternal(packageDirectory, opts));
+    opts.expires = "2999-01-01";
+    t.true(await new SignCommand().executeInternal(packageDirectory, opts));
+
+    const verifyPackage = async () =>
+      await new ModuleVerifier(new TrustStore()).verify(
+        packageDirectory,
+        ["package.json"],
+        "expiring-pkg"
+      );
+    t.is((await verifyPackage()).status, ModuleVerificationStatus.Untrusted);
+
+    // Re-sign the package as if the signer had set an expiry date in the past.
+    const signaturePath = path.join(packageDirectory, "signature.json");
+    const entries = jsonParse(await readFilePromise(signaturePath)).entries;
+    for (let entry of entries) {
+      if (entry.entry == "metadata/v1alpha2") {
+        entry.value.expires = "2000-01-01T00:00:00.000Z";
+      }
+    }
+    await writeFilePromise(
+      signaturePath,
+      await createSignedSignatureDocument(entries, Ed25519IdentityProvider, {
+        privateKeyPath: path.join(home, "key.pem"),
+        privateKeyPassphrase: "",
+        publicKeyHttpsUrl: "",
+        sshPrincipal: ""
+      })
+    );
+    const result = await verifyPackage();
+    t.is(result.status, ModuleVerificationStatus.Expired);
+    t.is(result.reason, "The signature expired on 2000-01-01T00:00:00.000Z");
+
+    // Signatures by revoked PGP keys are never valid, even when they were
+    // made before the revocation, but report when the key was revoked.
+    const generated = await openpgp.generateKey({
+      userIds: [{ name: "test", email: "test@example.com" }],
+      curve: "ed25519",
+      date: new Date("2019-01-01")
+    });
+    const privateKey = (await openpgp.key.readArmored(
+      generated.privateKeyArmored
+    )).keys[0];
+    const signature = (await openpgp.sign({
+      message: openpgp.message.fromText("content"),
+      privateKeys: privateKey,
+      detached: true,
+      date: new Date("2019-06-01")
+    })).signature;
+    const revokedKey = (await openpgp.revokeKey({
+      key: privateKey,
+      revocationCertificate: generated.revocationCertificate
+    })).publicKey;
+    const verification = await verifyPgpSignature(
+      revokedKey.armor(),
+      signature,
+      "content"
+    );
+    t.false(verification.valid);
+    t.deepEqual(verification.keyRevoked, new Date("2019-01-01"));
+    t.false(
+      (await verifyPgpSignature(revokedKey.armor(), signature, "other content"))
+        .valid
+    );
+  }
+);
+
+test.serial(
+  "packages signed by revoked keys are compromised and reported by audit",
+  async t => {
+    // Use an empty trust store, instead of the one in the user's home directory.
+    const home = await createWorkingDirectory();
+    process.env.HOME = process.env.USERPROFILE = home;
+    const trustStoreFolder = path.join(home, ".pkgsign-trust-store");
+    fs.mkdirSync(path.join(trustStoreFolder, "ed25519"), { recursive: true });
+
+    const packageDirectory = path.join(home, "pkg");
+    fs.mkdirSync(packageDirectory);
+    await writeFilePromise(
+      path.join(packageDirectory, "package.json"),
+      JSON.stringify({ name: "revoked-pkg", version: "1.0.0" })
+    );
+    const keyPair = generateEd25519KeyPair("jwk");
+    await writeFilePromise(path.join(home, "key.jwk"), keyPair.privateKey);
+    await writeFilePromise(
+      path.join(trustStoreFolder, "ed25519", "key.jwk"),
+      keyPair.publicKey
+    );
+    const opts = new SignOptions();
+    opts.withSigner = "ed25519";
+    opts.ed25519PrivateKeyPath = path.join(home, "key.jwk");
+    t.true(await new SignCommand().executeInternal(packageDirectory, opts));
+
+    const identity = { ed25519Fingerprint: keyPair.fingerprint };
+    await new TrustStore().addTrusted(identity, "revoked-pkg");
+    const verifyPackage = async () =>
+      await new ModuleVerifier(new TrustStore()).verify(
+        packageDirectory,
+        ["package.json"],
+        "revoked-pkg"
+      );
+    t.is((await verifyPackage()).status, ModuleVerificationStatus.Trusted);
+
+    const writeRevocations = async (revokedAt: string) =>
+      await writeFilePromise(
+        path.join(trustStoreFolder, "revocations.json"),
+        JSON.stringify({
+          revocations: [
+            {
+              fingerprint: keyPair.fingerprint.toLowerCase(),
+              revokedAt: revokedAt,
+              reason: "key leaked"
+            }
+          ]
+        })
+      );
+
+    // Revocations don't apply until their revocation date.
+    await writeRevocations("2999-01-01T00:00:00.000Z");
+    t.is((await verifyPackage()).status, ModuleVerificationStatus.Trusted);
+
+    // Packages signed before the key was revoked are compromised too, since
+    // the signing time can be forged with a stolen key.
+    await writeRevocations("2000-01-01T00:00:00.000Z");
+    const result = await verifyPackage();
+    t.is(result.status, ModuleVerificationStatus.Compromised);
+    t.is(
+      result.reason,
+      "Signed by ed25519:" +
+        keyPair.fingerprint +
+        ", but key " +
+        keyPair.fingerprint +
+        " was revoked on 2000-01-01T00:00:00.000Z (key leaked)"
+    );
+
+    await new TrustAuditCommand().execute(new TrustAuditOptions());
+    t.is(process.exitCode, 1);
+    process.exitCode = 0;
+
+    // Trust granted by a project's trust policy is audited as well.
+    t.true(await new TrustStore().removeTrusted("revoked-pkg", identity));
+    const auditOptions = new TrustAuditOptions();
+    await new TrustAuditCommand().execute(auditOptions);
+    t.is(process.exitCode, 0);
+    auditOptions.policyPath = path.join(home, ".pkgsignrc.json");
+    await writeFilePromise(
+      auditOptions.policyPath,
+      JSON.stringify({ trust: { "revoked-pkg": identity } })
+    );
+    await new TrustAuditCommand().execute(auditOptions);
+    t.is(process.exitCode, 1);
+    process.exitCode = 0;
+
+    // Packages can't be verified if a revocation list can't be loaded.
+    await writeFilePromise(
+      path.join(trustStoreFolder, "config.json"),
+      JSON.stringify({
+        revocations: { urls: ["https://example.com/revocations.json"] }
+      })
+    );
+    const offlineResult = await new ModuleVerifier(new TrustStore(true)).verify(
+      packageDirectory,
+      ["package.json"],
+      "revoked-pkg"
+    );
+    t.is(offlineResult.status, ModuleVerificationStatus.Unverifiable);
+    t.regex(
+      offlineResult.reason || "",
+      /^Unable to load the revocation lists: unable to load revocation list from https:\/\/example\.com\/revocations\.json: /
+    );
+  }
+);
+
+test("installed modules are checked against package-lock.json and yarn.lock", async t => {
+  const dir = await createWorkingDirectory();
+  await writeFilePromise(
+    path.join(dir, "package.json"),
+    JSON.stringify({ name: "locked-project", version: "1.0.0" })
+  );
+  const installed: { [name: string]: string } = {
+    a: "1.0.0",
+    b: "2.0.0",
+    extra: "1.0.0"
+  };
+  for (let name in installed) {
+    fs.mkdirSync(path.join(dir, "node_modules", name), { recursive: true });
+    await writeFilePromise(
+      path.join(dir, "node_modules", name, "package.json"),
+      JSON.stringify({ name: name, version: installed[name] })
+    );
+  }
+  await writeFilePromise(
+    path.join(dir, "package-lock.json"),
+    JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        "": { name: "locked-project", version: "1.0.0" },
+        "node_modules/a": { version: "1.0.0" },
+        "node_modules/b": { version: "2.1.0" },
+        "node_modules/c": { version: "3.0.0" },
+        "node_modules/fsevents": { version: "2.0.0", optional: true }
+      }
+    })
+  );
+
+  const verifier = new ModuleHierarchyVerifier(dir, new TestTrustStore());
+  const findings = await verifier.checkLockfile(
+    path.join(dir, "package-lock.json")
+  );
+  t.deepEqual(findings.map(finding => [finding.kind, finding.packageName]), [
+    [LockfileFindingKind.VersionMismatch, "b"],
+    [LockfileFindingKind.NotInLockfile, "extra"],
+    [LockfileFindingKind.Missing, "c"]
+  ]);
+
+  const yarnLock = [
+    "# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.",
+    "# yarn lockfile v1",
+    "",
+    "",
+    "a@^1.0.0:",
+    '  version "1.0.0"',
+    "",
+    '"b@^2.0.0", "b@~2.0.0":',
+    '  version "2.0.0"',
+    "  optionalDependencies:",
+    '    "@scope/c" "^3.0.0"',
+    "",
+    '"@scope/c@^3.0.0":',
+    '  version "3.0.0"',
+    ""
+  ].join("\n");
+  t.deepEqual(parseYarnLock(yarnLock), [
+    { name: "a", version: "1.0.0" },
+    { name: "b", version: "2.0.0" },
+    { name: "@scope/c", version: "3.0.0", optional: true }
+  ]);
+  await writeFilePromise(path.join(dir, "yarn.lock"), yarnLock);
+  t.deepEqual(
+    (await verifier.checkLockfile(path.join(dir, "yarn.lock"))).map(finding => [
+      finding.kind,
+      finding.packageName
+    ]),
+    [[LockfileFindingKind.NotInLockfile, "extra"]]
+  );
+});
+
+test("modules installed with pnpm and Yarn PnP are found", async t => {
+  // pnpm installs packages into a virtual store, and symlinks them into the
+  // node_modules folders that depend on them.
+  const dir = await createWorkingDirectory();
+  await writeFilePromise(
+    path.join(dir, "package.json"),
+    JSON.stringify({ name: "pnpm-project", version: "1.0.0" })
+  );
+  const storeDir = path.join(dir, "node_modules", ".pnpm");
+  for (let [entry, name] of [["a@1.0.0", "a"], ["@s+b@2.0.0", "@s/b"]]) {
+    const packageDir = path.join(storeDir, entry, "node_modules", name);
+    fs.mkdirSync(packageDir, { recursive: true });
+    await writeFilePromise(
+      path.join(packageDir, "package.json"),
+      JSON.stringify({ name: name, version: "1.0.0" })
+    );
+  }
+  fs.mkdirSync(path.join(storeDir, "a@1.0.0", "node_modules", "@s"));
+  fs.symlinkSync(
+    path.join(storeDir, "@s+b@2.0.0", "node_modules", "@s", "b"),
+    path.join(storeDir, "a@1.0.0", "node_modules", "@s", "b")
+  );
+  fs.symlinkSync(
+    path.join(storeDir, "a@1.0.0", "node_modules", "a"),
+    path.join(dir, "node_modules", "a")
+  );
+  // Packages can also be real directories in the project's node_modules.
+  for (let name of ["c", "@t/d"]) {
+    const packageDir = path.join(dir, "node_modules", name);
+    fs.mkdirSync(packageDir, { recursive: true });
+    await writeFilePromise(
+      path.join(packageDir, "package.json"),
+      JSON.stringify({ name: name, version: "1.0.0" })
+    );
+  }
+  t.deepEqual(
+    (await PnpmLayoutResolver.findModules(dir)).map(
+      moduleInfo => moduleInfo.expectedPackageName
+    ),
+    ["@s/b", "a", "@t/d", "c"]
+  );
+  const pnpmResults = await new ModuleHierarchyVerifier(
+    dir,
+    new TestTrustStore()
+  ).verify();
+  t.is(Object.keys(pnpmResults).length, 5);
+
+  // Yarn PnP stores packages in zip archives, which are listed in .pnp.cjs.
+  // They are extracted to verify them, and removed again afterwards.
+  let extractedDirs: string[] = [];
+  const pnpResults = await new ModuleHierarchyVerifier(
+    "yarn-pnp",
+    new TestTrustStore(),
+    {
+      ...PnpLayoutResolver,
+      findModules: async (dir: string) => {
+        const modules = await PnpLayoutResolver.findModules(dir);
+        for (let moduleInfo of modules) {
+          if (moduleInfo.isTemporary) {
+            extractedDirs.push(moduleInfo.path);
+          }
+        }
+        return modules;
+      }
+    }
+  ).verify();
+  t.is(extractedDirs.length, 1);
+  t.false(fs.existsSync(extractedDirs[0]));
+  const leftPadPath = path.join(
+    "yarn-pnp",
+    ".yarn",
+    "cache",
+    "left-pad-npm-1.0.0-9b5f28c4c8-1c4a3f0c4e.zip",
+    "node_modules",
+    "left-pad"
+  );
+  t.deepEqual(Object.keys(pnpResults).sort(), [leftPadPath, "yarn-pnp"].sort());
+  t.is(pnpResults[leftPadPath].packageName, "left-pad");
+  t.is(pnpResults[leftPadPath].status, ModuleVerificationStatus.Unsigned);
+});
+
+test("scoped packages are verified, and packages without package.json are unverifiable", async t => {
+  const results = await new ModuleHierarchyVerifier(
+    "scoped-installed",
+    new TestTrustStore()
+  ).verify();
+  const statuses: { [packageName: string]: ModuleVerificationStatus } = {};
+  for (let modulePath in results) {
+    statuses[results[modulePath].packageName] = results[modulePath].status;
+  }
+  t.deepEqual(statuses, {
+    "scoped-installed": ModuleVerificationStatus.Unsigned,
+    "@scope/pkg": ModuleVerificationStatus.Unsigned,
+    "nested-pkg": ModuleVerificationStatus.Unsigned,
+    "no-package-json": ModuleVerificationStatus.Unverifiable
+  });
+
+  const report = createVerificationReport(results, true);
+  t.is(report.summary.unverifiable, 1);
+  t.false(report.success);
+});
+
+test("workspaces are found, and aren't verified as dependencies of each other", async t => {
+  const dir = await createWorkingDirectory();
+  await writeFilePromise(
+    path.join(dir, "package.json"),
+    JSON.stringify({
+      name: "monorepo",
+      private: true,
+      workspaces: ["packages/*", "!packages/ignored"]
+    })
+  );
+  for (let name of ["a", "b", "ignored"]) {
+    fs.mkdirSync(path.join(dir, "packages", name), { recursive: true });
+    await writeFilePromise(
+      path.join(dir, "packages", name, "package.json"),
+      JSON.stringify({ name: name, version: "1.0.0" })
+    );
+  }
+  fs.mkdirSync(path.join(dir, "node_modules"));
+  fs.symlinkSync(
+    path.join(dir, "packages", "a"),
+    path.join(dir, "node_modules", "a")
+  );
+
+  const workspaces = await findWorkspaces(dir);
+  t.deepEqual(workspaces.map(workspace => workspace.name), ["a", "b"]);
+  const workspaceDirs = workspaces.map(workspace => workspace.path);
+  const rootResults = await new ModuleHierarchyVerifier(
+    dir,
+    new TestTrustStore(),
+    null,
+    workspaceDirs
+  ).verify();
+  t.deepEqual(Object.keys(rootResults), [dir]);
+
+  t.deepEqual(
+    parsePnpmWorkspaceYaml(
+      "packages:\n  - 'packages/*'\n  - \"!**/test\" # no tests\n"
+    ),
+    ["packages/*", "!**/test"]
+  );
+});
+
+test.serial(
+  "workspaces are verified by their package name, not their folder name",
+  async t => {
+    // Use an empty trust store, instead of the one in the user's home directory.
+    const home = await createWorkingDirectory();
+    process.env.HOME = process.env.USERPROFILE = home;
+    const keyDirectory = path.join(home, ".pkgsign-trust-store", "ed25519");
+    fs.mkdirSync(keyDirectory, { recursive: true });
+    const keyPair = generateEd25519KeyPair("pem");
+    await writeFilePromise(path.join(home, "key.pem"), keyPair.privateKey);
+    await writeFilePromise(
+      path.join(keyDirectory, "key.pem"),
+      keyPair.publicKey
+    );
+
+    const dir = path.join(home, "monorepo");
+    fs.mkdirSync(path.join(dir, "packages", "a"), { recursive: true });
+    await writeFilePromise(
+      path.join(dir, "package.json"),
+      JSON.stringify({
+        name: "monorepo",
+        private: true,
+        workspaces: ["packages/*"]
+      })
+    );
+    await writeFilePromise(
+      path.join(dir, "packages", "a", "package.json"),
+      JSON.stringify({ name: "@acme/a", version: "1.0.0" })
+    );
+    const opts = new SignOptions();
+    opts.withSigner = "ed25519";
+    opts.ed25519PrivateKeyPath = path.join(home, "key.pem");
+    t.true(
+      await new SignCommand().executeInternal(
+        path.join(dir, "packages", "a"),
+        opts
+      )
+    );
+    const trustStore = new TrustStore();
+    await trustStore.addTrusted(
+      { ed25519Fingerprint: keyPair.fingerprint },
+      "@acme/a"
+    );
+
+    const workspaces = await findWorkspaces(dir);
+    t.is(workspaces.length, 1);
+    const results = await new ModuleHierarchyVerifier(
+      workspaces[0].path,
+      trustStore
+    ).verify();
+    t.is(results[workspaces[0].path].packageName, "@acme/a");
+    t.is(results[workspaces[0].path].status, ModuleVerificationStatus.Trusted);
+  }
+);
+
+test("tarballs are read without extracting them, and hash like files on disk", async t => {
+  const wd = await createWorkingDirectory();
+  const packageDir = path.join(wd, "package");
+  fs.mkdirSync(path.join(packageDir, "lib"), { recursive: true });
+  await writeFilePromise(
+    path.join(packageDir, "package.json"),
+    JSON.stringify({ name: "tarball-test", version: "1.0.0" })
+  );
+  // Text files are hashed with LF line endings, even when a CRLF spans the
+  // chunks that the file is read in.
+  await writeFilePromise(
+    path.join(packageDir, "lib", "index.js"),
+    "// \u00e9\r\n".repeat(20000)
+  );
+  fs.writeFileSync(
+    path.join(packageDir, "lib", "data.bin"),
+    Buffer.from([0, 1, 2, 13, 10, 255, 0, 13, 10])
+  );
+  const tarballPath = path.join(await createWorkingDirectory(), "test.tgz");
+  await compress(wd, tarballPath);
+
+  const tarball = await readTarball(tarballPath);
+  t.deepEqual(tarball.getFilePaths().sort(), [
+    "lib/data.bin",
+    "lib/index.js",
+    "package.json"
+  ]);
+  for (let relPath of tarball.getFilePaths()) {
+    t.is(
+      await tarball.sha512OfFile(relPath),
+      await sha512OfFile(path.join(packageDir, relPath))
+    );
+  }
+  t.is(JSON.parse(await tarball.readFile("package.json")).name, "tarball-test");
+
+  const result = await new ModuleVerifier(new TestTrustStore()).verify(
+    tarball,
+    tarball.getFilePaths(),
+    "tarball-test"
+  );
+  t.is(result.status, ModuleVerificationStatus.Unsigned);
+});
+
+test.serial(
+  "signing a tarball appends signature.json and keeps the other entries",
+  async t => {
+    // Use an empty trust store, instead of the one in the user's home directory.
+    const home = await createWorkingDirectory();
+    process.env.HOME = process.env.USERPROFILE = home;
+    const keyDirectory = path.join(home, ".pkgsign-trust-store", "ed25519");
+    fs.mkdirSync(keyDirectory, { recursive: true });
+    const keyPair = generateEd25519KeyPair("pem");
+    await writeFilePromise(path.join(home, "key.pem"), keyPair.privateKey);
+    await writeFilePromise(
+      path.join(keyDirectory, "key.pem"),
+      keyPair.publicKey
+    );
+
+    const wd = await createWorkingDirectory();
+    fs.mkdirSync(path.join(wd, "package"));
+    await writeFilePromise(
+      path.join(wd, "package", "package.json"),
+      JSON.stringify({ name: "tarball-pkg", version: "1.0.0" })
+    );
+    await writeFilePromise(path.join(wd, "package", "index.js"), "\n");
+    const tarballPath = path.join(home, "tarball-pkg-1.0.0.tgz");
+    await compress(wd, tarballPath);
+    const unsignedArchive = zlib.gunzipSync(fs.readFileSync(tarballPath));
+
+    const opts = new SignOptions();
+    opts.withSigner = "ed25519";
+    opts.ed25519PrivateKeyPath = path.join(home, "key.pem");
+    t.true(await new SignCommand().executeInternal(tarballPath, opts));
+
+    // Everything before the end-of-archive marker is unchanged.
+    const signedArchive = zlib.gunzipSync(fs.readFileSync(tarballPath));
+    const endOfArchive = unsignedArchive.length - 1024;
+    t.true(
+      signedArchive
+        .slice(0, endOfArchive)
+        .equals(unsignedArchive.slice(0, endOfArchive))
+    );
+    const tarball = await readTarball(tarballPath);
+    t.true(tarball.getFilePaths().indexOf("signature.json") !== -1);
+    t.is(
+      (await new ModuleVerifier(new TrustStore()).verify(
+        tarball,
+        tarball.getFilePaths(),
+        "tarball-pkg"
+      )).status,
+      ModuleVerificationStatus.Untrusted
+    );
+
+    // Replacing signature.json repacks the tarball, which gives the same
+    // bytes every time.
+    let repackedTarballs: Buffer[] = [];
+    for (let copy of ["a.tgz", "b.tgz"]) {
+      const copyPath = path.join(home, copy);
+      fs.copyFileSync(tarballPath, copyPath);
+      await addFileToTarball(
+        copyPath,
+        tarball,
+        "signature.json",
+        Buffer.from(await tarball.readFile("signature.json"))
+      );
+      repackedTarballs.push(fs.readFileSync(copyPath));
+    }
+    t.true(repackedTarballs[0].equals(repackedTarballs[1]));
+    t.deepEqual((await readTarball(path.join(home, "a.tgz"))).getFilePaths(), [
+      "index.js",
+      "package.json",
+      "signature.json"
+    ]);
+
+    // Options for installed packages can't be used with tarballs.
+    const verifyOptions = new VerifyOptions();
+    verifyOptions.nonInteractive = true;
+    verifyOptions.packageName = "tarball-pkg";
+    await new TrustStore().addTrusted(
+      { ed25519Fingerprint: keyPair.fingerprint },
+      "tarball-pkg"
+    );
+    t.true(
+      await new VerifyCommand().executeInternal(tarballPath, verifyOptions)
+    );
+    verifyOptions.lockfile = true;
+    t.false(
+      await new VerifyCommand().executeInternal(tarballPath, verifyOptions)
+    );
+  }
+);
+
+test.serial(
+  "detached signatures leave the package untouched, and sign its own signature.json",
+  async t => {
+    // Use an empty trust store, instead of the one in the user's home directory.
+    const home = await createWorkingDirectory();
+    process.env.HOME = process.env.USERPROFILE = home;
+    const keyDirectory = path.join(home, ".pkgsign-trust-store", "ed25519");
+    fs.mkdirSync(keyDirectory, { recursive: true });
+    const keyPair = generateEd25519KeyPair("pem");
+    await writeFilePromise(path.join(home, "key.pem"), keyPair.privateKey);
+    await writeFilePromise(
+      path.join(keyDirectory, "key.pem"),
+      keyPair.publicKey
+    );
+
+    // The package has a signature.json of its own, which isn't a signature.
+    const wd = await createWorkingDirectory();
+    const packageDir = path.join(wd, "package");
+    fs.mkdirSync(packageDir);
+    await writeFilePromise(
+      path.join(packageDir, "package.json"),
+      JSON.stringify({ name: "detached-pkg", version: "1.0.0" })
+    );
+    await writeFilePromise(path.join(packageDir, "signature.json"), "{}");
+    const tarballPath = path.join(home, "detached-pkg-1.0.0.tgz");
+    await compress(wd, tarballPath);
+    const unsignedTarball = fs.readFileSync(tarballPath);
+
+    const opts = new SignOptions();
+    opts.withSigner = "ed25519";
+    opts.ed25519PrivateKeyPath = path.join(home, "key.pem");
+    opts.detached = tarballPath + ".pkgsig";
+    t.true(await new SignCommand().executeInternal(tarballPath, opts));
+    t.true(fs.readFileSync(tarballPath).equals(unsignedTarball));
+
+    const detachedSignature = await readFilePromise(opts.detached);
+    const tarball = await readTarball(tarballPath);
+    t.is(
+      (await new ModuleVerifier(new TrustStore()).verify(
+        tarball,
+        tarball.getFilePaths(),
+        "detached-pkg",
+        detachedSignature
+      )).status,
+      ModuleVerificationStatus.Untrusted
+    );
+
+    // The package's own signature.json is one of the signed files.
+    await writeFilePromise(path.join(packageDir, "signature.json"), "[]");
+    const result = await new ModuleVerifier(new TrustStore()).verify(
+      packageDir,
+      ["package.json", "signature.json"],
+      "detached-pkg",
+      detachedSignature
+    );
+    t.is(result.status, ModuleVerificationStatus.Compromised);
+    t.is(
+      result.reason,
+      "signature.json does not have content that was signed for (mismatched hash)"
+    );
+  }
+);
+
+test.serial(
+  "packages are downloaded from the registry and checked against their integrity",
+  async t => {
+    const home = await createWorkingDirectory();
+    process.env.HOME = process.env.USERPROFILE = home;
+
+    const wd = await createWorkingDirectory();
+    fs.mkdirSync(path.join(wd, "package"));
+    await writeFilePromise(
+      path.join(wd, "package", "package.json"),
+      JSON.stringify({ name: "@scope/registry-pkg", version: "1.0.0" })
+    );
+    const tarballPath = path.join(home, "registry-pkg-1.0.0.tgz");
+    await compress(wd, tarballPath);
+    const tarball = fs.readFileSync(tarballPath);
+    let integrity =
+      "sha512-" +
+      crypto
+        .createHash("sha512")
+        .update(tarball)
+        .digest("base64");
+
+    // A local stand-in for the registry.
+    const server = http.createServer((request, response) => {
+      const port = (server.address() as { port: number }).port;
+      if (request.url == "/@scope%2fregistry-pkg") {
+        response.end(
+          JSON.stringify({
+            name: "@scope/registry-pkg",
+            "dist-tags": { latest: "1.0.0" },
+            versions: {
+              "1.0.0": {
+                dist: {
+                  tarball:
+                    "http://127.0.0.1:" + port + "/registry-pkg-1.0.0.tgz",
+                  integrity: integrity
+                }
+              }
+            }
+          })
+        );
+      } else if (request.url == "/registry-pkg-1.0.0.tgz") {
+        response.end(tarball);
+      } else {
+        response.statusCode = 404;
+        response.end();
+      }
+    });
+    await new Promise<void>(resolve =>
+      server.listen(0, "127.0.0.1", () => resolve())
+    );
+    try {
+      const port = (server.address() as { port: number }).port;
+      const settings = parseNpmrc(
+        "registry=https://registry.example.com\n" +
+          "@scope:registry=http://127.0.0.1:" +
+          port +
+          "/\n"
+      );
+      t.is(
+        getRegistryUrl("left-pad", settings),
+        "https://registry.example.com/"
+      );
+
+      const spec = parsePackageSpec("npm:@scope/registry-pkg");
+      if (spec === null) {
+        throw new Error("spec should parse");
+      }
+      t.deepEqual(spec, { name: "@scope/registry-pkg", version: "latest" });
+      const registryTarball = await fetchRegistryTarball(spec, settings);
+      t.is(registryTarball.version, "1.0.0");
+      t.true(fs.readFileSync(registryTarball.path).equals(tarball));
+
+      // A tarball that doesn't match the integrity in the registry is
+      // rejected.
+      integrity =
+        "sha512-" +
+        crypto
+          .createHash("sha512")
+          .update("other")
+          .digest("base64");
+      let threw = false;
+      try {
+        await fetchRegistryTarball(spec, settings);
+      } catch (e) {
+        threw = true;
+        t.true(e.message.indexOf("does not match the integrity") !== -1);
+      }
+      t.true(threw);
+    } finally {
+      server.close();
+    }
+  }
+);
+
+test("the verification server verifies tarballs from request bodies", async t => {
+  const wd = await createWorkingDirectory();
+  fs.mkdirSync(path.join(wd, "package"));
+  await writeFilePromise(
+    path.join(wd, "package", "package.json"),
+    JSON.stringify({ name: "served-pkg", version: "1.0.0" })
+  );
+  const tarballPath = path.join(await createWorkingDirectory(), "served.tgz");
+  await compress(wd, tarballPath);
+  const tarball = fs.readFileSync(tarballPath);
+
+  const server = createVerificationServer(new TestTrustStore(), false);
+  await new Promise<void>(resolve =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  try {
+    const baseUrl =
+      "http://127.0.0.1:" + (server.address() as { port: number }).port;
+
+    let response = await fetch(baseUrl + "/verify?name=served-pkg", {
+      method: "POST",
+      body: tarball
+    });
+    t.is(response.status, 200);
+    let report = await response.json();
+    t.false(report.success);
+    t.is(report.modules[0].packageName, "served-pkg");
+    t.is(report.modules[0].status, "unsigned");
+
+    response = await fetch(baseUrl + "/verify-batch", {
+      method: "POST",
+      body: JSON.stringify({
+        packages: [
+          { name: "served-pkg", tarball: tarball.toString("base64") },
+          { name: "served-pkg", tarball: tarball.toString("base64") }
+        ]
+      })
+    });
+    t.is(response.status, 200);
+    report = await response.json();
+    t.deepEqual(report.modules.map((module: any) => module.path), ["0", "1"]);
+    t.is(report.summary.unsigned, 2);
+
+    // Requests that can't be verified are rejected with an error.
+    response = await fetch(baseUrl + "/verify?name=served-pkg", {
+      method: "POST",
+      body: "not a tarball"
+    });
+    t.is(response.status, 400);
+    t.true((await response.json()).error.indexOf("tarball") !== -1);
+    t.is((await fetch(baseUrl + "/verify")).status, 405);
+    t.is((await fetch(baseUrl + "/other", { method: "POST" })).status, 404);
+  } finally {
+    server.close();
+  }
+
+  // Tarballs that are too large, before or after they are decompressed, are
+  // rejected.
+  for (let maxRequestSize of [tarball.length - 1, tarball.length + 1]) {
+    const limitedServer = createVerificationServer(
+      new TestTrustStore(),
+      false,
+      maxRequestSize
+    );
+    await new Promise<void>(resolve =>
+      limitedServer.listen(0, "127.0.0.1", () => resolve())
+    );
+    try {
+      const response = await fetch(
+        "http://127.0.0.1:" +
+          (limitedServer.address() as { port: number }).port +
+          "/verify?name=served-pkg",
+        { method: "POST", body: tarball }
+      );
+      t.is(response.status, 413);
+    } finally {
+      limitedServer.close();
+    }
+  }
+});
+
+test.serial(
+  "the Verdaccio plugin rejects untrusted publishes, and records who signed the others",
+  async t => {
+    const home = await createWorkingDirectory();
+    process.env.HOME = process.env.USERPROFILE = home;
+    const keyDirectory = path.join(home, ".pkgsign-trust-store", "ed25519");
+    fs.mkdirSync(keyDirectory, { recursive: true });
+    const keyPair = generateEd25519KeyPair("pem");
+    await writeFilePromise(path.join(home, "key.pem"), keyPair.privateKey);
+    await writeFilePromise(
+      path.join(keyDirectory, "key.pem"),
+      keyPair.publicKey
+    );
+
+    const wd = await createWorkingDirectory();
+    fs.mkdirSync(path.join(wd, "package"));
+    await writeFilePromise(
+      path.join(wd, "package", "package.json"),
+      JSON.stringify({ name: "published-pkg", version: "1.0.0" })
+    );
+    const tarballPath = path.join(home, "published-pkg-1.0.0.tgz");
+    await compress(wd, tarballPath);
+    const opts = new SignOptions();
+    opts.withSigner = "ed25519";
+    opts.ed25519PrivateKeyPath = path.join(home, "key.pem");
+    t.true(await new SignCommand().executeInternal(tarballPath, opts));
+
+    const policyPath = path.join(home, "policy.json");
+    await writeFilePromise(
+      policyPath,
+      JSON.stringify({
+        trust: {
+          "published-pkg": { ed25519Fingerprint: keyPair.fingerprint }
+        }
+      })
+    );
+    let middlewares: any[] = [];
+    new PkgsignVerdaccioPlugin(
+      { policy: policyPath },
+      { config: { max_body_size: "1mb" } }
+    ).register_middlewares({ use: middleware => middlewares.push(middleware) });
+
+    const createPublishBody = () => ({
+      versions: {
+        "1.0.0": {
+          dist: { tarball: "http://localhost/-/published-pkg-1.0.0.tgz" },
+          pkgsign: { status: "trusted", identity: "@forged" }
+        }
+      },
+      _attachments: {
+        "published-pkg-1.0.0.tgz": {
+          data: fs.readFileSync(tarballPath).toString("base64")
+        }
+      } as any
+    });
+
+    // Publishes the body as the package in the URL, like `npm publish`. If
+    // the body is already parsed, it's passed the way body parsers do.
+    const publish = async (
+      requestPath: string,
+      body: any = createPublishBody(),
+      alreadyParsed: boolean = false
+    ) => {
+      let request: any = new PassThrough();
+      request.method = "PUT";
+      request.url = requestPath;
+      if (alreadyParsed) {
+        request.body = body;
+        request._body = true;
+        request.end();
+      } else {
+        request.end(typeof body === "string" ? body : JSON.stringify(body));
+      }
+      let response: any = { headers: {} };
+      response.setHeader = (name: string, value: string) =>
+        (response.headers[name] = value);
+      await new Promise(resolve => {
+        response.end = resolve;
+        middlewares[0](request, response, resolve);
+      });
+      return { request, response };
+    };
+
+    let { request, response } = await publish("/published-pkg");
+    t.is(response.statusCode, undefined);
+    t.deepEqual(request.body.versions["1.0.0"].pkgsign, {
+      status: "trusted",
+      identity: "ed25519:" + keyPair.fingerprint,
+      signingIdentities: undefined,
+      keyFingerprint: keyPair.fingerprint
+    });
+
+    // The tarball is rejected when it is published as another package.
+    ({ request, response } = await publish("/other-pkg"));
+    t.is(response.statusCode, 403);
+    ({ request, response } = await publish(
+      "/other-pkg",
+      createPublishBody(),
+      true
+    ));
+    t.is(response.statusCode, 403);
+
+    // Tarballs that don't belong to a version aren't published unverified.
+    let body = createPublishBody();
+    body._attachments["other-pkg-1.0.0.tgz"] =
+      body._attachments["published-pkg-1.0.0.tgz"];
+    ({ request, response } = await publish("/published-pkg", body));
+    t.is(response.statusCode, 403);
+    body = createPublishBody();
+    body.versions["1.0.0"].dist.tarball = "http://localhost/-/renamed.tgz";
+    ({ request, response } = await publish("/published-pkg", body));
+    t.is(response.statusCode, 403);
+
+    // A signed tarball can't be published as another version.
+    ({ request, response } = await publish("/published-pkg", {
+      versions: {
+        "2.0.0": {
+          version: "2.0.0",
+          dist: { tarball: "http://localhost/-/published-pkg-2.0.0.tgz" }
+        }
+      },
+      _attachments: {
+        "published-pkg-2.0.0.tgz": createPublishBody()._attachments[
+          "published-pkg-1.0.0.tgz"
+        ]
+      }
+    }));
+    t.is(response.statusCode, 403);
+    t.true(request.body.versions["2.0.0"].pkgsign === undefined);
+
+    // Tarballs that are too large once they are decompressed are rejected,
+    // even if they are small enough to publish.
+    const bombSize = 257 * 1024 * 1024;
+    const pack = tar.pack();
+    const gzip = zlib.createGzip({ level: 9 });
+    let bombChunks: Buffer[] = [];
+    gzip.on("data", (chunk: Buffer) => bombChunks.push(chunk));
+    const gzipEnded = new Promise(resolve => gzip.on("end", resolve));
+    pack.pipe(gzip);
+    const entry = pack.entry({ name: "package/big.bin", size: bombSize });
+    const zeros = Buffer.alloc(1024 * 1024);
+    for (let written = 0; written < bombSize; written += zeros.length) {
+      if (!entry.write(zeros)) {
+        await new Promise(resolve => entry.once("drain", resolve));
+      }
+    }
+    entry.end();
+    pack.finalize();
+    await gzipEnded;
+    const bomb = Buffer.concat(bombChunks).toString("base64");
+    t.true(bomb.length < 1024 * 1024);
+    body = createPublishBody();
+    body._attachments["published-pkg-1.0.0.tgz"] = { data: bomb };
+    ({ request, response } = await publish("/published-pkg", body));
+    t.is(response.statusCode, 413);
+
+    // Publishes larger than Verdaccio's max_body_size are rejected.
+    ({ request, response } = await publish(
+      "/published-pkg",
+      "x".repeat(2 * 1024 * 1024)
+    ));
+    t.is(response.statusCode, 413);
+  }
+);